@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth-helpers";
+import { buildHintContent, getHintCost, MAX_HINT_LEVEL } from "@/lib/hints";
+import { calculateHintPenaltyMinutes } from "@/lib/score-config";
+import { applyCoinChange } from "@/lib/coin-ledger";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * A bug as shown in the hints UI. Only the symptom is exposed until hints are revealed.
+ */
+export interface HintBug {
+  id: string;
+  order: number;
+  symptom: string | null;
+  /** Hints revealed so far, in level order */
+  hints: { level: number; content: string; cost: number }[];
+  /** Next hint level that can be revealed (null when all are revealed) */
+  nextLevel: number | null;
+  /** Cost of the next hint (null when all are revealed) */
+  nextCost: number | null;
+}
+
+/**
+ * Response from GET /api/buggers/[id]/hints.
+ */
+export interface HintsResponse {
+  bugs: HintBug[];
+  hintsUsed: number;
+  coinsSpent: number;
+  /** Minutes added to the completion time when grading */
+  penaltyMinutes: number;
+  /** True once the challenge has a Result - no more hints can be bought */
+  completed: boolean;
+  /** True once the challenge was reported as broken (and refunded) - no more hints can be bought */
+  broken: boolean;
+}
+
+/**
+ * Thrown inside the reveal transaction when the user can't afford a hint.
+ */
+class NotEnoughCoinsError extends Error {
+  constructor(public readonly cost: number) {
+    super(`Not enough coins. Need ${cost} coins`);
+    this.name = "NotEnoughCoinsError";
+  }
+}
+
+/**
+ * Loads a Bugger with its bugs and hints, verifying ownership.
+ *
+ * @param id - Bugger ID
+ * @param userId - Authenticated user's ID
+ * @returns The Bugger, or an error response
+ */
+async function loadBugger(id: string, userId: string) {
+  const bugger = await prisma.bugger.findUnique({
+    where: { id },
+    include: {
+      result: { select: { id: true } },
+      bugs: {
+        orderBy: { order: "asc" },
+        include: { hints: { orderBy: { level: "asc" } } },
+      },
+    },
+  });
+
+  if (!bugger) {
+    return { bugger: null, error: NextResponse.json({ error: "Bugger not found" }, { status: 404 }) };
+  }
+  if (bugger.userId !== userId) {
+    return {
+      bugger: null,
+      error: NextResponse.json({ error: "Unauthorized - this bugger belongs to another user" }, { status: 403 }),
+    };
+  }
+  return { bugger, error: null };
+}
+
+/**
+ * GET /api/buggers/[id]/hints
+ *
+ * Lists the bugs of a challenge (by symptom) with the hints revealed so far
+ * and the cost of the next hint for each.
+ *
+ * @returns Hints state for the challenge
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { user, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const { id } = await params;
+    const { bugger, error: loadError } = await loadBugger(id, user.id);
+    if (loadError) return loadError;
+
+    const bugs: HintBug[] = bugger.bugs.map((bug) => {
+      const nextLevel = bug.hints.length < MAX_HINT_LEVEL ? bug.hints.length + 1 : null;
+      return {
+        id: bug.id,
+        order: bug.order,
+        symptom: bug.symptom,
+        hints: bug.hints.map(({ level, content, cost }) => ({ level, content, cost })),
+        nextLevel,
+        nextCost: nextLevel ? getHintCost(nextLevel) : null,
+      };
+    });
+    const allHints = bugger.bugs.flatMap((bug) => bug.hints);
+
+    const response: HintsResponse = {
+      bugs,
+      hintsUsed: allHints.length,
+      coinsSpent: allHints.reduce((total, hint) => total + hint.cost, 0),
+      penaltyMinutes: calculateHintPenaltyMinutes(allHints.map((hint) => hint.level)),
+      completed: bugger.result !== null,
+      broken: bugger.brokenAt !== null,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[Hints] Error fetching hints:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch hints" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/buggers/[id]/hints
+ *
+ * Reveals the next hint for one bug (file -> function -> category -> line).
+ * Deducts the hint's coin cost atomically with recording the hint.
+ *
+ * Body:
+ *   - bugId: BugInstance ID to get a hint for
+ *
+ * @returns The revealed hint and the user's new coin balance
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { user, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const { id } = await params;
+    const { bugId } = await request.json();
+
+    if (!bugId || typeof bugId !== "string") {
+      return NextResponse.json({ error: "Missing required field: bugId" }, { status: 400 });
+    }
+
+    const { bugger, error: loadError } = await loadBugger(id, user.id);
+    if (loadError) return loadError;
+
+    if (bugger.result) {
+      return NextResponse.json({ error: "This challenge is already completed" }, { status: 409 });
+    }
+    if (bugger.brokenAt) {
+      return NextResponse.json({ error: "This challenge was reported as broken" }, { status: 409 });
+    }
+
+    const bug = bugger.bugs.find((b) => b.id === bugId);
+    if (!bug) {
+      return NextResponse.json({ error: "Bug not found in this challenge" }, { status: 404 });
+    }
+
+    const level = bug.hints.length + 1;
+    if (level > MAX_HINT_LEVEL) {
+      return NextResponse.json({ error: "All hints for this bug are already revealed" }, { status: 409 });
+    }
+
+    const cost = getHintCost(level);
+    const content = buildHintContent(bug, level);
+
+    const { hint, coins } = await prisma.$transaction(async (tx) => {
+      // Conditional decrement so concurrent requests can't overspend
+      const coins = await applyCoinChange(
+        tx,
+        {
+          userId: user.id,
+          amount: -cost,
+          reason: "hint",
+          description: `Level ${level} hint in ${bugger.owner}/${bugger.repo}`,
+          buggerId: bugger.id,
+        },
+        { requireFunds: true }
+      );
+      if (coins === null) {
+        throw new NotEnoughCoinsError(cost);
+      }
+
+      const hint = await tx.hint.create({
+        data: { buggerId: bugger.id, bugInstanceId: bug.id, level, cost, content },
+      });
+      return { hint, coins };
+    });
+
+    console.log(`[Hints] Revealed level ${level} hint for bug ${bug.id} (${cost} coins)`);
+
+    return NextResponse.json({
+      hint: { level: hint.level, content: hint.content, cost: hint.cost },
+      newBalance: coins,
+    });
+  } catch (error) {
+    if (error instanceof NotEnoughCoinsError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // Unique (bugInstanceId, level): the same hint was revealed by a concurrent request
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ error: "This hint was already revealed" }, { status: 409 });
+    }
+    console.error("[Hints] Error revealing hint:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to reveal hint" },
+      { status: 500 }
+    );
+  }
+}
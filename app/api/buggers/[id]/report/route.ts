@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth-helpers";
+import { refundChallenge } from "@/lib/coin-ledger";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/** Reason recorded when the solver doesn't give one */
+const DEFAULT_BROKEN_REASON = "The symptoms don't reproduce";
+
+/** Longest reason accepted */
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Response from POST /api/buggers/[id]/report.
+ */
+export interface ReportBrokenResponse {
+  /** Coins given back (the challenge's price plus any hints, net of earlier refunds) */
+  refunded: number;
+  newBalance: number;
+}
+
+/**
+ * POST /api/buggers/[id]/report
+ *
+ * Marks a challenge as broken (e.g. its symptoms don't reproduce) and refunds every
+ * coin spent on it. Only the owner can report, once, and only before it's completed.
+ *
+ * Body:
+ *   - reason: Optional description of what's wrong
+ *
+ * @returns Coins refunded and the user's new balance
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const { user, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const { id } = await params;
+    const body = await request.json().catch(() => ({}));
+    const reason = typeof body.reason === "string" && body.reason.trim()
+      ? body.reason.trim().slice(0, MAX_REASON_LENGTH)
+      : DEFAULT_BROKEN_REASON;
+
+    const bugger = await prisma.bugger.findUnique({
+      where: { id },
+      include: { result: { select: { id: true } } },
+    });
+
+    if (!bugger) {
+      return NextResponse.json({ error: "Bugger not found" }, { status: 404 });
+    }
+    if (bugger.userId !== user.id) {
+      return NextResponse.json({ error: "Unauthorized - this bugger belongs to another user" }, { status: 403 });
+    }
+    if (bugger.result) {
+      return NextResponse.json({ error: "This challenge is already completed" }, { status: 409 });
+    }
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Only the first report marks it (and refunds), even with concurrent requests
+      const marked = await tx.bugger.updateMany({
+        where: { id: bugger.id, brokenAt: null },
+        data: { brokenAt: new Date(), brokenReason: reason },
+      });
+      if (marked.count === 0) return null;
+
+      const refunded = await refundChallenge(tx, user.id, bugger.id, `${bugger.branchName}: ${reason}`);
+      const { coins } = await tx.user.findUniqueOrThrow({ where: { id: user.id }, select: { coins: true } });
+      return { refunded, newBalance: coins };
+    });
+
+    if (!outcome) {
+      return NextResponse.json({ error: "This challenge was already reported as broken" }, { status: 409 });
+    }
+
+    console.log(`[Buggers] Challenge ${bugger.id} reported as broken, refunded ${outcome.refunded} coins`);
+
+    const response: ReportBrokenResponse = outcome;
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[Buggers] Error reporting broken challenge:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to report challenge" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { requireAuth } from "@/lib/auth-helpers";
+import type { InjectedBug } from "@/lib/ai-stress";
 
 /**
  * Request body for creating a Bugger (when code is buggered up).
@@ -14,6 +16,7 @@ interface CreateBuggerRequest {
   // Challenge configuration
   stressLevel: "low" | "medium" | "high";
   bugCount: number;
+  seed?: string;
 
   // Commit reference
   originalCommitSha: string;
@@ -26,6 +29,9 @@ interface CreateBuggerRequest {
 
   // Files that were buggered
   filesBuggered: string[];
+
+  // Ground-truth bug map (one entry per injected bug)
+  bugs?: InjectedBug[];
 }
 
 /**
@@ -67,10 +73,22 @@ export async function POST(request: NextRequest) {
         branchName: body.branchName,
         stressLevel: body.stressLevel,
         bugCount: body.bugCount,
+        seed: body.seed ?? null,
         originalCommitSha: body.originalCommitSha,
         symptoms: body.symptoms || [],
         changes: body.changes || [],
         filesBuggered: body.filesBuggered || [],
+        bugs: {
+          create: (body.bugs || []).map(({ symptomCheck, ...bug }, order) => ({
+            ...bug,
+            order,
+            // Cast to Prisma.InputJsonValue for JSON field compatibility
+            ...(symptomCheck && { symptomCheck: symptomCheck as unknown as Prisma.InputJsonValue }),
+          })),
+        },
+      },
+      include: {
+        bugs: { orderBy: { order: "asc" } },
       },
     });
 
@@ -91,11 +109,12 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/buggers
  * 
- * Fetches Bugger records for the current user.
+ * Fetches Bugger records for the current user. Completed Buggers include their bug map
+ * (`bugs`); it's left out of pending ones, where it would give away the paid hints.
  * Supports pagination via `limit` and `offset` query params.
  * Optionally filter by `completed` (true/false) to get only completed or pending.
  * 
- * @returns Array of Bugger records with their Results (if completed)
+ * @returns Array of Bugger records with their Results and bug maps (if completed)
  */
 export async function GET(request: NextRequest) {
   const { user, error } = await requireAuth();
@@ -119,15 +138,17 @@ export async function GET(request: NextRequest) {
     }
 
     // Fetch buggers for this user with their results
-    const buggers = await prisma.bugger.findMany({
+    const records = await prisma.bugger.findMany({
       where,
       include: {
         result: true,
+        bugs: { orderBy: { order: "asc" } },
       },
       orderBy: { createdAt: "desc" },
       take: limit,
       skip: offset,
     });
+    const buggers = records.map(({ bugs, ...bugger }) => (bugger.result ? { ...bugger, bugs } : bugger));
 
     // Get total count for pagination
     const total = await prisma.bugger.count({ where });
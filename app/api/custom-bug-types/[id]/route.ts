@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth-helpers";
+import { canShareWithOrg, customBugTypeInputSchema } from "@/lib/custom-bug-types";
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Finds a custom bug type owned by the user.
+ *
+ * @param id - Custom bug type ID
+ * @param userId - Authenticated user's ID
+ * @returns The custom bug type, or null if it doesn't exist or belongs to someone else
+ */
+async function findOwnedBugType(id: string, userId: string) {
+  return prisma.customBugType.findFirst({ where: { id, userId } });
+}
+
+/**
+ * PATCH /api/custom-bug-types/[id]
+ *
+ * Updates a custom bug type. Only the creator can update it.
+ * Accepts any subset of the fields accepted by POST /api/custom-bug-types.
+ *
+ * @returns The updated custom bug type
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const { user, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const { id } = await params;
+
+    if (!(await findOwnedBugType(id, user.id))) {
+      return NextResponse.json({ error: "Custom bug type not found" }, { status: 404 });
+    }
+
+    const parsed = customBugTypeInputSchema.partial().safeParse(await request.json());
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        { error: `Invalid ${issue.path.join(".") || "body"}: ${issue.message}` },
+        { status: 400 }
+      );
+    }
+    const input = parsed.data;
+
+    if (input.orgLogin) {
+      const session = await auth();
+      if (!session?.accessToken || !(await canShareWithOrg(session.accessToken, input.orgLogin, user.gitUsername))) {
+        return NextResponse.json(
+          { error: `You must be a member of ${input.orgLogin} to share bug types with it` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const customBugType = await prisma.customBugType.update({
+      where: { id },
+      data: input,
+    });
+
+    return NextResponse.json({ customBugType });
+  } catch (error) {
+    console.error("[CustomBugTypes] Error updating custom bug type:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to update custom bug type" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/custom-bug-types/[id]
+ *
+ * Deletes a custom bug type. Only the creator can delete it.
+ * Challenges already created with it keep their recorded bugs.
+ *
+ * @returns Success status
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const { user, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const { id } = await params;
+
+    if (!(await findOwnedBugType(id, user.id))) {
+      return NextResponse.json({ error: "Custom bug type not found" }, { status: 404 });
+    }
+
+    await prisma.customBugType.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[CustomBugTypes] Error deleting custom bug type:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to delete custom bug type" },
+      { status: 500 }
+    );
+  }
+}
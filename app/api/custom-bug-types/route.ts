@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth-helpers";
+import { canShareWithOrg, customBugTypeInputSchema } from "@/lib/custom-bug-types";
+
+/**
+ * GET /api/custom-bug-types
+ *
+ * Fetches the custom bug types the current user defined.
+ *
+ * @returns List of custom bug types, newest first
+ */
+export async function GET() {
+  const { user, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const customBugTypes = await prisma.customBugType.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ customBugTypes });
+  } catch (error) {
+    console.error("[CustomBugTypes] Error fetching custom bug types:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch custom bug types" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/custom-bug-types
+ *
+ * Creates a custom bug type. When `orgLogin` is set, the type is shared with that
+ * GitHub organization and used for every challenge on its repositories.
+ *
+ * Body: name, category, description, examples, sampleSymptom, and optional framework,
+ * language, orgLogin, enabled
+ *
+ * @returns The created custom bug type
+ */
+export async function POST(request: NextRequest) {
+  const { user, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const parsed = customBugTypeInputSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return NextResponse.json(
+        { error: `Invalid ${issue.path.join(".") || "body"}: ${issue.message}` },
+        { status: 400 }
+      );
+    }
+    const input = parsed.data;
+
+    if (input.orgLogin) {
+      const session = await auth();
+      if (!session?.accessToken || !(await canShareWithOrg(session.accessToken, input.orgLogin, user.gitUsername))) {
+        return NextResponse.json(
+          { error: `You must be a member of ${input.orgLogin} to share bug types with it` },
+          { status: 403 }
+        );
+      }
+    }
+
+    const customBugType = await prisma.customBugType.create({
+      data: { ...input, userId: user.id },
+    });
+
+    return NextResponse.json({ customBugType });
+  } catch (error) {
+    console.error("[CustomBugTypes] Error creating custom bug type:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to create custom bug type" },
+      { status: 500 }
+    );
+  }
+}
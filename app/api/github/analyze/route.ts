@@ -1,9 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
+import type { Bugger } from "@prisma/client";
 import { auth } from "@/auth";
-import { fetchCommitDetails, StressMetadata } from "@/lib/github";
-import { generateText, LanguageModel } from "ai";
+import { fetchCommitDetails, fetchFileContent, StressMetadata } from "@/lib/github";
+import { z } from "zod";
+import { generateAIObject } from "@/lib/ai-provider";
 import { prisma } from "@/lib/prisma";
 import { logTokenUsage } from "@/lib/token-usage";
+import { BugFixResult, BugLocation, capGrade, detectBugFixes, FileVersions, getMaxGradeForFixes } from "@/lib/fix-detection";
+import { HINT_LEVELS } from "@/lib/hints";
+import { calculateHintPenaltyMinutes, DifficultyLevel, TIME_THRESHOLDS } from "@/lib/score-config";
 
 /**
  * Feedback item returned by the analysis.
@@ -25,12 +30,36 @@ export interface AnalyzeResponse {
   summary: string;
   isPerfect: boolean;
 
-  /** AI-determined grade based on time + code quality (A, B, C, D, F) */
+  /** AI-determined grade based on time + code quality (A, B, C, D, F), capped by the fix check */
   grade: string;
+
+  /** Deterministic per-bug fix status (absent for challenges without a bug map) */
+  bugFixes?: BugFixResult[];
 }
 
-/** Supported AI providers */
-type AIProvider = "anthropic" | "ollama" | "openai-compatible";
+/**
+ * Schema the grading response must satisfy.
+ * Responses that don't match are sent back to the model for repair.
+ */
+const analyzeResponseSchema = z.object({
+  feedback: z
+    .array(
+      z.object({
+        type: z.enum(["success", "warning", "info", "hint", "tip"]),
+        title: z.string().min(1),
+        message: z.string().min(1),
+        file: z.string().nullish().transform((value) => value ?? undefined),
+        improvement: z.string().nullish().transform((value) => value ?? undefined),
+      })
+    )
+    .min(1),
+  summary: z.string(),
+  isPerfect: z.boolean(),
+  grade: z
+    .string()
+    .transform((value) => value.trim().toUpperCase())
+    .pipe(z.enum(["A", "B", "C", "D", "F"])),
+});
 
 /**
  * Custom error class for AI analysis failures.
@@ -42,126 +71,6 @@ class AIAnalysisError extends Error {
   }
 }
 
-/**
- * Resolves the AI provider to use based on environment variables.
- * Priority: AI_PROVIDER env var > auto-detect based on available keys > anthropic
- * 
- * @returns The configured AI provider
- */
-function resolveAIProvider(): AIProvider {
-  const explicitProvider = process.env.AI_PROVIDER?.toLowerCase();
-  
-  if (explicitProvider === "ollama") return "ollama";
-  if (explicitProvider === "openai-compatible") return "openai-compatible";
-  if (explicitProvider === "anthropic") return "anthropic";
-  
-  // Auto-detect based on available configuration
-  if (process.env.AI_PROVIDER === "ollama" || (process.env.AI_MODEL && process.env.AI_PROVIDER !== "anthropic" && !process.env.ANTHROPIC_API_KEY)) return "ollama";
-  if (process.env.OPENAI_COMPATIBLE_BASE_URL) return "openai-compatible";
-  
-  // Default to Anthropic
-  return "anthropic";
-}
-
-/**
- * Creates the appropriate language model based on the configured provider.
- * Supports Anthropic (default), Ollama, and OpenAI-compatible local servers.
- * 
- * @returns Language model instance for the configured provider
- * @throws AIAnalysisError if the provider dependencies are not available
- */
-async function createLanguageModel(): Promise<LanguageModel> {
-  const provider = resolveAIProvider();
-  console.log("[Analyze] Using AI provider:", provider);
-  
-  switch (provider) {
-    case "ollama": {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let createOpenAICompatible: any;
-      try {
-        const compatModule = await import("@ai-sdk/openai-compatible");
-        createOpenAICompatible = compatModule.createOpenAICompatible;
-      } catch (error) {
-        throw new AIAnalysisError(
-          "OpenAI Compatible SDK not available for Ollama. Please ensure @ai-sdk/openai-compatible is installed.",
-          error
-        );
-      }
-      
-      const baseURL = process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1";
-      const model = process.env.AI_MODEL || "llama3";
-      
-      const ollama = createOpenAICompatible({
-        name: "ollama",
-        baseURL,
-        headers: {
-          Authorization: "Bearer ollama",
-        },
-      });
-      
-      return ollama.chatModel(model);
-    }
-    
-    case "openai-compatible": {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let createOpenAICompatible: any;
-      try {
-        const compatModule = await import("@ai-sdk/openai-compatible");
-        createOpenAICompatible = compatModule.createOpenAICompatible;
-      } catch (error) {
-        throw new AIAnalysisError(
-          "OpenAI Compatible SDK not available. Please ensure @ai-sdk/openai-compatible is installed.",
-          error
-        );
-      }
-      
-      const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
-      if (!baseURL) {
-        throw new AIAnalysisError(
-          "OPENAI_COMPATIBLE_BASE_URL environment variable is required for openai-compatible provider."
-        );
-      }
-      
-      const model = process.env.OPENAI_COMPATIBLE_MODEL || "default";
-      const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed";
-      
-      const openaiCompatible = createOpenAICompatible({
-        name: "openai-compatible",
-        baseURL,
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-        },
-      });
-      
-      return openaiCompatible.chatModel(model);
-    }
-    
-    case "anthropic":
-    default: {
-      const apiKey = process.env.ANTHROPIC_API_KEY;
-      if (!apiKey) {
-        throw new AIAnalysisError(
-          "ANTHROPIC_API_KEY environment variable is not set."
-        );
-      }
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let anthropic: any;
-      try {
-        const anthropicModule = await import("@ai-sdk/anthropic");
-        anthropic = anthropicModule.anthropic;
-      } catch (error) {
-        throw new AIAnalysisError(
-          "AI SDK not available. Please ensure @ai-sdk/anthropic is installed.",
-          error
-        );
-      }
-      
-      return anthropic(process.env.AI_MODEL || "claude-sonnet-4-20250514");
-    }
-  }
-}
-
 /**
  * Extracts user reasoning from a reasoning.txt file patch.
  * Looks for added lines (starting with +) to get the user's comments.
@@ -183,13 +92,74 @@ function extractUserReasoning(patch: string): string | null {
   return addedLines.length > 0 ? addedLines : null;
 }
 
+/** Labels for fix statuses in the grading prompt */
+const FIX_STATUS_LABELS: Record<BugFixResult["status"], string> = {
+  fixed: "FIXED",
+  partially_fixed: "PARTIALLY FIXED",
+  untouched: "NOT FIXED",
+  reverted_file: "FIXED BY REVERTING THE WHOLE FILE",
+};
+
+/**
+ * Fetches the original and final contents of the buggered files.
+ *
+ * @param accessToken - GitHub OAuth access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param paths - Buggered file paths
+ * @param originalSha - Commit the challenge was created from
+ * @param finalSha - The user's completion commit
+ * @returns File versions keyed by path, or null if any file couldn't be fetched
+ */
+async function fetchFileVersions(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  paths: string[],
+  originalSha: string,
+  finalSha: string
+): Promise<Map<string, FileVersions> | null> {
+  const fetchVersion = async (path: string, ref: string): Promise<string | null> => {
+    try {
+      const file = await fetchFileContent(accessToken, owner, repo, path, ref);
+      return Buffer.from(file.content, "base64").toString("utf-8");
+    } catch (error) {
+      // A missing file is a fact (deleted); anything else makes the check unreliable
+      if (error instanceof Error && error.message.includes(": 404")) return null;
+      throw error;
+    }
+  };
+
+  try {
+    const versions = new Map<string, FileVersions>();
+    for (const path of paths) {
+      versions.set(path, {
+        original: originalSha ? await fetchVersion(path, originalSha) : null,
+        final: await fetchVersion(path, finalSha),
+      });
+    }
+    return versions;
+  } catch (error) {
+    console.warn("[Analyze] Could not fetch files for the fix check:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * What the grader knows about the challenge. The answer key (files buggered and technical
+ * changes) comes from the Bugger record; branches without one only have the public metadata.
+ */
+type ChallengeContext = Pick<Bugger, "stressLevel" | "bugCount" | "symptoms" | "filesBuggered" | "changes">;
+
 /**
  * Uses AI to analyze the user's code fix and provide detailed feedback.
  * 
  * @param patches - Array of file patches (diffs) from the commit
- * @param metadata - Optional buggr metadata describing what bugs were introduced
+ * @param challenge - Optional description of the challenge and the bugs that were introduced
  * @param userReasoning - Optional user-provided reasoning from reasoning.txt
  * @param timeMs - Time taken to complete the challenge in milliseconds
+ * @param bugFixes - Deterministic per-bug fix results (facts the grade is capped by), if available
+ * @param hintLevels - Level of every hint the user revealed (each adds a time penalty)
  * @param userId - Optional user ID for token usage tracking
  * @param buggerId - Optional bugger ID for correlating token usage
  * @param repoOwner - Repository owner for token usage tracking
@@ -198,18 +168,16 @@ function extractUserReasoning(patch: string): string | null {
  */
 async function analyzeWithAI(
   patches: { filename: string; patch: string; status: string }[],
-  metadata: StressMetadata | null,
+  challenge: ChallengeContext | null,
   userReasoning: string | null,
   timeMs: number,
+  bugFixes: BugFixResult[] | null,
+  hintLevels: number[],
   userId?: string,
   buggerId?: string,
   repoOwner?: string,
   repoName?: string
 ): Promise<AnalyzeResponse> {
-  const aiProvider = resolveAIProvider();
-  const model = await createLanguageModel();
-  const modelName = process.env.AI_MODEL || (aiProvider === "anthropic" ? "claude-sonnet-4-20250514" : "unknown");
-  
   // Format the patches for the prompt (excluding reasoning.txt from code review)
   const codePatchesText = patches
     .filter((p) => !p.filename.toLowerCase().includes("reasoning.txt"))
@@ -223,21 +191,16 @@ async function analyzeWithAI(
     : `${timeMinutes}m`;
 
   // Time thresholds for grading guidance
-  const timeThresholds = {
-    low: { maxA: 5, maxB: 10, maxC: 15 },
-    medium: { maxA: 7, maxB: 11, maxC: 15 },
-    high: { maxA: 10, maxB: 15, maxC: 20 },
-  };
-  const difficulty = (metadata?.stressLevel as "low" | "medium" | "high") || "medium";
-  const thresholds = timeThresholds[difficulty];
+  const difficulty = (challenge?.stressLevel as DifficultyLevel) || "medium";
+  const thresholds = TIME_THRESHOLDS[difficulty];
 
   // Build context about the bugs that were introduced
   let bugContext = "";
-  if (metadata) {
+  if (challenge) {
     bugContext = `
 ## CONTEXT: What bugs were introduced
 
-The user was debugging a "${metadata.stressLevel}" difficulty challenge with ${metadata.bugCount} bug(s).
+The user was debugging a "${challenge.stressLevel}" difficulty challenge with ${challenge.bugCount} bug(s).
 **Time taken: ${timeFormatted} (${timeMinutes} minutes)**
 
 ### Time Guidelines for ${difficulty} difficulty:
@@ -247,14 +210,14 @@ The user was debugging a "${metadata.stressLevel}" difficulty challenge with ${m
 - D grade: ${thresholds.maxC}+ minutes OR significant issues
 - F grade: Bugs not resolved or no explanation for why they couldn't be resolved
 
-### Files that were bugged:
-${metadata.filesBuggered.map((f) => `- ${f}`).join("\n")}
+${challenge.filesBuggered.length > 0 ? `### Files that were bugged:
+${challenge.filesBuggered.map((f) => `- ${f}`).join("\n")}
 
-### Technical changes that were made (the bugs):
-${metadata.changes.map((c, i) => `${i + 1}. ${c}`).join("\n")}
+` : ""}${challenge.changes.length > 0 ? `### Technical changes that were made (the bugs):
+${challenge.changes.map((c, i) => `${i + 1}. ${c}`).join("\n")}
 
-### Symptoms the bugs caused:
-${metadata.symptoms.map((s, i) => `${i + 1}. ${s}`).join("\n")}
+` : ""}### Symptoms the bugs caused:
+${challenge.symptoms.map((s, i) => `${i + 1}. ${s}`).join("\n")}
 
 NOTE: Sometimes the AI-generated bugs don't actually cause the described symptoms, or the user found different issues. Consider the user's reasoning if provided.
 `;
@@ -268,6 +231,40 @@ No bug metadata available. Evaluate based on code quality and reasoning.
 `;
   }
 
+  // Deterministic fix check: the AI must treat these as facts
+  const maxGrade = bugFixes ? getMaxGradeForFixes(bugFixes, userReasoning !== null) : "A";
+  let fixFactsContext = "";
+  if (bugFixes && bugFixes.length > 0) {
+    fixFactsContext = `
+## VERIFIED FIX STATUS (FACTS - DO NOT CONTRADICT)
+
+A deterministic check compared the user's final code against each injected bug:
+${bugFixes.map((fix, i) => `${i + 1}. [${FIX_STATUS_LABELS[fix.status]}] ${fix.file} (lines ${fix.lineStart}-${fix.lineEnd}, ${fix.category}): ${fix.detail}${fix.symptom ? ` Symptom: "${fix.symptom}"` : ""}`).join("\n")}
+
+RULES FOR THESE FACTS:
+- Never say a bug marked NOT FIXED or PARTIALLY FIXED was fixed; include a "warning" for each one
+- A bug FIXED BY REVERTING THE WHOLE FILE was not debugged - mention it
+- The grade MUST NOT be better than ${maxGrade}
+`;
+  }
+
+  // Hints count as extra time when grading
+  let hintsContext = "";
+  if (hintLevels.length > 0) {
+    const penaltyMinutes = calculateHintPenaltyMinutes(hintLevels);
+    const hintCounts = HINT_LEVELS.map(({ level, label }) => ({
+      label,
+      count: hintLevels.filter((hintLevel) => hintLevel === level).length,
+    })).filter(({ count }) => count > 0);
+    hintsContext = `
+## HINTS USED
+
+The user bought ${hintLevels.length} hint(s): ${hintCounts.map(({ label, count }) => `${count}x "${label}"`).join(", ")}.
+Hints add a ${penaltyMinutes} minute penalty: grade time as ${timeMinutes + penaltyMinutes} minutes instead of ${timeMinutes}.
+Mention the hints neutrally in your feedback (as "info") - using them is allowed.
+`;
+  }
+
   // Build user reasoning section if provided
   let userReasoningContext = "";
   if (userReasoning) {
@@ -297,6 +294,8 @@ IMPORTANT:
 5. **ASSIGN A GRADE (A, B, C, D, or F) based on time + code quality**
 
 ${bugContext}
+${fixFactsContext}
+${hintsContext}
 ${userReasoningContext}
 
 ## THE USER'S FIX (diff format: + = added lines, - = removed lines)
@@ -363,26 +362,25 @@ IMPORTANT:
     console.log("[Analyze] Sending to AI for analysis...");
     const startTime = Date.now();
     
-    const { text, usage } = await generateText({
-      model,
+    const { object: parsed, usage, provider, model, repairAttempts } = await generateAIObject({
+      operation: "analyze",
       prompt,
+      schema: analyzeResponseSchema,
+      schemaName: "analysis",
+      logPrefix: "[Analyze]",
     });
     
     const duration = Date.now() - startTime;
-    console.log(`[Analyze] AI response received in ${duration}ms`);
+    console.log(`[Analyze] AI response received in ${duration}ms (repairs: ${repairAttempts})`);
     console.log(`[Analyze] Token usage:`, usage);
 
-    // Log token usage if userId provided (AI SDK v6 uses inputTokens/outputTokens)
+    // Log token usage if userId provided
     if (userId && usage) {
       await logTokenUsage({
         userId,
-        provider: aiProvider,
-        model: modelName,
-        usage: {
-          inputTokens: usage.inputTokens || 0,
-          outputTokens: usage.outputTokens || 0,
-          totalTokens: usage.totalTokens || 0,
-        },
+        provider,
+        model,
+        usage,
         operation: "analyze",
         buggerId,
         repoOwner,
@@ -390,54 +388,19 @@ IMPORTANT:
       });
     }
     
-    if (!text || text.trim().length < 20) {
-      throw new AIAnalysisError("AI returned empty or insufficient response");
-    }
-    
-    // Parse the JSON response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error("[Analyze] No JSON found in response:", text.substring(0, 500));
-      throw new AIAnalysisError("Failed to parse AI response - no JSON found");
-    }
-    
-    const parsed = JSON.parse(jsonMatch[0]) as AnalyzeResponse;
-    
-    // Validate the response structure
-    if (!parsed.feedback || !Array.isArray(parsed.feedback)) {
-      throw new AIAnalysisError("Invalid AI response - missing feedback array");
-    }
-    
-    if (typeof parsed.summary !== "string") {
-      parsed.summary = "Analysis complete.";
-    }
-    
-    if (typeof parsed.isPerfect !== "boolean") {
-      parsed.isPerfect = !parsed.feedback.some(
-        (f) => f.type === "warning" || f.type === "hint"
-      );
+    console.log(`[Analyze] Parsed ${parsed.feedback.length} feedback items, grade: ${parsed.grade}`);
+
+    if (!bugFixes) {
+      return parsed;
     }
-    
-    // Validate grade - default to C if not provided or invalid
-    const validGrades = ["A", "B", "C", "D", "F"];
-    if (typeof parsed.grade !== "string" || !validGrades.includes(parsed.grade.toUpperCase())) {
-      // Fallback: determine grade based on isPerfect and warnings
-      const hasWarnings = parsed.feedback.some((f) => f.type === "warning");
-      const hasHints = parsed.feedback.some((f) => f.type === "hint");
-      
-      if (parsed.isPerfect && !hasWarnings && !hasHints) {
-        parsed.grade = "B"; // Default to B since we can't verify time without AI
-      } else if (hasWarnings) {
-        parsed.grade = "C";
-      } else {
-        parsed.grade = "C";
-      }
-    } else {
-      parsed.grade = parsed.grade.toUpperCase();
+
+    // The fix check is authoritative: the AI can't grade above it
+    const grade = capGrade(parsed.grade, maxGrade);
+    if (grade !== parsed.grade) {
+      console.log(`[Analyze] Grade capped from ${parsed.grade} to ${grade} by the fix check`);
     }
-    
-    console.log(`[Analyze] Parsed ${parsed.feedback.length} feedback items, grade: ${parsed.grade}`);
-    return parsed;
+    const allFixed = bugFixes.every((fix) => fix.status === "fixed");
+    return { ...parsed, grade, isPerfect: parsed.isPerfect && allFixed && grade === "A", bugFixes };
     
   } catch (error) {
     if (error instanceof AIAnalysisError) {
@@ -455,14 +418,19 @@ IMPORTANT:
  * POST /api/github/analyze
  * 
  * Analyzes the code changes in a commit using AI and provides feedback.
- * Uses the buggr metadata to provide contextual feedback about the fix.
+ * Uses the buggr metadata to find the Bugger, whose answer key (files buggered, technical
+ * changes) gives the AI context about the fix. The answer key is never read from the branch.
  * The AI determines the grade based on time taken and code quality.
  * 
+ * Before grading, a deterministic check (see lib/fix-detection.ts) compares the final
+ * code against the Bugger's bug map. Its per-bug results are given to the AI as facts
+ * and cap the grade, so an unfixed bug can't be graded as an A.
+ * 
  * @param owner - Repository owner
  * @param repo - Repository name  
  * @param sha - Commit SHA to analyze
  * @param timeMs - Time taken to complete the challenge in milliseconds
- * @param stressMetadata - Optional buggr metadata for contextual analysis
+ * @param stressMetadata - Optional public buggr metadata (.buggr.json) identifying the challenge
  */
 export async function POST(request: NextRequest) {
   const session = await auth();
@@ -520,14 +488,53 @@ export async function POST(request: NextRequest) {
       console.log("[Analyze] Found user reasoning:", userReasoning.substring(0, 200) + "...");
     }
     
+    // The Bugger holds the answer key and bug map; the branch only has public metadata
+    const bugger = user && stressMetadata?.buggerId
+      ? await prisma.bugger.findFirst({
+          where: { id: stressMetadata.buggerId, userId: user.id },
+          include: { bugs: { orderBy: { order: "asc" } }, hints: { select: { level: true } } },
+        })
+      : null;
+    const hintLevels = bugger?.hints.map((hint) => hint.level) ?? [];
+    const challenge: ChallengeContext | null = bugger
+      ?? (stressMetadata
+        ? {
+            stressLevel: stressMetadata.stressLevel,
+            bugCount: stressMetadata.bugCount,
+            symptoms: stressMetadata.symptoms ?? [],
+            filesBuggered: [],
+            changes: [],
+          }
+        : null);
+
+    // Deterministic fix check against the Bugger's bug map (when one exists)
+    let bugFixes: BugFixResult[] | null = null;
+    if (bugger && bugger.bugs.length > 0) {
+      const bugs: BugLocation[] = bugger.bugs;
+      const files = await fetchFileVersions(
+        session.accessToken,
+        owner,
+        repo,
+        [...new Set(bugs.map((bug) => bug.file))],
+        bugger.originalCommitSha,
+        sha
+      );
+      if (files) {
+        bugFixes = detectBugFixes(bugs, files);
+        console.log("[Analyze] Fix check:", bugFixes.map((fix) => `${fix.file}:${fix.lineStart} ${fix.status}`).join(", "));
+      }
+    }
+
     // Use AI to analyze the code
     const analysisResult = await analyzeWithAI(
       patches, 
-      stressMetadata || null, 
+      challenge, 
       userReasoning,
       validatedTimeMs,
+      bugFixes,
+      hintLevels,
       user?.id,
-      stressMetadata?.buggerId,
+      bugger?.id,
       owner,
       repo
     );
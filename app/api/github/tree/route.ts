@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { fetchRepoTree } from "@/lib/github";
+
+/**
+ * A file or directory in the repository tree.
+ */
+export interface RepoTreeEntry {
+  path: string;
+  type: "file" | "dir";
+}
+
+/**
+ * Response for GET /api/github/tree.
+ */
+export interface RepoTreeResponse {
+  entries: RepoTreeEntry[];
+  /** True if the repository is too large for GitHub to list in full */
+  truncated: boolean;
+}
+
+/**
+ * GET /api/github/tree
+ * 
+ * Fetches every file and directory at a branch or commit, for picking challenge files
+ * by browsing the repository or by path globs.
+ * Requires owner, repo, and ref (branch name or commit SHA) query parameters.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+
+  if (!session?.accessToken) {
+    return NextResponse.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const owner = searchParams.get("owner");
+  const repo = searchParams.get("repo");
+  const ref = searchParams.get("ref");
+
+  if (!owner || !repo || !ref) {
+    return NextResponse.json(
+      { error: "Missing owner, repo, or ref parameter" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const tree = await fetchRepoTree(session.accessToken, owner, repo, ref);
+    const response: RepoTreeResponse = {
+      // Submodules ("commit" entries) can't be buggered
+      entries: tree.tree
+        .filter((entry) => entry.type !== "commit")
+        .map((entry) => ({ path: entry.path, type: entry.type === "tree" ? "dir" : "file" })),
+      truncated: tree.truncated,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching repository tree:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch repository tree" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireAuth } from "@/lib/auth-helpers";
 import { sendInvitationEmail } from "@/lib/email";
+import { applyCoinChange } from "@/lib/coin-ledger";
 import crypto from "crypto";
 
 /** Coins awarded for sending first invitations (one-time bonus) */
@@ -158,18 +159,22 @@ export async function POST(request: NextRequest) {
       );
 
       // Award invite bonus only on first invite batch
-      let updatedUser = user;
+      let coins = user.coins;
       if (isFirstInvite) {
-        updatedUser = await tx.user.update({
+        await tx.user.update({
           where: { id: user.id },
-          data: {
-            coins: { increment: INVITE_BONUS_COINS },
-            hasUsedInviteBonus: true,
-          },
+          data: { hasUsedInviteBonus: true },
         });
+        coins = (await applyCoinChange(tx, {
+          userId: user.id,
+          amount: INVITE_BONUS_COINS,
+          reason: "invite_bonus",
+          description: `Invited ${emailsToInvite.join(", ")}`,
+          invitationId: invitations[0].id,
+        })) ?? coins;
       }
 
-      return { invitations, updatedUser, bonusAwarded: isFirstInvite };
+      return { invitations, coins, bonusAwarded: isFirstInvite };
     });
 
     const response: InvitationResponse[] = result.invitations.map((inv) => ({
@@ -207,7 +212,7 @@ export async function POST(request: NextRequest) {
       message,
       invitations: response,
       coinsAwarded: result.bonusAwarded ? INVITE_BONUS_COINS : 0,
-      newBalance: result.updatedUser.coins,
+      newBalance: result.coins,
       bonusAwarded: result.bonusAwarded,
       emailsSent,
       emailsFailed,
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth-helpers";
+import { needsWorker, runGenerationJob } from "@/lib/generation-jobs";
+
+/** Lets a job resumed after the response run as long as the platform allows */
+export const maxDuration = 300;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/jobs/[id]
+ *
+ * Returns a generation job's status, progress events and, once finished, the result
+ * (the body POST /api/github/stress used to respond with). Polled by the client while
+ * a challenge is generated.
+ *
+ * Polling also keeps jobs alive: a job that was never started, or whose worker died,
+ * is resumed in the background with the polling user's GitHub token.
+ *
+ * @returns The job
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  const { user, session, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const { id } = await params;
+    const job = await prisma.generationJob.findFirst({ where: { id, userId: user.id } });
+
+    if (!job) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    if (await needsWorker(job)) {
+      if (session.accessToken) {
+        const accessToken = session.accessToken;
+        console.log(`[Jobs] Resuming stalled job ${job.id}`);
+        after(() => runGenerationJob(job.id, accessToken));
+      }
+    }
+
+    const current = await prisma.generationJob.findUniqueOrThrow({ where: { id } });
+    return NextResponse.json({
+      id: current.id,
+      status: current.status,
+      progress: current.progress,
+      resultStatus: current.resultStatus,
+      result: current.result,
+      buggerId: current.buggerId,
+      attempts: current.attempts,
+      createdAt: current.createdAt,
+      completedAt: current.completedAt,
+    });
+  } catch (error) {
+    console.error("Error fetching generation job:", error);
+    return NextResponse.json({ error: "Failed to fetch job" }, { status: 500 });
+  }
+}
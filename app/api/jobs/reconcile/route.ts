@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { RECONCILE_WINDOW_MS, ReconciledBranch, reconcileOrphanedBranches } from "@/lib/branch-reconciler";
+
+export const maxDuration = 300;
+
+/** Users reconciled per invocation, most recent failure first */
+const USERS_PER_RUN = 10;
+
+/**
+ * GET /api/jobs/reconcile
+ *
+ * Deletes orphaned challenge branches: buggr- branches with buggered code but no Bugger,
+ * left behind when a generation failed and couldn't delete its branch (see
+ * lib/branch-reconciler.ts). Meant to be called on a schedule by a cron job with
+ * `Authorization: Bearer $CRON_SECRET`. Runs with each user's stored GitHub token.
+ *
+ * @returns The orphaned branches found, with whether each was deleted
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const users = await prisma.generationJob.findMany({
+      where: { status: "failed", completedAt: { gte: new Date(Date.now() - RECONCILE_WINDOW_MS) } },
+      distinct: ["userId"],
+      select: { userId: true },
+      orderBy: { completedAt: "desc" },
+      take: USERS_PER_RUN,
+    });
+
+    const reconciled: ReconciledBranch[] = [];
+    for (const { userId } of users) {
+      const account = await prisma.account.findFirst({
+        where: { userId, provider: "github" },
+        select: { access_token: true },
+      });
+      if (!account?.access_token) {
+        console.warn(`[Reconcile] No GitHub token for user ${userId}, skipping`);
+        continue;
+      }
+      reconciled.push(...(await reconcileOrphanedBranches(userId, account.access_token)));
+    }
+
+    return NextResponse.json({ reconciled });
+  } catch (error) {
+    console.error("[Reconcile] Reconcile run failed:", error);
+    return NextResponse.json({ error: "Reconcile run failed" }, { status: 500 });
+  }
+}
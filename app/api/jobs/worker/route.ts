@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { findStalledGenerationJobs, needsWorker, runGenerationJob } from "@/lib/generation-jobs";
+
+export const maxDuration = 300;
+
+/** Jobs resumed per invocation (each can take minutes) */
+const JOBS_PER_RUN = 2;
+
+/**
+ * GET /api/jobs/worker
+ *
+ * Resumes generation jobs nobody is running: never started, or their worker died
+ * (e.g. a serverless timeout). Meant to be called on a schedule by a cron job with
+ * `Authorization: Bearer $CRON_SECRET`. Jobs run with their user's stored GitHub token.
+ *
+ * Jobs whose user is polling them are resumed by GET /api/jobs/[id] instead; this
+ * catches the ones left behind when the user closed the page.
+ *
+ * @returns IDs of the jobs that were run
+ */
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const ran: string[] = [];
+    for (const job of await findStalledGenerationJobs(JOBS_PER_RUN)) {
+      if (!(await needsWorker(job))) continue;
+
+      const account = await prisma.account.findFirst({
+        where: { userId: job.userId, provider: "github" },
+        select: { access_token: true },
+      });
+      if (!account?.access_token) {
+        console.warn(`[Jobs] No GitHub token for the user of job ${job.id}, leaving it for their next poll`);
+        continue;
+      }
+
+      await runGenerationJob(job.id, account.access_token);
+      ran.push(job.id);
+    }
+
+    return NextResponse.json({ ran });
+  } catch (error) {
+    console.error("[Jobs] Worker run failed:", error);
+    return NextResponse.json({ error: "Worker run failed" }, { status: 500 });
+  }
+}
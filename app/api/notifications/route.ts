@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
 import { requireAuth } from "@/lib/auth-helpers";
+import { parseFileSelectionStrategy } from "@/lib/file-selection";
 
 /**
  * GET /api/notifications
@@ -53,6 +54,7 @@ export async function GET(request: Request) {
       changes: true,
       filesBuggered: true,
       fileChanges: true,
+      fileSelectionStrategy: true,
       noteRead: true,
       changesRead: true,
       createdAt: true,
@@ -78,7 +80,9 @@ export async function GET(request: Request) {
     branchName: b.branchName,
     repoName: b.repo,
     repoOwner: b.owner,
-    message: `${b.filesBuggered.length} file(s) buggered`,
+    message: `${b.filesBuggered.length} file(s) buggered${
+      b.fileSelectionStrategy ? `, picked by the ${parseFileSelectionStrategy(b.fileSelectionStrategy).label} strategy` : ""
+    }`,
     files: b.fileChanges || b.filesBuggered.map((file) => ({
       file,
       success: true,
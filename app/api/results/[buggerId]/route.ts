@@ -7,6 +7,8 @@ import { requireAuth } from "@/lib/auth-helpers";
  * 
  * Fetches a Result by its associated Bugger ID.
  * Returns null if no result exists yet (user hasn't completed the challenge).
+ * Also returns the challenge's answer key (files buggered and technical changes), which
+ * is kept off the branch and only shown to the owner.
  * 
  * @param buggerId - The Bugger ID to fetch the result for
  * @returns The Result record with its associated Bugger, or null
@@ -60,6 +62,8 @@ export async function GET(
         stressLevel: bugger.stressLevel,
         bugCount: bugger.bugCount,
         grade: bugger.grade,
+        filesBuggered: bugger.filesBuggered,
+        changes: bugger.changes,
         createdAt: bugger.createdAt,
       },
     });
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from "next/server";
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { requireAuth } from "@/lib/auth-helpers";
+import { calculateHintPenaltyMinutes, calculateScoreRating, DifficultyLevel } from "@/lib/score-config";
+import { capGrade, Grade, isGrade } from "@/lib/fix-detection";
 import type { AnalysisFeedback } from "@/app/api/github/analyze/route";
 
 /**
@@ -30,6 +32,7 @@ interface SaveResultRequest {
  * 
  * Saves a Result when user completes and analyzes their fix.
  * Links to the Bugger challenge that was created earlier.
+ * If hints were used, the grade is capped by the time taken plus their penalty (see calculateScoreRating).
  * 
  * @returns The created Result record
  */
@@ -54,10 +57,17 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    if (!isGrade(body.grade)) {
+      return NextResponse.json(
+        { error: `Invalid grade: ${body.grade}` },
+        { status: 400 }
+      );
+    }
+
     // Verify the Bugger exists and belongs to this user
     const bugger = await prisma.bugger.findUnique({
       where: { id: body.buggerId },
-      include: { result: true },
+      include: { result: true, hints: { select: { level: true, cost: true } } },
     });
 
     if (!bugger) {
@@ -82,17 +92,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A challenge reported broken was refunded, so it can't be graded
+    if (bugger.brokenAt) {
+      return NextResponse.json(
+        { error: "This challenge was reported as broken and refunded" },
+        { status: 409 }
+      );
+    }
+
+    // Hint usage comes from the recorded hints, not the client
+    const hintsUsed = bugger.hints.length;
+    const hintCoinsSpent = bugger.hints.reduce((total, hint) => total + hint.cost, 0);
+    const hintPenaltyMinutes = calculateHintPenaltyMinutes(bugger.hints.map((hint) => hint.level));
+
+    // With hints, the time taken plus their penalty sets the best grade available
+    const grade = hintPenaltyMinutes > 0
+      ? capGrade(
+          body.grade,
+          calculateScoreRating(bugger.stressLevel as DifficultyLevel, body.timeMs, hintPenaltyMinutes).grade as Grade
+        )
+      : body.grade;
+
     // Create the Result record and update the Bugger's grade in a transaction
     const [result] = await prisma.$transaction([
       prisma.result.create({
         data: {
           buggerId: body.buggerId,
-          grade: body.grade,
+          grade,
           timeMs: body.timeMs,
           startCommitSha: body.startCommitSha,
           completeCommitSha: body.completeCommitSha,
           analysisSummary: body.analysisSummary,
           analysisIsPerfect: body.analysisIsPerfect ?? false,
+          hintsUsed,
+          hintCoinsSpent,
+          hintPenaltyMinutes,
           // Cast to Prisma.InputJsonValue for JSON field compatibility
           ...(body.analysisFeedback && { 
             analysisFeedback: body.analysisFeedback as unknown as Prisma.InputJsonValue 
@@ -102,7 +136,7 @@ export async function POST(request: NextRequest) {
       // Also update the grade on the Bugger for easier access
       prisma.bugger.update({
         where: { id: body.buggerId },
-        data: { grade: body.grade },
+        data: { grade },
       }),
     ]);
 
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireAuth } from "@/lib/auth-helpers";
+import type { CoinTransactionReason } from "@/lib/coin-ledger";
+
+/**
+ * One ledger entry returned from the API.
+ */
+export interface CoinTransactionResponse {
+  id: string;
+  amount: number;
+  reason: CoinTransactionReason;
+  description: string | null;
+  balanceAfter: number;
+  buggerId: string | null;
+  invitationId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Response from GET /api/user/coins/history.
+ */
+export interface CoinHistoryResponse {
+  transactions: CoinTransactionResponse[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/** Entries returned per page when `limit` is missing or not a number */
+const DEFAULT_LIMIT = 20;
+
+/** Most entries returned per page */
+const MAX_LIMIT = 100;
+
+/**
+ * Parses a non-negative integer query param.
+ *
+ * @param value - Raw param value
+ * @param fallback - Used when the value is missing or not a number
+ * @returns The value, at least 0
+ */
+function parseCount(value: string | null, fallback: number): number {
+  const parsed = parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) ? fallback : Math.max(0, parsed);
+}
+
+/**
+ * GET /api/user/coins/history
+ * 
+ * Fetches the current user's coin ledger, newest first: every change to their balance
+ * with its reason, what it relates to and the balance after it.
+ * Supports pagination via `limit` and `offset` query params.
+ * 
+ * @returns Ledger entries with the total count
+ */
+export async function GET(request: NextRequest) {
+  const { user, error } = await requireAuth();
+  if (error) return error;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseCount(searchParams.get("limit"), DEFAULT_LIMIT), MAX_LIMIT);
+    const offset = parseCount(searchParams.get("offset"), 0);
+
+    const [transactions, total] = await Promise.all([
+      prisma.coinTransaction.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: "desc" },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.coinTransaction.count({ where: { userId: user.id } }),
+    ]);
+
+    const response: CoinHistoryResponse = {
+      transactions: transactions.map((transaction) => ({
+        id: transaction.id,
+        amount: transaction.amount,
+        reason: transaction.reason as CoinTransactionReason,
+        description: transaction.description,
+        balanceAfter: transaction.balanceAfter,
+        buggerId: transaction.buggerId,
+        invitationId: transaction.invitationId,
+        createdAt: transaction.createdAt.toISOString(),
+      })),
+      total,
+      limit,
+      offset,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("[User] Error fetching coin history:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to fetch coin history" },
+      { status: 500 }
+    );
+  }
+}
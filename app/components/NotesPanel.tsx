@@ -11,6 +11,7 @@ import {
 } from "@/app/hooks";
 import { Button } from "@/app/components/inputs/Button";
 import { EmptyState, EmptyStateIcons } from "@/app/components/EmptyState";
+import { HintsSection } from "@/app/components/stress/HintsSection";
 import {
   BellIcon,
   CloseIcon,
@@ -20,7 +21,7 @@ import {
   CopyIcon,
 } from "@/app/components/icons";
 
-type ActiveSection = "note" | "changes";
+type ActiveSection = "note" | "changes" | "hints";
 
 interface CombinedNotification {
   id: string;
@@ -217,7 +218,7 @@ export function NotesPanel() {
   }
 
   /**
-   * Returns the currently active section (note | changes) for a notification card.
+   * Returns the currently active section (note | changes | hints) for a notification card.
    */
   function getActiveSection(id: string): ActiveSection {
     return activeSections[id] ?? "note";
@@ -463,6 +464,16 @@ export function NotesPanel() {
                         >
                           Branch Changes (Spoiler)
                         </button>
+                        <button
+                          onClick={() => setActiveSection(notification.id, "hints")}
+                          className={`rounded px-3 py-1 transition-colors ${
+                            activeSection === "hints"
+                              ? "bg-gh-accent/20 text-white"
+                              : "text-gh-text-muted hover:text-white"
+                          }`}
+                        >
+                          Hints
+                        </button>
                       </div>
                     </div>
 
@@ -514,6 +525,8 @@ export function NotesPanel() {
                           <p className="text-sm text-gh-text-muted">Bug report unavailable.</p>
                         )}
                       </div>
+                    ) : activeSection === "hints" ? (
+                      <HintsSection buggerId={notification.id} />
                     ) : (
                       <div>
                         {change ? (
@@ -527,6 +540,7 @@ export function NotesPanel() {
                                 file: string;
                                 success: boolean;
                                 changes?: string[];
+                                selectionReasons?: string[];
                               }[])
                                 .filter((file) => file.success)
                                 .map((fileResult) => (
@@ -535,6 +549,11 @@ export function NotesPanel() {
                                     className="rounded border border-gh-border bg-gh-canvas-subtle p-2 text-xs"
                                   >
                                     <div className="font-mono text-white">{fileResult.file}</div>
+                                    {fileResult.selectionReasons && fileResult.selectionReasons.length > 0 && (
+                                      <p className="mt-1 text-gh-text-subtle">
+                                        Why this file: {fileResult.selectionReasons.join(" · ")}
+                                      </p>
+                                    )}
                                     {fileResult.changes && fileResult.changes.length > 0 && (
                                       <ul className="mt-1 list-inside list-disc text-gh-text-muted">
                                         {fileResult.changes.map((changeDesc, i) => (
@@ -2,6 +2,8 @@
 
 import Link from "next/link";
 import type { GitHubRepo, GitHubCommit, GitHubCommitDetails, StressMetadata } from "@/lib/github";
+import type { BugCategoryFilter } from "@/lib/bug-categories";
+import type { FileSelectionStrategyId } from "@/lib/file-selection";
 import { formatFullDate } from "@/lib/date";
 import { Button } from "@/app/components/inputs/Button";
 import { EmptyState, EmptyStateIcons } from "@/app/components/EmptyState";
@@ -51,6 +53,14 @@ interface RightPanelProps {
   setBranchSuffix: (suffix: string) => void;
   stressContext: string;
   setStressContext: (context: string) => void;
+  stressSeed: string;
+  setStressSeed: (seed: string) => void;
+  bugCategories: BugCategoryFilter;
+  setBugCategories: (filter: BugCategoryFilter) => void;
+  stressPaths: string[];
+  setStressPaths: (paths: string[]) => void;
+  fileStrategy: FileSelectionStrategyId;
+  setFileStrategy: (strategy: FileSelectionStrategyId) => void;
   stressLevel: "low" | "medium" | "high" | "custom";
   setStressLevel: (level: "low" | "medium" | "high" | "custom") => void;
   customFilesCount: number;
@@ -59,11 +69,13 @@ interface RightPanelProps {
   setCustomBugCount: (count: number) => void;
   creatingBranch: boolean;
   loadingStep: number;
+  loadingActivity: string[];
   onCreateBranch: (e: React.FormEvent) => Promise<void>;
   onCancelCreateBranch: () => void;
 
   branchSuccess: string | null;
   setBranchSuccess: (name: string | null) => void;
+  branchNotice: string | null;
   onShowBranch: (branchName: string) => void;
 
   copiedBranchLink: boolean;
@@ -94,6 +106,14 @@ export function RightPanel({
   setBranchSuffix,
   stressContext,
   setStressContext,
+  stressSeed,
+  setStressSeed,
+  bugCategories,
+  setBugCategories,
+  stressPaths,
+  setStressPaths,
+  fileStrategy,
+  setFileStrategy,
   stressLevel,
   setStressLevel,
   customFilesCount,
@@ -102,10 +122,12 @@ export function RightPanel({
   setCustomBugCount,
   creatingBranch,
   loadingStep,
+  loadingActivity,
   onCreateBranch,
   onCancelCreateBranch,
   branchSuccess,
   setBranchSuccess,
+  branchNotice,
   onShowBranch,
   copiedBranchLink,
   onCopyBranchLink,
@@ -324,6 +346,7 @@ export function RightPanel({
           {branchSuccess && (
             <HowToPlayCard
               branchName={branchSuccess}
+              notice={branchNotice}
               onDismiss={() => setBranchSuccess(null)}
               onShowBranch={() => {
                 onShowBranch(branchSuccess);
@@ -334,15 +357,26 @@ export function RightPanel({
           </div>
 
           {/* Create Branch Form - pinned outside scroll area */}
-          {showCreateBranch && selectedBranch && (
+          {showCreateBranch && selectedRepo && selectedBranch && selectedCommit && (
             <div className="flex-shrink-0 pt-4">
               <CreateBranchForm
+                repoOwner={selectedRepo.owner.login}
+                repoName={selectedRepo.name}
+                commitSha={selectedCommit.sha}
                 baseBranch={selectedBranch}
                 timestamp={timestamp}
                 branchSuffix={branchSuffix}
                 onBranchSuffixChange={setBranchSuffix}
                 stressContext={stressContext}
                 onStressContextChange={setStressContext}
+                stressSeed={stressSeed}
+                onStressSeedChange={setStressSeed}
+                bugCategories={bugCategories}
+                onBugCategoriesChange={setBugCategories}
+                stressPaths={stressPaths}
+                onStressPathsChange={setStressPaths}
+                fileStrategy={fileStrategy}
+                onFileStrategyChange={setFileStrategy}
                 stressLevel={stressLevel}
                 onStressLevelChange={setStressLevel}
                 customFilesCount={customFilesCount}
@@ -354,6 +388,7 @@ export function RightPanel({
                 isLoading={creatingBranch}
                 loadingStep={loadingStep}
                 loadingSteps={LOADING_STEPS}
+                loadingActivity={loadingActivity}
                 onSubmit={onCreateBranch}
                 onCancel={onCancelCreateBranch}
               />
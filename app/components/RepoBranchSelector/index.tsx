@@ -1,6 +1,7 @@
 "use client";
 
 import type { GitHubRepo } from "@/lib/github";
+import { DEFAULT_FILE_SELECTION_STRATEGY } from "@/lib/file-selection";
 import { useRepoBranchSelector } from "@/app/hooks/useRepoBranchSelector";
 import { useInvitations } from "@/app/hooks";
 import { LeftPanel } from "./LeftPanel";
@@ -49,6 +50,14 @@ export function RepoBranchSelector({ repos: initialRepos, accessToken, userName,
     setBranchSuffix,
     stressContext,
     setStressContext,
+    stressSeed,
+    setStressSeed,
+    bugCategories,
+    setBugCategories,
+    stressPaths,
+    setStressPaths,
+    fileStrategy,
+    setFileStrategy,
     stressLevel,
     setStressLevel,
     customFilesCount,
@@ -57,11 +66,13 @@ export function RepoBranchSelector({ repos: initialRepos, accessToken, userName,
     setCustomBugCount,
     creatingBranch,
     loadingStep,
+    loadingActivity,
     timestamp,
     handleCreateBranch,
 
     branchSuccess,
     setBranchSuccess,
+    branchNotice,
 
     deletingBranch,
     showDeleteConfirm,
@@ -97,6 +108,10 @@ export function RepoBranchSelector({ repos: initialRepos, accessToken, userName,
     setShowCreateBranch(false);
     setBranchSuffix("");
     setStressContext("");
+    setStressSeed("");
+    setBugCategories({ include: [], exclude: [] });
+    setStressPaths([]);
+    setFileStrategy(DEFAULT_FILE_SELECTION_STRATEGY);
     setStressLevel("medium");
     setCustomFilesCount(1);
     setCustomBugCount(1);
@@ -157,6 +172,14 @@ export function RepoBranchSelector({ repos: initialRepos, accessToken, userName,
         setBranchSuffix={setBranchSuffix}
         stressContext={stressContext}
         setStressContext={setStressContext}
+        stressSeed={stressSeed}
+        setStressSeed={setStressSeed}
+        bugCategories={bugCategories}
+        setBugCategories={setBugCategories}
+        stressPaths={stressPaths}
+        setStressPaths={setStressPaths}
+        fileStrategy={fileStrategy}
+        setFileStrategy={setFileStrategy}
         stressLevel={stressLevel}
         setStressLevel={setStressLevel}
         customFilesCount={customFilesCount}
@@ -165,10 +188,12 @@ export function RepoBranchSelector({ repos: initialRepos, accessToken, userName,
         setCustomBugCount={setCustomBugCount}
         creatingBranch={creatingBranch}
         loadingStep={loadingStep}
+        loadingActivity={loadingActivity}
         onCreateBranch={handleCreateBranch}
         onCancelCreateBranch={handleCancelCreateBranch}
         branchSuccess={branchSuccess}
         setBranchSuccess={setBranchSuccess}
+        branchNotice={branchNotice}
         onShowBranch={handleBranchSelect}
         copiedBranchLink={copiedBranchLink}
         onCopyBranchLink={handleCopyBranchLink}
@@ -0,0 +1,100 @@
+"use client";
+
+import { BUG_CATEGORIES, formatCategoryLabel, type BugCategoryFilter } from "@/lib/bug-categories";
+
+interface BugCategorySelectorProps {
+  /**
+   * The current include/exclude lists.
+   */
+  value: BugCategoryFilter;
+  /**
+   * Callback when the lists change.
+   */
+  onChange: (filter: BugCategoryFilter) => void;
+  /**
+   * Extra categories to offer (e.g. from the user's custom bug types).
+   */
+  extraCategories?: string[];
+  /**
+   * Whether the selector is disabled.
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Category toggles for steering which kinds of bugs a challenge contains.
+ * Clicking a category cycles it through: any -> include only -> exclude -> any.
+ *
+ * @param value - Current include/exclude lists
+ * @param onChange - Callback when the lists change
+ * @param extraCategories - Extra categories to offer alongside the built-in ones
+ * @param disabled - Whether the selector is disabled
+ */
+export function BugCategorySelector({ value, onChange, extraCategories = [], disabled }: BugCategorySelectorProps) {
+  const categories = [...new Set([...BUG_CATEGORIES, ...extraCategories])].sort();
+
+  function cycleCategory(category: string) {
+    const include = value.include.filter((c) => c !== category);
+    const exclude = value.exclude.filter((c) => c !== category);
+
+    if (value.include.includes(category)) {
+      onChange({ include, exclude: [...exclude, category] });
+    } else if (value.exclude.includes(category)) {
+      onChange({ include, exclude });
+    } else {
+      onChange({ include: [...include, category], exclude });
+    }
+  }
+
+  const hasSelection = value.include.length > 0 || value.exclude.length > 0;
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <div className="flex items-center justify-between">
+        <label className="text-xs font-medium text-gh-text-muted">
+          Bug categories <span className="text-gh-text-subtle">(optional)</span>
+        </label>
+        {hasSelection && (
+          <button
+            type="button"
+            onClick={() => onChange({ include: [], exclude: [] })}
+            className="text-xs text-gh-text-muted hover:text-white"
+            disabled={disabled}
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {categories.map((category) => {
+          const included = value.include.includes(category);
+          const excluded = value.exclude.includes(category);
+          return (
+            <button
+              key={category}
+              type="button"
+              onClick={() => cycleCategory(category)}
+              disabled={disabled}
+              className={`rounded-full border px-2 py-0.5 text-xs transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                included
+                  ? "border-gh-success bg-gh-success/20 text-white"
+                  : excluded
+                    ? "border-gh-danger bg-gh-danger/20 text-gh-text-muted line-through"
+                    : "border-gh-border text-gh-text-muted hover:border-gh-text-muted hover:text-white"
+              }`}
+              title={included ? "Included - click to exclude" : excluded ? "Excluded - click to reset" : "Click to include"}
+            >
+              {formatCategoryLabel(category)}
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gh-text-subtle">
+        {value.include.length > 0
+          ? `Only ${value.include.map(formatCategoryLabel).join(", ")} bugs`
+          : "Any category"}
+        {value.exclude.length > 0 && `, never ${value.exclude.map(formatCategoryLabel).join(", ")}`}
+      </p>
+    </div>
+  );
+}
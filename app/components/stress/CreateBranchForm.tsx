@@ -4,12 +4,32 @@ import { Button } from "@/app/components/inputs/Button";
 import { Card } from "@/app/components/Card";
 import { Container } from "@/app/components/Container";
 import { StressLevelSelector } from "./StressLevelSelector";
+import { CustomBugTypesEditor } from "./CustomBugTypesEditor";
+import { BugCategorySelector } from "./BugCategorySelector";
+import { PathPicker } from "./PathPicker";
+import { useCustomBugTypes, useRepoTree } from "@/app/hooks";
+import type { BugCategoryFilter } from "@/lib/bug-categories";
+import { resolvePathPatterns, MAX_CANDIDATE_FILES } from "@/lib/path-selection";
+import { FILE_SELECTION_STRATEGIES, type FileSelectionStrategyId } from "@/lib/file-selection";
+import { Select } from "@/app/components/inputs/Select";
 import { LoadingProgress, type LoadingStep } from "./LoadingProgress";
 import { CloseIcon, LightningIcon } from "@/app/components/icons";
 
 type StressLevel = "low" | "medium" | "high" | "custom";
 
 interface CreateBranchFormProps {
+  /**
+   * Owner of the repository being buggered.
+   */
+  repoOwner: string;
+  /**
+   * Name of the repository being buggered.
+   */
+  repoName: string;
+  /**
+   * Commit the branch is created from.
+   */
+  commitSha: string;
   /**
    * The base branch name being buggered.
    */
@@ -34,6 +54,38 @@ interface CreateBranchFormProps {
    * Callback when stress context changes.
    */
   onStressContextChange: (value: string) => void;
+  /**
+   * Current seed value. The same seed and commit reproduce the same challenge.
+   */
+  stressSeed: string;
+  /**
+   * Callback when seed changes.
+   */
+  onStressSeedChange: (value: string) => void;
+  /**
+   * Bug categories to include/exclude.
+   */
+  bugCategories: BugCategoryFilter;
+  /**
+   * Callback when the bug category lists change.
+   */
+  onBugCategoriesChange: (filter: BugCategoryFilter) => void;
+  /**
+   * Paths and globs to pick files from (empty = the commit's changed files).
+   */
+  stressPaths: string[];
+  /**
+   * Callback when the paths change.
+   */
+  onStressPathsChange: (paths: string[]) => void;
+  /**
+   * How the files are picked from the candidates.
+   */
+  fileStrategy: FileSelectionStrategyId;
+  /**
+   * Callback when the file selection strategy changes.
+   */
+  onFileStrategyChange: (strategy: FileSelectionStrategyId) => void;
   /**
    * Current stress level.
    */
@@ -59,7 +111,7 @@ interface CreateBranchFormProps {
    */
   onCustomBugCountChange?: (count: number) => void;
   /**
-   * Maximum number of files available to stress.
+   * Maximum number of files available to stress from the commit.
    */
   maxFilesAvailable?: number;
   /**
@@ -78,6 +130,10 @@ interface CreateBranchFormProps {
    * Array of loading steps to display.
    */
   loadingSteps: LoadingStep[];
+  /**
+   * Progress messages streamed while buggering, oldest first.
+   */
+  loadingActivity?: string[];
   /**
    * Callback when form is submitted.
    */
@@ -88,6 +144,11 @@ interface CreateBranchFormProps {
   onCancel: () => void;
 }
 
+const STRATEGY_OPTIONS = Object.values(FILE_SELECTION_STRATEGIES).map((strategy) => ({
+  value: strategy.id,
+  label: strategy.label,
+}));
+
 /**
  * Returns the full branch name with prefix, timestamp, and optional suffix.
  */
@@ -102,12 +163,23 @@ function getFullBranchName(baseBranch: string, timestamp: string, suffix: string
  * @param props - Form configuration and callbacks
  */
 export function CreateBranchForm({
+  repoOwner,
+  repoName,
+  commitSha,
   baseBranch,
   timestamp,
   branchSuffix,
   onBranchSuffixChange,
   stressContext,
   onStressContextChange,
+  stressSeed,
+  onStressSeedChange,
+  bugCategories,
+  onBugCategoriesChange,
+  stressPaths,
+  onStressPathsChange,
+  fileStrategy,
+  onFileStrategyChange,
   stressLevel,
   onStressLevelChange,
   customFilesCount = 1,
@@ -119,10 +191,23 @@ export function CreateBranchForm({
   isLoading,
   loadingStep,
   loadingSteps,
+  loadingActivity,
   onSubmit,
   onCancel,
 }: CreateBranchFormProps) {
   const fullBranchName = getFullBranchName(baseBranch, timestamp, branchSuffix);
+  const { data: customBugTypes = [] } = useCustomBugTypes();
+  const customCategories = customBugTypes.filter((bugType) => bugType.enabled).map((bugType) => bugType.category);
+
+  // With paths selected, the files come from the repository tree instead of the commit
+  const { data: tree } = useRepoTree(repoOwner, repoName, commitSha, stressPaths.length > 0);
+  const filesAvailable =
+    stressPaths.length > 0
+      ? Math.min(
+          MAX_CANDIDATE_FILES,
+          resolvePathPatterns(tree?.entries.filter((entry) => entry.type === "file").map((entry) => entry.path) ?? [], stressPaths).length
+        )
+      : maxFilesAvailable;
 
   return (
     <Card as="form" onSubmit={onSubmit} className="flex max-h-[50vh] flex-col">
@@ -157,6 +242,31 @@ export function CreateBranchForm({
           Full branch name: <code className="text-gh-accent">{fullBranchName}</code>
         </p>
 
+        {/* Optional files from anywhere in the repository */}
+        <PathPicker
+          owner={repoOwner}
+          repo={repoName}
+          commitSha={commitSha}
+          value={stressPaths}
+          onChange={onStressPathsChange}
+          disabled={isLoading}
+        />
+
+        {/* How the files are picked from the candidates */}
+        <div className="flex flex-col gap-1.5">
+          <label className="text-xs font-medium text-gh-text-muted">File selection</label>
+          <Select
+            value={fileStrategy}
+            onChange={(e) => onFileStrategyChange(e.target.value as FileSelectionStrategyId)}
+            options={STRATEGY_OPTIONS}
+            disabled={isLoading}
+          />
+          <p className="text-xs text-gh-text-subtle">
+            {FILE_SELECTION_STRATEGIES[fileStrategy].description}. Generated, minified, lockfile and test files are
+            never picked; the branch changes list says why each file was chosen.
+          </p>
+        </div>
+
         {/* Stress level selector */}
         <StressLevelSelector
           value={stressLevel}
@@ -175,17 +285,17 @@ export function CreateBranchForm({
               <input
                 type="number"
                 min="1"
-                max={maxFilesAvailable}
+                max={filesAvailable}
                 value={customFilesCount}
                 onChange={(e) => {
-                  const value = Math.max(1, Math.min(maxFilesAvailable, parseInt(e.target.value) || 1));
+                  const value = Math.max(1, Math.min(filesAvailable, parseInt(e.target.value) || 1));
                   onCustomFilesCountChange?.(value);
                 }}
                 className="w-full rounded-lg border border-gh-border bg-gh-canvas px-3 py-2 text-sm text-white focus:border-gh-accent focus:outline-none focus:ring-1 focus:ring-gh-accent"
                 disabled={isLoading}
               />
               <p className="text-xs text-gh-text-subtle">
-                Max {maxFilesAvailable} file{maxFilesAvailable !== 1 ? "s" : ""} available
+                Max {filesAvailable} file{filesAvailable !== 1 ? "s" : ""} available
               </p>
             </div>
             <div className="flex flex-col gap-1.5">
@@ -231,12 +341,42 @@ export function CreateBranchForm({
             </span>
           </div>
         </div>
+
+        {/* Category include/exclude toggles */}
+        <BugCategorySelector
+          value={bugCategories}
+          onChange={onBugCategoriesChange}
+          extraCategories={customCategories}
+          disabled={isLoading}
+        />
+
+        {/* Custom bug types mixed into selection */}
+        <CustomBugTypesEditor disabled={isLoading} />
+
+        {/* Optional seed for reproducible challenges */}
+        <div className="flex flex-col gap-1.5">
+          <label className="text-xs font-medium text-gh-text-muted">
+            Seed <span className="text-gh-text-subtle">(optional)</span>
+          </label>
+          <input
+            type="text"
+            value={stressSeed}
+            onChange={(e) => onStressSeedChange(e.target.value.slice(0, 64))}
+            placeholder="e.g., interview-2026 (leave blank for a random seed)"
+            className="w-full rounded-lg border border-gh-border bg-gh-canvas px-3 py-2 font-mono text-sm text-white placeholder-gh-text-subtle focus:border-gh-accent focus:outline-none focus:ring-1 focus:ring-gh-accent"
+            maxLength={64}
+            disabled={isLoading}
+          />
+          <p className="text-xs text-gh-text-subtle">
+            Reuse a seed on the same commit to give everyone an equivalent challenge
+          </p>
+        </div>
       </div>
 
       {/* Submit button - pinned at bottom, always visible */}
       <div className="flex-shrink-0 pt-3">
         {isLoading ? (
-          <LoadingProgress steps={loadingSteps} currentStep={loadingStep} />
+          <LoadingProgress steps={loadingSteps} currentStep={loadingStep} activity={loadingActivity} />
         ) : (
           <Button type="submit" variant="danger" size="lg" fullWidth>
             <LightningIcon className="h-4 w-4" />
@@ -0,0 +1,281 @@
+"use client";
+
+import { useState } from "react";
+import {
+  useCustomBugTypes,
+  useCreateCustomBugType,
+  useUpdateCustomBugType,
+  useDeleteCustomBugType,
+  type CustomBugType,
+  type CustomBugTypeInput,
+} from "@/app/hooks";
+import { LANGUAGE_NAMES } from "@/lib/languages";
+import { Button } from "@/app/components/inputs/Button";
+import { Select } from "@/app/components/inputs/Select";
+import { TextButton } from "@/app/components/inputs/TextButton";
+import { Container } from "@/app/components/Container";
+import { ChevronDownIcon, TrashIcon } from "@/app/components/icons";
+
+interface CustomBugTypesEditorProps {
+  /**
+   * Whether editing is disabled (e.g. while a branch is being created).
+   */
+  disabled?: boolean;
+}
+
+/** Editable form state - examples are edited as one per line */
+interface DraftBugType {
+  name: string;
+  category: string;
+  description: string;
+  examples: string;
+  sampleSymptom: string;
+  framework: string;
+  language: string;
+  orgLogin: string;
+}
+
+const EMPTY_DRAFT: DraftBugType = {
+  name: "",
+  category: "",
+  description: "",
+  examples: "",
+  sampleSymptom: "",
+  framework: "",
+  language: "",
+  orgLogin: "",
+};
+
+const LANGUAGE_OPTIONS = [
+  { value: "", label: "Any language" },
+  ...Object.entries(LANGUAGE_NAMES).map(([value, label]) => ({ value, label })),
+];
+
+const INPUT_CLASS =
+  "w-full rounded-lg border border-gh-border bg-gh-canvas px-3 py-2 text-sm text-white placeholder-gh-text-subtle focus:border-gh-accent focus:outline-none focus:ring-1 focus:ring-gh-accent";
+
+/**
+ * Converts a stored custom bug type into form state.
+ */
+function toDraft(bugType: CustomBugType): DraftBugType {
+  return {
+    name: bugType.name,
+    category: bugType.category,
+    description: bugType.description,
+    examples: bugType.examples.join("\n"),
+    sampleSymptom: bugType.sampleSymptom,
+    framework: bugType.framework ?? "",
+    language: bugType.language ?? "",
+    orgLogin: bugType.orgLogin ?? "",
+  };
+}
+
+/**
+ * Converts form state into the API input.
+ */
+function toInput(draft: DraftBugType): CustomBugTypeInput {
+  return {
+    name: draft.name,
+    category: draft.category,
+    description: draft.description,
+    examples: draft.examples.split("\n").map((example) => example.trim()).filter(Boolean),
+    sampleSymptom: draft.sampleSymptom,
+    framework: draft.framework || null,
+    language: draft.language || null,
+    orgLogin: draft.orgLogin || null,
+  };
+}
+
+/**
+ * Editor for custom bug types in the stress configuration.
+ * Custom types are mixed into bug selection alongside the built-in catalog,
+ * so teams can drill the mistakes that keep showing up in their own code reviews.
+ *
+ * @param disabled - Whether editing is disabled
+ */
+export function CustomBugTypesEditor({ disabled }: CustomBugTypesEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [draft, setDraft] = useState<DraftBugType>(EMPTY_DRAFT);
+
+  const { data: bugTypes = [], isLoading } = useCustomBugTypes();
+  const createBugType = useCreateCustomBugType();
+  const updateBugType = useUpdateCustomBugType();
+  const deleteBugType = useDeleteCustomBugType();
+
+  const enabledCount = bugTypes.filter((bugType) => bugType.enabled).length;
+  const isSaving = createBugType.isPending || updateBugType.isPending;
+  const saveError = createBugType.error || updateBugType.error;
+
+  function startEditing(bugType: CustomBugType | null) {
+    createBugType.reset();
+    updateBugType.reset();
+    setEditingId(bugType?.id ?? "new");
+    setDraft(bugType ? toDraft(bugType) : EMPTY_DRAFT);
+  }
+
+  function handleSave() {
+    const input = toInput(draft);
+    const onSuccess = () => setEditingId(null);
+    if (editingId === "new") {
+      createBugType.mutate(input, { onSuccess });
+    } else if (editingId) {
+      updateBugType.mutate({ id: editingId, ...input }, { onSuccess });
+    }
+  }
+
+  function updateDraft(field: keyof DraftBugType, value: string) {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  }
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs font-medium text-gh-text-muted hover:text-white"
+      >
+        <ChevronDownIcon className={`h-3 w-3 transition-transform ${isOpen ? "" : "-rotate-90"}`} />
+        Custom bug types{" "}
+        <span className="text-gh-text-subtle">
+          ({enabledCount} enabled)
+        </span>
+      </button>
+
+      {isOpen && (
+        <Container className="flex flex-col gap-2 p-3">
+          <p className="text-xs text-gh-text-subtle">
+            Enabled custom types fill up to half of the bugs in files they apply to.
+          </p>
+
+          {isLoading && <p className="text-xs text-gh-text-muted">Loading...</p>}
+
+          {bugTypes.map((bugType) => (
+            <div
+              key={bugType.id}
+              className="flex items-center justify-between gap-2 rounded border border-gh-border bg-gh-canvas p-2 text-xs"
+            >
+              <label className="flex min-w-0 items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={bugType.enabled}
+                  onChange={(e) => updateBugType.mutate({ id: bugType.id, enabled: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span className="truncate text-white">{bugType.name}</span>
+                <span className="flex-shrink-0 text-gh-text-subtle">
+                  {bugType.category}
+                  {bugType.orgLogin && ` · shared with ${bugType.orgLogin}`}
+                </span>
+              </label>
+              <div className="flex flex-shrink-0 items-center gap-1">
+                <TextButton type="button" onClick={() => startEditing(bugType)} disabled={disabled}>
+                  Edit
+                </TextButton>
+                <TextButton
+                  type="button"
+                  variant="danger"
+                  onClick={() => deleteBugType.mutate(bugType.id)}
+                  disabled={disabled || deleteBugType.isPending}
+                  title="Delete"
+                >
+                  <TrashIcon className="h-3.5 w-3.5" />
+                </TextButton>
+              </div>
+            </div>
+          ))}
+
+          {editingId ? (
+            <div className="flex flex-col gap-2">
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => updateDraft("name", e.target.value)}
+                placeholder="Name, e.g. Money arithmetic on floats"
+                className={INPUT_CLASS}
+                maxLength={100}
+                disabled={disabled}
+              />
+              <input
+                type="text"
+                value={draft.category}
+                onChange={(e) => updateDraft("category", e.target.value)}
+                placeholder="Category, e.g. MONEY_HANDLING"
+                className={INPUT_CLASS}
+                maxLength={50}
+                disabled={disabled}
+              />
+              <textarea
+                value={draft.description}
+                onChange={(e) => updateDraft("description", e.target.value)}
+                placeholder="How to introduce the bug, e.g. Replace Money.add() with plain + on the amount"
+                className={`${INPUT_CLASS} resize-none`}
+                rows={2}
+                maxLength={1000}
+                disabled={disabled}
+              />
+              <textarea
+                value={draft.examples}
+                onChange={(e) => updateDraft("examples", e.target.value)}
+                placeholder="Code examples, one per line"
+                className={`${INPUT_CLASS} resize-none font-mono`}
+                rows={3}
+                disabled={disabled}
+              />
+              <input
+                type="text"
+                value={draft.sampleSymptom}
+                onChange={(e) => updateDraft("sampleSymptom", e.target.value)}
+                placeholder="Sample symptom, e.g. Checkout total: Shows $10.000000002"
+                className={INPUT_CLASS}
+                maxLength={500}
+                disabled={disabled}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={draft.language}
+                  onChange={(e) => updateDraft("language", e.target.value)}
+                  options={LANGUAGE_OPTIONS}
+                  disabled={disabled}
+                />
+                <input
+                  type="text"
+                  value={draft.framework}
+                  onChange={(e) => updateDraft("framework", e.target.value)}
+                  placeholder="Framework (optional)"
+                  className={INPUT_CLASS}
+                  maxLength={50}
+                  disabled={disabled}
+                />
+              </div>
+              <input
+                type="text"
+                value={draft.orgLogin}
+                onChange={(e) => updateDraft("orgLogin", e.target.value)}
+                placeholder="Share with GitHub org (optional)"
+                className={INPUT_CLASS}
+                maxLength={100}
+                disabled={disabled}
+              />
+
+              {saveError && <p className="text-xs text-gh-danger-fg">{saveError.message}</p>}
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                  Cancel
+                </Button>
+                <Button type="button" size="sm" onClick={handleSave} disabled={disabled || isSaving}>
+                  {isSaving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <TextButton type="button" onClick={() => startEditing(null)} disabled={disabled}>
+              + Add custom bug type
+            </TextButton>
+          )}
+        </Container>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { useHints, useReportBrokenChallenge, useRevealHint, useUser } from "@/app/hooks";
+import type { HintsResponse } from "@/app/api/buggers/[id]/hints/route";
+import { HINT_LEVELS } from "@/lib/hints";
+import { CoinIcon, LightbulbIcon } from "@/app/components/icons";
+
+interface HintsSectionProps {
+  /** Bugger ID of the challenge */
+  buggerId: string;
+}
+
+interface ReportBrokenProps {
+  buggerId: string;
+  hints: HintsResponse;
+}
+
+/**
+ * Lets the solver report a challenge whose symptoms don't reproduce. Asks for
+ * confirmation, then refunds the coins spent on the challenge.
+ */
+function ReportBroken({ buggerId, hints }: ReportBrokenProps) {
+  const [confirming, setConfirming] = useState(false);
+  const reportBroken = useReportBrokenChallenge();
+
+  if (hints.broken) {
+    return (
+      <p className="text-xs text-gh-text-muted">
+        Reported as broken.{" "}
+        {reportBroken.data
+          ? `${reportBroken.data.refunded} ${reportBroken.data.refunded === 1 ? "coin was" : "coins were"} refunded.`
+          : "The coins you spent on it were refunded."}
+      </p>
+    );
+  }
+  if (hints.completed) return null;
+
+  if (!confirming) {
+    return (
+      <button
+        onClick={() => setConfirming(true)}
+        className="text-xs text-gh-text-muted underline-offset-2 transition-colors hover:text-white hover:underline"
+      >
+        Symptoms don&apos;t reproduce? Report this challenge
+      </button>
+    );
+  }
+
+  return (
+    <div className="rounded border border-gh-border bg-gh-canvas-subtle p-2 text-xs">
+      <p className="text-white">Report this challenge as broken?</p>
+      <p className="mt-1 text-gh-text-muted">
+        You get back every coin spent on it, including hints, and it can&apos;t be scored.
+      </p>
+      <div className="mt-2 flex gap-2">
+        <button
+          onClick={() => reportBroken.mutate({ buggerId })}
+          disabled={reportBroken.isPending}
+          className="rounded-md px-2 py-1 text-gh-danger-fg transition-colors hover:bg-gh-border disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {reportBroken.isPending ? "Reporting..." : "Report and refund"}
+        </button>
+        <button
+          onClick={() => setConfirming(false)}
+          disabled={reportBroken.isPending}
+          className="rounded-md px-2 py-1 text-gh-text-muted transition-colors hover:bg-gh-border disabled:opacity-60"
+        >
+          Cancel
+        </button>
+      </div>
+      {reportBroken.error && (
+        <p className="mt-2 text-gh-danger-fg">{reportBroken.error.message}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Progressive hints for a challenge. Each bug is listed by its symptom, and hints
+ * can be bought one level at a time: file, function, bug category, exact line.
+ * Every hint costs coins and adds a time penalty to the grade.
+ * A challenge whose symptoms don't reproduce can be reported as broken for a refund.
+ */
+export function HintsSection({ buggerId }: HintsSectionProps) {
+  const { data, isLoading, error } = useHints(buggerId);
+  const { user } = useUser();
+  const revealHint = useRevealHint();
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <div className="h-5 w-5 animate-spin rounded-full border-2 border-gh-accent/30 border-t-gh-accent" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-sm text-gh-text-muted">Hints unavailable.</p>;
+  }
+
+  if (data.bugs.length === 0) {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm text-gh-text-muted">No hints available for this challenge.</p>
+        <ReportBroken buggerId={buggerId} hints={data} />
+      </div>
+    );
+  }
+
+  const coins = user?.coins ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gh-text-muted">
+        Hints cost coins and add time to your grade.
+        {data.hintsUsed > 0 && (
+          <>
+            {" "}
+            Used {data.hintsUsed} ({data.coinsSpent} coins, +{data.penaltyMinutes}m).
+          </>
+        )}
+      </p>
+
+      {data.bugs.map((bug, index) => {
+        const nextLabel = HINT_LEVELS.find(({ level }) => level === bug.nextLevel)?.label;
+        const isRevealing = revealHint.isPending && revealHint.variables?.bugId === bug.id;
+        const canAfford = bug.nextCost !== null && coins >= bug.nextCost;
+
+        return (
+          <div key={bug.id} className="rounded border border-gh-border bg-gh-canvas-subtle p-2 text-xs">
+            <div className="text-white">
+              Bug {index + 1}
+              {bug.symptom && <span className="text-gh-text-muted">: {bug.symptom}</span>}
+            </div>
+
+            {bug.hints.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {bug.hints.map((hint) => (
+                  <li key={hint.level} className="flex items-start gap-1.5 text-gh-text">
+                    <LightbulbIcon className="mt-0.5 h-3 w-3 flex-shrink-0 text-gh-warning-fg" />
+                    {hint.content}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {!data.completed && !data.broken && bug.nextLevel !== null && bug.nextCost !== null && (
+              <button
+                onClick={() => revealHint.mutate({ buggerId, bugId: bug.id })}
+                disabled={isRevealing || !canAfford}
+                className="mt-2 flex items-center gap-1.5 rounded-md px-2 py-1 text-gh-accent transition-colors hover:bg-gh-border disabled:cursor-not-allowed disabled:opacity-60"
+                title={canAfford ? undefined : "Not enough coins"}
+              >
+                {isRevealing ? (
+                  <span className="block h-3 w-3 animate-spin rounded-full border-2 border-gh-accent/30 border-t-gh-accent" />
+                ) : (
+                  <CoinIcon className="h-3 w-3" />
+                )}
+                {nextLabel} ({bug.nextCost} {bug.nextCost === 1 ? "coin" : "coins"})
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {revealHint.error && (
+        <p className="text-xs text-gh-danger-fg">{revealHint.error.message}</p>
+      )}
+
+      <ReportBroken buggerId={buggerId} hints={data} />
+    </div>
+  );
+}
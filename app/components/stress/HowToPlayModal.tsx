@@ -154,6 +154,8 @@ export function HowToPlayModal({
 
 interface HowToPlayCardProps {
   branchName: string;
+  /** Caveat shown under the branch name (e.g. a partial charge) */
+  notice?: string | null;
   onDismiss: () => void;
   onShowBranch: () => void;
 }
@@ -169,7 +171,7 @@ function CompactStep({ number, text }: { number: number; text: string }) {
   );
 }
 
-export function HowToPlayCard({ branchName, onDismiss, onShowBranch }: HowToPlayCardProps) {
+export function HowToPlayCard({ branchName, notice, onDismiss, onShowBranch }: HowToPlayCardProps) {
   return (
     <Card variant="success">
       {/* Header */}
@@ -190,6 +192,10 @@ export function HowToPlayCard({ branchName, onDismiss, onShowBranch }: HowToPlay
         </code>
       </p>
 
+      {notice && (
+        <p className="mb-3 text-xs text-gh-warning-fg">{notice}</p>
+      )}
+
       {/* Compact Steps */}
       <div className="mb-3 space-y-2 rounded-lg bg-gh-canvas-subtle p-3">
         <p className="text-xs font-medium text-white mb-2">How to play:</p>
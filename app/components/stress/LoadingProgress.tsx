@@ -18,10 +18,18 @@ interface LoadingProgressProps {
   title?: string;
 
   subtitle?: string;
+
+  /** Live progress messages, oldest first (the latest few are shown) */
+  activity?: string[];
 }
 
-export function LoadingProgress({ steps, currentStep, title, subtitle }: LoadingProgressProps) {
+/** Number of recent activity messages shown */
+const MAX_ACTIVITY_LINES = 4;
+
+export function LoadingProgress({ steps, currentStep, title, subtitle, activity = [] }: LoadingProgressProps) {
   const currentLabel = steps[currentStep - 1]?.label || "Preparing...";
+  const latestActivity = activity[activity.length - 1];
+  const recentActivity = activity.slice(-MAX_ACTIVITY_LINES);
 
   return (
     <Card variant="inset">
@@ -30,7 +38,7 @@ export function LoadingProgress({ steps, currentStep, title, subtitle }: Loading
         <div className="h-8 w-8 animate-spin rounded-full border-2 border-gh-border border-t-gh-accent" />
         <div>
           <p className="text-sm font-medium text-white">{title || currentLabel}</p>
-          <p className="text-xs text-gh-text-muted">{subtitle || "This may take a moment"}</p>
+          <p className="text-xs text-gh-text-muted">{subtitle || latestActivity || "This may take a moment"}</p>
         </div>
       </div>
 
@@ -83,6 +91,20 @@ export function LoadingProgress({ steps, currentStep, title, subtitle }: Loading
         })}
       </div>
 
+      {/* Live activity */}
+      {recentActivity.length > 0 && (
+        <div className="mt-3 space-y-0.5 border-t border-gh-border pt-3 font-mono text-xs">
+          {recentActivity.map((message, index) => (
+            <p
+              key={activity.length - recentActivity.length + index}
+              className={`truncate ${index === recentActivity.length - 1 ? "text-gh-text-muted" : "text-gh-text-subtle"}`}
+            >
+              {message}
+            </p>
+          ))}
+        </div>
+      )}
+
       {/* Progress bar */}
       <div className="mt-4 h-1.5 overflow-hidden rounded-full bg-gh-border">
         <div
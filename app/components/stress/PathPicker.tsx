@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { useRepoTree } from "@/app/hooks";
+import { normalizePathPattern, resolvePathPatterns, MAX_CANDIDATE_FILES } from "@/lib/path-selection";
+import { Container } from "@/app/components/Container";
+import { TextButton } from "@/app/components/inputs/TextButton";
+import { ChevronDownIcon, CloseIcon, DocumentIcon, FolderIcon } from "@/app/components/icons";
+
+/** Maximum number of tree entries listed while browsing */
+const MAX_BROWSE_RESULTS = 30;
+
+interface PathPickerProps {
+  /**
+   * Repository owner.
+   */
+  owner: string;
+  /**
+   * Repository name.
+   */
+  repo: string;
+  /**
+   * Commit the challenge branch is created from (the tree that's browsed).
+   */
+  commitSha: string;
+  /**
+   * Selected paths and globs.
+   */
+  value: string[];
+  /**
+   * Callback when the selection changes.
+   */
+  onChange: (paths: string[]) => void;
+  /**
+   * Whether the picker is disabled.
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Picks challenge files from anywhere in the repository instead of the selected commit's
+ * changed files: browse the tree, or type paths and globs like `src/features/billing/**`.
+ * The server resolves the same patterns against the new branch.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param commitSha - Commit whose tree is browsed
+ * @param value - Selected paths and globs
+ * @param onChange - Callback when the selection changes
+ * @param disabled - Whether the picker is disabled
+ */
+export function PathPicker({ owner, repo, commitSha, value, onChange, disabled }: PathPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const { data: tree, isLoading, error } = useRepoTree(owner, repo, commitSha, isOpen || value.length > 0);
+  const filePaths = tree?.entries.filter((entry) => entry.type === "file").map((entry) => entry.path) ?? [];
+  const matchedCount = resolvePathPatterns(filePaths, value).length;
+
+  const normalizedQuery = normalizePathPattern(query).toLowerCase();
+  const browseResults = normalizedQuery
+    ? (tree?.entries ?? [])
+        .filter((entry) => entry.path.toLowerCase().includes(normalizedQuery))
+        .slice(0, MAX_BROWSE_RESULTS)
+    : [];
+
+  function addPattern(pattern: string) {
+    const normalized = normalizePathPattern(pattern);
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setQuery("");
+  }
+
+  return (
+    <div className="flex flex-col gap-1.5">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-xs font-medium text-gh-text-muted hover:text-white"
+      >
+        <ChevronDownIcon className={`h-3 w-3 transition-transform ${isOpen ? "" : "-rotate-90"}`} />
+        Files from paths{" "}
+        <span className="text-gh-text-subtle">
+          {value.length > 0 ? `(${value.length} selected)` : "(optional)"}
+        </span>
+      </button>
+
+      {isOpen && (
+        <Container className="flex flex-col gap-2 p-3">
+          <p className="text-xs text-gh-text-subtle">
+            Instead of this commit&apos;s changed files, bugger files anywhere in the repository. Pick a file or
+            folder, or type a glob and press Enter.
+          </p>
+
+          {value.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {value.map((pattern) => (
+                <span
+                  key={pattern}
+                  className="flex items-center gap-1 rounded-full border border-gh-border bg-gh-canvas px-2 py-0.5 font-mono text-xs text-white"
+                >
+                  {pattern}
+                  <button
+                    type="button"
+                    onClick={() => onChange(value.filter((p) => p !== pattern))}
+                    disabled={disabled}
+                    className="text-gh-text-muted hover:text-white"
+                    title="Remove"
+                  >
+                    <CloseIcon className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addPattern(query);
+              }
+            }}
+            placeholder="Search files, or a glob like src/features/billing/**"
+            className="w-full rounded-lg border border-gh-border bg-gh-canvas px-3 py-2 font-mono text-sm text-white placeholder-gh-text-subtle focus:border-gh-accent focus:outline-none focus:ring-1 focus:ring-gh-accent"
+            disabled={disabled}
+          />
+
+          {isLoading && <p className="text-xs text-gh-text-muted">Loading repository tree...</p>}
+          {error && <p className="text-xs text-gh-danger-fg">{error.message}</p>}
+
+          {browseResults.length > 0 && (
+            <div className="flex max-h-40 flex-col overflow-y-auto rounded border border-gh-border bg-gh-canvas">
+              {browseResults.map((entry) => (
+                <button
+                  key={entry.path}
+                  type="button"
+                  onClick={() => addPattern(entry.type === "dir" ? `${entry.path}/**` : entry.path)}
+                  disabled={disabled}
+                  className="flex items-center gap-2 px-2 py-1 text-left font-mono text-xs text-gh-text-muted hover:bg-gh-canvas-subtle hover:text-white"
+                >
+                  {entry.type === "dir" ? (
+                    <FolderIcon className="h-3.5 w-3.5 flex-shrink-0" />
+                  ) : (
+                    <DocumentIcon className="h-3.5 w-3.5 flex-shrink-0" />
+                  )}
+                  <span className="truncate">{entry.path}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {tree && value.length > 0 && (
+            <p className="text-xs text-gh-text-subtle">
+              {matchedCount} supported file{matchedCount === 1 ? "" : "s"} match
+              {matchedCount > MAX_CANDIDATE_FILES && `, ${MAX_CANDIDATE_FILES} random matches are considered`}
+              {tree.truncated && " (repository too large to list in full)"}
+            </p>
+          )}
+
+          {value.length > 0 && (
+            <TextButton type="button" onClick={() => onChange([])} disabled={disabled}>
+              Use this commit&apos;s files instead
+            </TextButton>
+          )}
+        </Container>
+      )}
+    </div>
+  );
+}
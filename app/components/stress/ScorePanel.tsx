@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useRef } from "react";
 import type { GitHubCommit, StressMetadata } from "@/lib/github";
+import { capGrade, type BugFixResult, type Grade } from "@/lib/fix-detection";
 import type { AnalysisFeedback, AnalyzeResponse } from "@/app/api/github/analyze/route";
 import { formatShortDate } from "@/lib/date";
 import { Button } from "@/app/components/inputs/Button";
@@ -12,9 +13,11 @@ import { CloseIcon, BuggrIcon, SparklesIcon, CheckIcon, InfoIcon, LightbulbIcon,
 import {
   SCORE_RATINGS,
   DIFFICULTY_CONFIG,
+  calculateScoreRating,
   type ScoreRating,
 } from "@/lib/score-config";
 import { useResultByBugger, useSaveResult } from "@/app/hooks/useBuggers";
+import { useHints } from "@/app/hooks/useHints";
 
 const ANALYSIS_STEPS: LoadingStep[] = [
   { label: "Fetching commit changes", timeEstimate: "5-30s" },
@@ -394,18 +397,26 @@ function ChangesMadeSection({ changes }: ChangesMadeSectionProps) {
 
 interface TaskDetailsPanelProps {
   stressMetadata: StressMetadata;
+  /** Answer key from the Bugger record (not on the branch); null while loading or for untracked branches */
+  answerKey: { filesBuggered: string[]; changes: string[] } | null;
   isVisible: boolean;
 }
 
-function TaskDetailsPanel({ stressMetadata, isVisible }: TaskDetailsPanelProps) {
+function TaskDetailsPanel({ stressMetadata, answerKey, isVisible }: TaskDetailsPanelProps) {
   return (
     <div 
       className={`space-y-4 transition-all duration-500 ease-out ${isVisible ? "opacity-100 translate-y-0" : "opacity-0 translate-y-6"}`}
       style={{ transitionDelay: "100ms" }}
     >
       <BugReportSection symptoms={stressMetadata.symptoms} />
-      <FilesModifiedSection files={stressMetadata.filesBuggered} />
-      <ChangesMadeSection changes={stressMetadata.changes} />
+      {answerKey && answerKey.filesBuggered.length > 0 && <FilesModifiedSection files={answerKey.filesBuggered} />}
+      {answerKey && answerKey.changes.length > 0 && <ChangesMadeSection changes={answerKey.changes} />}
+      {stressMetadata.seed && (
+        <p className="text-xs text-gh-text-muted">
+          Seed: <code className="font-mono text-gh-accent">{stressMetadata.seed}</code>
+          <span className="text-gh-text-subtle"> (reuse on the same commit to reproduce this challenge)</span>
+        </p>
+      )}
     </div>
   );
 }
@@ -469,6 +480,47 @@ function FeedbackItem({ item, index, isRevealed, getFeedbackIcon, getFeedbackBgC
   );
 }
 
+/** Display config for each deterministic fix status */
+const FIX_STATUS_DISPLAY: Record<BugFixResult["status"], { icon: string; label: string; className: string }> = {
+  fixed: { icon: "✅", label: "Fixed", className: "text-green-400" },
+  partially_fixed: { icon: "🟡", label: "Partially fixed", className: "text-yellow-400" },
+  untouched: { icon: "❌", label: "Not fixed", className: "text-red-400" },
+  reverted_file: { icon: "↩️", label: "File reverted", className: "text-blue-400" },
+};
+
+interface BugChecksSectionProps {
+  bugFixes: BugFixResult[];
+  isRevealed: boolean;
+}
+
+function BugChecksSection({ bugFixes, isRevealed }: BugChecksSectionProps) {
+  return (
+    <Card
+      variant="default"
+      padded={false}
+      className={`p-3 transition-all duration-500 ease-out ${isRevealed ? "opacity-100 translate-y-0" : "opacity-0 translate-y-4"}`}
+      style={{ transitionDelay: "150ms" }}
+    >
+      <p className="mb-2 text-xs font-semibold tracking-wide text-gh-text-muted uppercase">Bug Checks</p>
+      <ul className="space-y-1.5">
+        {bugFixes.map((fix, index) => {
+          const display = FIX_STATUS_DISPLAY[fix.status];
+          return (
+            <li key={index} className="flex items-start gap-2 text-xs">
+              <span className="shrink-0">{display.icon}</span>
+              <div className="min-w-0 flex-1">
+                <span className={`font-medium ${display.className}`}>{display.label}</span>
+                <code className="ml-2 font-mono text-gh-accent">{fix.file}:{fix.lineStart}</code>
+                {fix.symptom && <p className="mt-0.5 text-gh-text-muted">{fix.symptom}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </Card>
+  );
+}
+
 interface AnalysisResultsPanelProps {
   analysisResult: AnalyzeResponse;
   isRevealed: boolean;
@@ -496,6 +548,10 @@ function AnalysisResultsPanel({
         isRevealed={isRevealed} 
       />
 
+      {analysisResult.bugFixes && analysisResult.bugFixes.length > 0 && (
+        <BugChecksSection bugFixes={analysisResult.bugFixes} isRevealed={isRevealed} />
+      )}
+
       {analysisResult.feedback.length > 0 && (
         <div className="space-y-2">
           {analysisResult.feedback.map((item, index) => (
@@ -610,11 +666,14 @@ export function ScorePanel({
   // Ref to track step progression intervals
   const stepIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Check for existing result in the database
-  const { result: existingResult, isLoading: isCheckingExisting } = useResultByBugger(
+  // Check for existing result in the database (also brings the answer key, which isn't on the branch)
+  const { result: existingResult, bugger, isLoading: isCheckingExisting } = useResultByBugger(
     stressMetadata?.buggerId
   );
 
+  // Hints revealed so far (their penalty counts until the result is saved with it)
+  const { data: hintsData } = useHints(existingResult ? null : stressMetadata?.buggerId ?? null);
+
   // Mutation hook for saving results
   const { saveResult, isSaving } = useSaveResult();
 
@@ -675,11 +734,17 @@ export function ScorePanel({
     ? `${stressMetadata.owner}/${stressMetadata.repo}`
     : null;
   
+  // With hints, the time taken plus their penalty sets the best grade, as when the result is saved
+  const hintPenaltyMinutes = existingResult?.hintPenaltyMinutes ?? hintsData?.penaltyMinutes ?? 0;
+
   // Score rating is determined by AI analysis - use the grade from analysis result
   // If we have an existing result, use its grade; if we have fresh analysis, use that
   const aiGrade = analysisResult?.grade || existingResult?.grade;
-  const scoreRating = aiGrade && SCORE_RATINGS[aiGrade] 
-    ? SCORE_RATINGS[aiGrade] 
+  const cappedGrade = aiGrade && hintPenaltyMinutes > 0
+    ? capGrade(aiGrade, calculateScoreRating(stressMetadata?.stressLevel, timeMs, hintPenaltyMinutes).grade as Grade)
+    : aiGrade;
+  const scoreRating = cappedGrade && SCORE_RATINGS[cappedGrade]
+    ? SCORE_RATINGS[cappedGrade]
     : SCORE_RATINGS.C; // Fallback, but should only be used after analysis
 
   const bugCount = stressMetadata?.bugCount || 1;
@@ -690,8 +755,8 @@ export function ScorePanel({
   // Whether we're still initializing (loading OR waiting for analysisResult to sync from existingResult)
   const isInitializing = isCheckingExisting || (existingResult && !analysisResult);
   
-  // Whether we have task data to display (stressMetadata with symptoms/changes)
-  const hasTaskData = !!(stressMetadata?.symptoms?.length || stressMetadata?.changes?.length);
+  // Whether we have task data to display (symptoms from stressMetadata, changes from the answer key)
+  const hasTaskData = !!(stressMetadata?.symptoms?.length || bugger?.changes?.length);
 
   // Ensure activeView is valid - only auto-switch when current view becomes invalid
   useEffect(() => {
@@ -857,7 +922,7 @@ export function ScorePanel({
             options={[
               // Analysis tab: only show if we have a grade (analysis complete)
               ...(hasGrade ? [{ value: "analysis", label: "Analysis", icon: SparklesIcon }] : []),
-              // Task tab: show if we have task data (stressMetadata with symptoms/changes)
+              // Task tab: show if we have task data (symptoms or answer key)
               ...(hasTaskData ? [{ value: "task", label: "Task", icon: DocumentIcon }] : []),
               // Score tab: always show when toggle is visible
               { value: "score", label: "Score", icon: TrophyIcon },
@@ -981,7 +1046,7 @@ export function ScorePanel({
 
         {/* Task Details - shown when task view is active */}
         {activeView === "task" && stressMetadata && (
-          <TaskDetailsPanel stressMetadata={stressMetadata} isVisible={isVisible} />
+          <TaskDetailsPanel stressMetadata={stressMetadata} answerKey={bugger} isVisible={isVisible} />
         )}
 
         {/* Timeline - shown when no analysis OR when score view is active */}
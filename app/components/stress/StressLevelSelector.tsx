@@ -45,7 +45,7 @@ const levelConfig = {
   high: {
     emoji: "💀",
     label: "High",
-    description: "3 files, 6 bugs total",
+    description: "3 files, 6 bugs total, some spanning files",
     activeClass: "bg-gh-danger text-white",
     cost: STRESS_LEVEL_COSTS.high,
   },
@@ -1,3 +1,4 @@
+import type { StressProgressStage } from "@/lib/stress-progress";
 import type { LoadingStep } from "./LoadingProgress";
 
 /**
@@ -12,3 +13,17 @@ export const LOADING_STEPS: LoadingStep[] = [
   { label: "Finalizing", icon: "check", timeEstimate: "5-30s" },
 ];
 
+/**
+ * Which loading step (1-indexed) each streamed stress progress stage belongs to.
+ */
+export const STRESS_STAGE_STEPS: Record<StressProgressStage, number> = {
+  fetching: 2,
+  skipped: 2,
+  selecting: 2,
+  injecting: 3,
+  verifying: 3,
+  committing: 4,
+  metadata: 5,
+  emailing: 5,
+};
+
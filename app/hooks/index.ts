@@ -16,6 +16,7 @@ export {
   resultKeys,
   type Bugger,
   type Result,
+  type BugInstance,
   type ResultByBuggerResponse,
 } from "./useBuggers";
 
@@ -30,6 +31,49 @@ export {
   type BranchChange,
 } from "./useNotifications";
 
+// Hint hooks
+export {
+  useHints,
+  useRevealHint,
+  useReportBrokenChallenge,
+  hintsQueryKey,
+} from "./useHints";
+
+// Custom bug type hooks
+export {
+  useCustomBugTypes,
+  useCreateCustomBugType,
+  useUpdateCustomBugType,
+  useDeleteCustomBugType,
+  customBugTypesQueryKey,
+  type CustomBugType,
+  type CustomBugTypeInput,
+} from "./useCustomBugTypes";
+
+// Repository tree hooks
+export {
+  useRepoTree,
+  repoTreeQueryKey,
+} from "./useRepoTree";
+
+// Generation job hooks
+export {
+  useGenerationJob,
+  isGenerationJobFinished,
+  isGenerationJobMissing,
+  loadActiveGeneration,
+  saveActiveGeneration,
+  generationJobQueryKey,
+  type ActiveGeneration,
+  type GenerationJob,
+} from "./useGenerationJob";
+
+// Coin ledger hooks
+export {
+  useCoinHistory,
+  coinHistoryQueryKey,
+} from "./useCoinHistory";
+
 // Invitation hooks
 export {
   useInvitations,
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import type { AnalysisFeedback } from "@/app/api/github/analyze/route";
+import type { SymptomCheck } from "@/lib/symptom-verification";
 
 // ============================================================================
 // Types
@@ -14,6 +15,8 @@ export interface Bugger {
   branchName: string;
   stressLevel: string;
   bugCount: number;
+  /** Seed that drove every random choice (null for challenges created before seeding) */
+  seed?: string | null;
   originalCommitSha: string;
   symptoms: string[];
   changes: string[];
@@ -21,7 +24,31 @@ export interface Bugger {
   createdAt: string;
   /** AI-determined grade stored directly on bugger for easy access */
   grade?: string | null;
+  /** When the solver reported the challenge as broken and was refunded */
+  brokenAt?: string | null;
   result?: Result | null;
+  /** Ground-truth bug map, one entry per injected bug (only sent once the challenge is completed) */
+  bugs?: BugInstance[];
+}
+
+/** A single injected bug from the API */
+export interface BugInstance {
+  id: string;
+  buggerId: string;
+  order: number;
+  file: string;
+  lineStart: number;
+  lineEnd: number;
+  functionName: string | null;
+  originalSnippet: string;
+  buggySnippet: string;
+  bugTypeId: string;
+  category: string;
+  description: string | null;
+  symptom: string | null;
+  /** Symptom verification result (null for challenges created before verification) */
+  symptomCheck: SymptomCheck | null;
+  createdAt: string;
 }
 
 /** Result data from the API */
@@ -35,6 +62,12 @@ export interface Result {
   analysisSummary: string | null;
   analysisIsPerfect: boolean;
   analysisFeedback: AnalysisFeedback[] | null;
+  /** Number of hints revealed during the challenge */
+  hintsUsed: number;
+  /** Coins spent on hints */
+  hintCoinsSpent: number;
+  /** Minutes added to the time for grading because of hints */
+  hintPenaltyMinutes: number;
   createdAt: string;
 }
 
@@ -57,6 +90,10 @@ export interface ResultByBuggerResponse {
     stressLevel: string;
     bugCount: number;
     grade: string | null;
+    /** Answer key: files that were buggered (never written to the branch) */
+    filesBuggered: string[];
+    /** Answer key: technical descriptions of the bugs (never written to the branch) */
+    changes: string[];
     createdAt: string;
   };
 }
@@ -0,0 +1,59 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import type { CoinHistoryResponse } from "@/app/api/user/coins/history/route";
+import { userQueryKey } from "./useUser";
+
+/**
+ * Query key for the coin ledger. Nested under the user key, so anything that
+ * invalidates the user (a balance change) refreshes the ledger too.
+ */
+export const coinHistoryQueryKey = (filters: { limit: number; offset: number }) =>
+  [...userQueryKey, "coins", "history", filters] as const;
+
+/**
+ * Fetches a page of the user's coin ledger.
+ * 
+ * @param limit - Entries per page
+ * @param offset - Entries to skip
+ * @returns Ledger page
+ */
+async function fetchCoinHistory(limit: number, offset: number): Promise<CoinHistoryResponse> {
+  const response = await fetch(`/api/user/coins/history?limit=${limit}&offset=${offset}`);
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || "Failed to fetch coin history");
+  }
+
+  return response.json();
+}
+
+/**
+ * React Query hook for the user's coin ledger, newest first.
+ * 
+ * @example
+ * ```tsx
+ * const { transactions, total } = useCoinHistory({ limit: 10 });
+ * ```
+ * 
+ * @param options - Pagination options
+ * @returns Ledger entries, total count and query state
+ */
+export function useCoinHistory(options: { limit?: number; offset?: number } = {}) {
+  const { limit = 20, offset = 0 } = options;
+
+  const query = useQuery({
+    queryKey: coinHistoryQueryKey({ limit, offset }),
+    queryFn: () => fetchCoinHistory(limit, offset),
+    // Keep showing the current page while a bigger one loads
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    transactions: query.data?.transactions ?? [],
+    total: query.data?.total ?? 0,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
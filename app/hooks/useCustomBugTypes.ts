@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+/**
+ * Custom bug type from the database.
+ */
+export interface CustomBugType {
+  id: string;
+  userId: string;
+  /** GitHub organization the type is shared with (null = personal) */
+  orgLogin: string | null;
+  name: string;
+  category: string;
+  description: string;
+  examples: string[];
+  sampleSymptom: string;
+  framework: string | null;
+  language: string | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fields accepted when creating or updating a custom bug type.
+ */
+export interface CustomBugTypeInput {
+  name: string;
+  category: string;
+  description: string;
+  examples: string[];
+  sampleSymptom: string;
+  framework?: string | null;
+  language?: string | null;
+  orgLogin?: string | null;
+  enabled?: boolean;
+}
+
+/**
+ * Query key for custom bug types.
+ */
+export const customBugTypesQueryKey = ["customBugTypes"] as const;
+
+/**
+ * Sends a request to the custom bug types API and returns the parsed body.
+ *
+ * @throws Error with the API's error message if the request fails
+ */
+async function requestCustomBugTypes<T>(url: string, init: RequestInit | undefined, fallbackError: string): Promise<T> {
+  const response = await fetch(url, init);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || fallbackError);
+  }
+  return data;
+}
+
+/**
+ * Hook to fetch the current user's custom bug types.
+ *
+ * @returns Query result with the custom bug types
+ */
+export function useCustomBugTypes() {
+  return useQuery({
+    queryKey: customBugTypesQueryKey,
+    queryFn: async () => {
+      const data = await requestCustomBugTypes<{ customBugTypes: CustomBugType[] }>(
+        "/api/custom-bug-types",
+        undefined,
+        "Failed to fetch custom bug types"
+      );
+      return data.customBugTypes;
+    },
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+/**
+ * Hook to create a custom bug type.
+ */
+export function useCreateCustomBugType() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CustomBugTypeInput) =>
+      requestCustomBugTypes<{ customBugType: CustomBugType }>(
+        "/api/custom-bug-types",
+        { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(input) },
+        "Failed to create custom bug type"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: customBugTypesQueryKey });
+    },
+  });
+}
+
+/**
+ * Hook to update a custom bug type (any subset of fields).
+ */
+export function useUpdateCustomBugType() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...input }: Partial<CustomBugTypeInput> & { id: string }) =>
+      requestCustomBugTypes<{ customBugType: CustomBugType }>(
+        `/api/custom-bug-types/${id}`,
+        { method: "PATCH", headers: { "Content-Type": "application/json" }, body: JSON.stringify(input) },
+        "Failed to update custom bug type"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: customBugTypesQueryKey });
+    },
+  });
+}
+
+/**
+ * Hook to delete a custom bug type.
+ */
+export function useDeleteCustomBugType() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) =>
+      requestCustomBugTypes<{ success: boolean }>(
+        `/api/custom-bug-types/${id}`,
+        { method: "DELETE" },
+        "Failed to delete custom bug type"
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: customBugTypesQueryKey });
+    },
+  });
+}
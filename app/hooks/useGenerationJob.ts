@@ -0,0 +1,134 @@
+import { useQuery } from "@tanstack/react-query";
+import type { GenerationJobProgress, GenerationJobStatus } from "@/lib/generation-jobs";
+
+/** How often a running job is polled */
+const POLL_INTERVAL_MS = 2000;
+
+/** sessionStorage key of the generation being tracked, so a reload picks it back up */
+const ACTIVE_GENERATION_KEY = "buggr-active-generation";
+
+/** Message of the error thrown when a job doesn't exist (or belongs to someone else) */
+const JOB_NOT_FOUND_MESSAGE = "Generation job not found";
+
+/**
+ * A generation the client is tracking: the job and the branch it's buggering.
+ */
+export interface ActiveGeneration {
+  jobId: string;
+  branchName: string;
+  owner: string;
+  repo: string;
+}
+
+/**
+ * A generation job as returned by GET /api/jobs/[id].
+ */
+export interface GenerationJob {
+  id: string;
+  status: GenerationJobStatus;
+  /** Progress events, oldest first */
+  progress: GenerationJobProgress[];
+  /** HTTP-style status of the outcome (null until finished) */
+  resultStatus: number | null;
+  /** Outcome body: message, results, symptoms, buggerId and seed - or error (null until finished) */
+  result: {
+    error?: string;
+    /** Set on failures after generation: whether the branch was deleted to compensate */
+    branchRemoved?: boolean;
+    message?: string;
+    buggerId?: string | null;
+    seed?: string;
+    /** Coins charged for what was delivered, and the full price of the level */
+    coinsCharged?: number;
+    fullCost?: number;
+    warning?: string;
+  } | null;
+  buggerId: string | null;
+  attempts: number;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+/**
+ * Query key for a generation job.
+ */
+export const generationJobQueryKey = (jobId: string) => ["generationJob", jobId] as const;
+
+/**
+ * Fetches a generation job.
+ */
+async function fetchGenerationJob(jobId: string): Promise<GenerationJob> {
+  const response = await fetch(`/api/jobs/${jobId}`);
+  if (response.status === 404) {
+    throw new Error(JOB_NOT_FOUND_MESSAGE);
+  }
+  if (!response.ok) {
+    throw new Error("Failed to fetch generation progress");
+  }
+  return response.json();
+}
+
+/**
+ * Checks whether a job is done, successfully or not.
+ *
+ * @param job - Generation job
+ * @returns True once the job succeeded or failed
+ */
+export function isGenerationJobFinished(job: GenerationJob | undefined): boolean {
+  return job?.status === "succeeded" || job?.status === "failed";
+}
+
+/**
+ * Checks whether a job query failed because the job doesn't exist.
+ *
+ * @param error - Error from useGenerationJob
+ * @returns True if polling the job can't succeed
+ */
+export function isGenerationJobMissing(error: Error | null): boolean {
+  return error?.message === JOB_NOT_FOUND_MESSAGE;
+}
+
+/**
+ * Reads the generation this tab was tracking before a reload.
+ *
+ * @returns The generation, or null if none was in progress
+ */
+export function loadActiveGeneration(): ActiveGeneration | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const saved = sessionStorage.getItem(ACTIVE_GENERATION_KEY);
+    return saved ? (JSON.parse(saved) as ActiveGeneration) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remembers the generation this tab is tracking (or forgets it once it's done).
+ *
+ * @param generation - Generation being tracked, or null to clear it
+ */
+export function saveActiveGeneration(generation: ActiveGeneration | null): void {
+  if (generation) {
+    sessionStorage.setItem(ACTIVE_GENERATION_KEY, JSON.stringify(generation));
+  } else {
+    sessionStorage.removeItem(ACTIVE_GENERATION_KEY);
+  }
+}
+
+/**
+ * Hook to track a challenge generation job. Polls until the job finishes.
+ *
+ * @param jobId - Job ID returned by POST /api/github/stress (null to disable the query)
+ * @returns Query result with the job
+ */
+export function useGenerationJob(jobId: string | null) {
+  return useQuery({
+    queryKey: generationJobQueryKey(jobId ?? ""),
+    queryFn: () => fetchGenerationJob(jobId!),
+    enabled: !!jobId,
+    refetchInterval: (query) => (isGenerationJobFinished(query.state.data) ? false : POLL_INTERVAL_MS),
+    // Keep polling through transient errors (e.g. a deploy) - the job keeps running server-side
+    retry: (_failureCount, error) => !isGenerationJobMissing(error),
+  });
+}
@@ -0,0 +1,107 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { HintsResponse } from "@/app/api/buggers/[id]/hints/route";
+import type { ReportBrokenResponse } from "@/app/api/buggers/[id]/report/route";
+import { userQueryKey } from "./useUser";
+
+/**
+ * Response from revealing a hint.
+ */
+interface RevealHintResponse {
+  hint: { level: number; content: string; cost: number };
+  newBalance: number;
+}
+
+/**
+ * Query key for a challenge's hints.
+ */
+export const hintsQueryKey = (buggerId: string) => ["hints", buggerId] as const;
+
+/**
+ * Fetches the hints state for a challenge.
+ */
+async function fetchHints(buggerId: string): Promise<HintsResponse> {
+  const response = await fetch(`/api/buggers/${buggerId}/hints`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch hints");
+  }
+  return response.json();
+}
+
+/**
+ * Reveals the next hint for a bug.
+ */
+async function revealHint(buggerId: string, bugId: string): Promise<RevealHintResponse> {
+  const response = await fetch(`/api/buggers/${buggerId}/hints`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ bugId }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to reveal hint");
+  }
+  return data;
+}
+
+/**
+ * Reports a challenge as broken, refunding the coins spent on it.
+ */
+async function reportBroken(buggerId: string, reason?: string): Promise<ReportBrokenResponse> {
+  const response = await fetch(`/api/buggers/${buggerId}/report`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reason }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || "Failed to report challenge");
+  }
+  return data;
+}
+
+/**
+ * Hook to fetch the bugs of a challenge with the hints revealed so far.
+ *
+ * @param buggerId - Bugger ID (null to disable the query)
+ * @returns Query result with the hints state
+ */
+export function useHints(buggerId: string | null) {
+  return useQuery({
+    queryKey: hintsQueryKey(buggerId ?? ""),
+    queryFn: () => fetchHints(buggerId!),
+    enabled: !!buggerId,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+/**
+ * Hook to buy the next hint for a bug.
+ * Refreshes the hints and the user's coin balance on success.
+ */
+export function useRevealHint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ buggerId, bugId }: { buggerId: string; bugId: string }) => revealHint(buggerId, bugId),
+    onSuccess: (_data, { buggerId }) => {
+      queryClient.invalidateQueries({ queryKey: hintsQueryKey(buggerId) });
+      queryClient.invalidateQueries({ queryKey: userQueryKey });
+    },
+  });
+}
+
+/**
+ * Hook to report a challenge as broken (e.g. the symptoms don't reproduce).
+ * Refreshes the hints and the user's coin balance and ledger on success.
+ */
+export function useReportBrokenChallenge() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ buggerId, reason }: { buggerId: string; reason?: string }) => reportBroken(buggerId, reason),
+    onSuccess: (_data, { buggerId }) => {
+      queryClient.invalidateQueries({ queryKey: hintsQueryKey(buggerId) });
+      queryClient.invalidateQueries({ queryKey: userQueryKey });
+    },
+  });
+}
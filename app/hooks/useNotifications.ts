@@ -29,6 +29,8 @@ export interface BranchChange {
     file: string;
     success: boolean;
     changes?: string[];
+    /** Why the file selector picked this file */
+    selectionReasons?: string[];
   }[];
 }
 
@@ -6,12 +6,23 @@ import { useQueryClient } from "@tanstack/react-query";
 import type { GitHubRepo, GitHubBranch, GitHubCommit, GitHubCommitDetails, StressMetadata } from "@/lib/github";
 import { fetchStressMetadata } from "@/lib/github";
 import { generateTimestamp } from "@/lib/date";
+import type { BugCategoryFilter } from "@/lib/bug-categories";
+import { DEFAULT_FILE_SELECTION_STRATEGY, type FileSelectionStrategyId } from "@/lib/file-selection";
+import { isStressableFile, MAX_CANDIDATE_FILES } from "@/lib/path-selection";
 import { useDashboardState } from "@/app/hooks/useDashboardState";
 import { notificationsQueryKey } from "@/app/hooks/useNotifications";
 import { useUser, userQueryKey } from "@/app/hooks/useUser";
 import { useBuggers, type Bugger } from "@/app/hooks/useBuggers";
+import {
+  useGenerationJob,
+  isGenerationJobFinished,
+  isGenerationJobMissing,
+  loadActiveGeneration,
+  saveActiveGeneration,
+  ActiveGeneration,
+} from "@/app/hooks/useGenerationJob";
 import { useNotes } from "@/app/context/NotesContext";
-import { LOADING_STEPS } from "@/app/components/stress/loading-steps";
+import { LOADING_STEPS, STRESS_STAGE_STEPS } from "@/app/components/stress/loading-steps";
 
 /**
  * Information about a branch's bugger status.
@@ -68,6 +79,15 @@ export interface UseRepoBranchSelectorReturn {
   setBranchSuffix: (suffix: string) => void;
   stressContext: string;
   setStressContext: (context: string) => void;
+  stressSeed: string;
+  setStressSeed: (seed: string) => void;
+  bugCategories: BugCategoryFilter;
+  setBugCategories: (filter: BugCategoryFilter) => void;
+  /** Paths and globs to pick files from (empty = the selected commit's changed files) */
+  stressPaths: string[];
+  setStressPaths: (paths: string[]) => void;
+  fileStrategy: FileSelectionStrategyId;
+  setFileStrategy: (strategy: FileSelectionStrategyId) => void;
   stressLevel: "low" | "medium" | "high" | "custom";
   setStressLevel: (level: "low" | "medium" | "high" | "custom") => void;
   customFilesCount: number;
@@ -77,12 +97,16 @@ export interface UseRepoBranchSelectorReturn {
   creatingBranch: boolean;
   loadingStep: number;
   loadingSteps: typeof LOADING_STEPS;
+  /** Progress messages of the generation job, oldest first */
+  loadingActivity: string[];
   timestamp: string;
   handleCreateBranch: (e: React.FormEvent) => Promise<void>;
 
   // Branch success
   branchSuccess: string | null;
   setBranchSuccess: (name: string | null) => void;
+  /** Caveat about the created branch, e.g. a partial charge when some files couldn't be buggered */
+  branchNotice: string | null;
 
   // Branch deletion
   deletingBranch: boolean;
@@ -179,12 +203,20 @@ export function useRepoBranchSelector({
   const [showCreateBranch, setShowCreateBranch] = useState(false);
   const [branchSuffix, setBranchSuffix] = useState("");
   const [stressContext, setStressContext] = useState("");
+  const [stressSeed, setStressSeed] = useState("");
+  const [bugCategories, setBugCategories] = useState<BugCategoryFilter>({ include: [], exclude: [] });
+  const [stressPaths, setStressPaths] = useState<string[]>([]);
+  const [fileStrategy, setFileStrategy] = useState<FileSelectionStrategyId>(DEFAULT_FILE_SELECTION_STRATEGY);
   const [stressLevel, setStressLevel] = useState<"low" | "medium" | "high" | "custom">("low");
   const [customFilesCount, setCustomFilesCount] = useState(1);
   const [customBugCount, setCustomBugCount] = useState(1);
   const [creatingBranch, setCreatingBranch] = useState(false);
   const [loadingStep, setLoadingStep] = useState<number>(0);
+  // Generation job being tracked, with the branch it's buggering (kept in sessionStorage across reloads)
+  const [generation, setGeneration] = useState<ActiveGeneration | null>(null);
+  const { data: generationJob, error: generationJobError } = useGenerationJob(generation?.jobId ?? null);
   const [branchSuccess, setBranchSuccess] = useState<string | null>(null);
+  const [branchNotice, setBranchNotice] = useState<string | null>(null);
   const [timestamp, setTimestamp] = useState(() => generateTimestamp());
   const [deletingBranch, setDeletingBranch] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -285,12 +317,47 @@ export function useRepoBranchSelector({
     router.push(url);
   }, [selectedRepo, router]);
 
+  /**
+   * Resets the create-branch form once buggering is done (or failed) and refreshes the branch list.
+   *
+   * @param owner - Owner of the repository the branch was created in
+   * @param repo - Name of the repository the branch was created in
+   */
+  const finishCreateBranch = useCallback(async (owner: string, repo: string) => {
+    setBranchSuffix("");
+    setStressContext("");
+    setStressSeed("");
+    setBugCategories({ include: [], exclude: [] });
+    setStressPaths([]);
+    setFileStrategy(DEFAULT_FILE_SELECTION_STRATEGY);
+    setStressLevel("medium");
+    setCustomFilesCount(1);
+    setCustomBugCount(1);
+    setShowCreateBranch(false);
+    setCreatingBranch(false);
+    setLoadingStep(0);
+
+    // Refresh branches list
+    try {
+      const branchesResponse = await fetch(`/api/github/branches?owner=${owner}&repo=${repo}`);
+      if (branchesResponse.ok) {
+        const branchesData = await branchesResponse.json();
+        setBranches(branchesData);
+      }
+    } catch (err) {
+      console.error("Failed to refresh branches:", err);
+    }
+  }, []);
+
   /**
    * Creates a new branch from the selected commit and automatically buggers it up.
+   * Files come from the commit's changes, or from the selected paths/globs when there are any
+   * (those are resolved by the stress route).
    */
   const handleCreateBranch = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedRepo || !selectedCommit || !selectedBranch || !commitDetails?.files) return;
+    const usePaths = stressPaths.length > 0;
+    if (!selectedRepo || !selectedCommit || !selectedBranch || (!usePaths && !commitDetails?.files)) return;
 
     const base = `buggr-${selectedBranch}-${timestamp}`;
     const fullBranchName = branchSuffix.trim() ? `${base}-${branchSuffix.trim()}` : base;
@@ -298,15 +365,15 @@ export function useRepoBranchSelector({
     // Filter out removed files, sort by most changes, and limit based on stress level
     const MAX_FILES_TO_STRESS =
       stressLevel === "custom" ? customFilesCount : stressLevel === "low" ? 1 : stressLevel === "medium" ? 2 : 3;
-    const availableFiles = commitDetails.files.filter((f) => f.status !== "removed");
+    const availableFiles = usePaths ? [] : (commitDetails?.files ?? []).filter((f) => f.status !== "removed");
 
-    if (availableFiles.length === 0) {
+    if (!usePaths && availableFiles.length === 0) {
       setError("No files available to bugger up");
       return;
     }
 
     // Check if there are enough files for the selected stress level
-    if (availableFiles.length < MAX_FILES_TO_STRESS) {
+    if (!usePaths && availableFiles.length < MAX_FILES_TO_STRESS) {
       const stressLevelName =
         stressLevel === "custom" ? "custom" : stressLevel === "low" ? "easy" : stressLevel === "medium" ? "medium" : "hard";
       setError(
@@ -314,26 +381,19 @@ export function useRepoBranchSelector({
       );
     }
 
-    // File selection mode
-    const fileSelectionMode = process.env.NEXT_PUBLIC_FILE_SELECTION_MODE || "random";
-
-    let sortedFiles;
-    if (fileSelectionMode === "random") {
-      sortedFiles = [...availableFiles];
-      for (let i = sortedFiles.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [sortedFiles[i], sortedFiles[j]] = [sortedFiles[j], sortedFiles[i]];
-      }
-    } else {
-      sortedFiles = [...availableFiles].sort((a, b) => b.additions + b.deletions - (a.additions + a.deletions));
-    }
-
-    const filesToStress = sortedFiles.slice(0, MAX_FILES_TO_STRESS).map((f) => f.filename);
+    // Send every candidate - the stress route picks the files with the selected strategy.
+    // Very large commits are trimmed to the files with the most changes.
+    const filesToStress = [...availableFiles]
+      .filter((f) => isStressableFile(f.filename))
+      .sort((a, b) => b.additions + b.deletions - (a.additions + a.deletions))
+      .slice(0, MAX_CANDIDATE_FILES)
+      .map((f) => f.filename);
 
     setCreatingBranch(true);
     setLoadingStep(0);
     setError(null);
     setBranchSuccess(null);
+    setBranchNotice(null);
 
     try {
       // Step 1: Create the branch
@@ -354,18 +414,18 @@ export function useRepoBranchSelector({
         throw new Error(data.error || "Failed to create branch");
       }
 
-      // Step 2: Analyze files
+      // Steps 2-5 follow the generation job's progress
       setLoadingStep(2);
-      await new Promise((resolve) => setTimeout(resolve, 500));
-
-      // Step 3: Introduce stress on the new branch
-      setLoadingStep(3);
       const requestBody: {
         owner: string;
         repo: string;
         branch: string;
         files: string[];
+        paths?: string[];
+        fileStrategy: FileSelectionStrategyId;
         context?: string;
+        seed?: string;
+        categories?: BugCategoryFilter;
         difficulty: "low" | "medium" | "high" | "custom";
         originalCommitSha: string;
         customFilesCount?: number;
@@ -375,7 +435,11 @@ export function useRepoBranchSelector({
         repo: selectedRepo.name,
         branch: fullBranchName,
         files: filesToStress,
+        paths: usePaths ? stressPaths : undefined,
+        fileStrategy,
         context: stressContext.trim() || undefined,
+        seed: stressSeed.trim() || undefined,
+        categories: bugCategories.include.length > 0 || bugCategories.exclude.length > 0 ? bugCategories : undefined,
         difficulty: stressLevel,
         originalCommitSha: selectedCommit.sha,
       };
@@ -385,48 +449,35 @@ export function useRepoBranchSelector({
         requestBody.customBugCount = customBugCount;
       }
 
-      const stressResponse = await fetch("/api/github/stress", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(requestBody),
-      });
-
-      // Step 4: Committing changes
-      setLoadingStep(4);
+      // A network error may hide a request that got through - the idempotency key makes the retry safe
+      const idempotencyKey = crypto.randomUUID();
+      const postStress = () =>
+        fetch("/api/github/stress", {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
+          body: JSON.stringify(requestBody),
+        });
+      const stressResponse = await postStress().catch(() => postStress());
       const stressData = await stressResponse.json();
 
-      // Step 5: Finalizing
-      setLoadingStep(5);
-      await new Promise((resolve) => setTimeout(resolve, 300));
-
       if (!stressResponse.ok) {
         setBranchSuccess(fullBranchName);
         setError(`Branch created, but buggering failed: ${stressData.error || "Unknown error"}`);
-      } else {
-        setBranchSuccess(fullBranchName);
-        queryClient.invalidateQueries({ queryKey: notificationsQueryKey() });
-        queryClient.invalidateQueries({ queryKey: userQueryKey });
-        openPanel();
+        await finishCreateBranch(selectedRepo.owner.login, selectedRepo.name);
+        return;
       }
 
-      setBranchSuffix("");
-      setStressContext("");
-      setStressLevel("medium");
-      setCustomFilesCount(1);
-      setCustomBugCount(1);
-      setShowCreateBranch(false);
-
-      // Refresh branches list
-      const branchesResponse = await fetch(
-        `/api/github/branches?owner=${selectedRepo.owner.login}&repo=${selectedRepo.name}`
-      );
-      if (branchesResponse.ok) {
-        const branchesData = await branchesResponse.json();
-        setBranches(branchesData);
-      }
+      // Generation runs in the background - track the job until it finishes
+      const started: ActiveGeneration = {
+        jobId: stressData.jobId,
+        branchName: fullBranchName,
+        owner: selectedRepo.owner.login,
+        repo: selectedRepo.name,
+      };
+      saveActiveGeneration(started);
+      setGeneration(started);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create branch");
-    } finally {
       setCreatingBranch(false);
       setLoadingStep(0);
     }
@@ -441,10 +492,62 @@ export function useRepoBranchSelector({
     customFilesCount,
     customBugCount,
     stressContext,
-    queryClient,
-    openPanel,
+    stressSeed,
+    bugCategories,
+    stressPaths,
+    fileStrategy,
+    finishCreateBranch,
   ]);
 
+  // Pick up a generation that was still running when the page was reloaded
+  useEffect(() => {
+    const saved = loadActiveGeneration();
+    if (!saved) return;
+    setGeneration(saved);
+    setShowCreateBranch(true);
+    setCreatingBranch(true);
+    setLoadingStep(2);
+  }, []);
+
+  // Stop tracking a job the server doesn't know (e.g. another account signed in since)
+  useEffect(() => {
+    if (!generation || !isGenerationJobMissing(generationJobError)) return;
+    saveActiveGeneration(null);
+    setGeneration(null);
+    setError("Lost track of the challenge being generated. Check your branches for it.");
+    finishCreateBranch(generation.owner, generation.repo);
+  }, [generation, generationJobError, finishCreateBranch]);
+
+  // Finish creating the branch once its generation job is done
+  useEffect(() => {
+    if (!generation || !generationJob || !isGenerationJobFinished(generationJob)) return;
+
+    const failed = generationJob.status === "failed";
+    if (failed && generationJob.result?.branchRemoved) {
+      setError(`Buggering failed and the branch was removed: ${generationJob.result.error || "Unknown error"}`);
+    } else if (failed) {
+      setBranchSuccess(generation.branchName);
+      setError(`Branch created, but buggering failed: ${generationJob.result?.error || "Unknown error"}`);
+    } else {
+      setBranchSuccess(generation.branchName);
+      setBranchNotice(generationJob.result?.warning ?? null);
+      queryClient.invalidateQueries({ queryKey: notificationsQueryKey() });
+      queryClient.invalidateQueries({ queryKey: userQueryKey });
+      openPanel();
+    }
+    saveActiveGeneration(null);
+    setGeneration(null);
+    finishCreateBranch(generation.owner, generation.repo);
+  }, [generation, generationJob, queryClient, openPanel, finishCreateBranch]);
+
+  // Steps 2-5 and the activity log follow the job's progress
+  const generationProgress = useMemo(() => (generation && generationJob?.progress) || [], [generation, generationJob]);
+  const currentLoadingStep = generationProgress.reduce(
+    (step, event) => Math.max(step, STRESS_STAGE_STEPS[event.stage]),
+    loadingStep
+  );
+  const loadingActivity = useMemo(() => generationProgress.map((event) => event.message), [generationProgress]);
+
   /**
    * Deletes the currently selected branch.
    */
@@ -817,6 +920,14 @@ export function useRepoBranchSelector({
     setBranchSuffix,
     stressContext,
     setStressContext,
+    stressSeed,
+    setStressSeed,
+    bugCategories,
+    setBugCategories,
+    stressPaths,
+    setStressPaths,
+    fileStrategy,
+    setFileStrategy,
     stressLevel,
     setStressLevel,
     customFilesCount,
@@ -824,14 +935,16 @@ export function useRepoBranchSelector({
     customBugCount,
     setCustomBugCount,
     creatingBranch,
-    loadingStep,
+    loadingStep: currentLoadingStep,
     loadingSteps: LOADING_STEPS,
+    loadingActivity,
     timestamp,
     handleCreateBranch,
 
     // Branch success
     branchSuccess,
     setBranchSuccess,
+    branchNotice,
 
     // Branch deletion
     deletingBranch,
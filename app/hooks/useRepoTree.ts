@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import type { RepoTreeResponse } from "@/app/api/github/tree/route";
+
+/**
+ * Query key for a repository tree.
+ */
+export const repoTreeQueryKey = (owner: string, repo: string, ref: string) => ["repoTree", owner, repo, ref] as const;
+
+/**
+ * Fetches every file and directory at a branch or commit.
+ */
+async function fetchRepoTree(owner: string, repo: string, ref: string): Promise<RepoTreeResponse> {
+  const response = await fetch(
+    `/api/github/tree?owner=${owner}&repo=${repo}&ref=${encodeURIComponent(ref)}`
+  );
+  if (!response.ok) {
+    throw new Error("Failed to fetch repository tree");
+  }
+  return response.json();
+}
+
+/**
+ * Hook to fetch a repository's file tree, for picking challenge files by path.
+ * Trees at a commit never change, so they're cached for the session.
+ *
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @param ref - Commit SHA or branch name (null to disable the query)
+ * @param enabled - Whether to fetch (e.g. only once the picker is opened)
+ * @returns Query result with the tree entries
+ */
+export function useRepoTree(owner: string, repo: string, ref: string | null, enabled = true) {
+  return useQuery({
+    queryKey: repoTreeQueryKey(owner, repo, ref ?? ""),
+    queryFn: () => fetchRepoTree(owner, repo, ref!),
+    enabled: enabled && !!ref,
+    staleTime: Infinity,
+  });
+}
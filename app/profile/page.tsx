@@ -4,6 +4,7 @@ import { useState } from "react";
 import { useUser } from "@/app/hooks/useUser";
 import { useBuggers, useResults } from "@/app/hooks/useBuggers";
 import { useInvitations } from "@/app/hooks/useInvitations";
+import { useCoinHistory } from "@/app/hooks/useCoinHistory";
 import Link from "next/link";
 import { 
   BuggrIcon, 
@@ -16,6 +17,8 @@ import {
   CopyIcon
 } from "@/app/components/icons";
 import { STRESS_LEVEL_COSTS } from "@/lib/stress-costs";
+import { COIN_TRANSACTION_LABELS } from "@/lib/coin-ledger";
+import { formatShortDate } from "@/lib/date";
 import { Button } from "@/app/components/inputs/Button";
 import { Container } from "@/app/components/Container";
 import { CoinsUpsell } from "../components/CoinsUpsell";
@@ -24,6 +27,8 @@ import { CoinsUpsell } from "../components/CoinsUpsell";
 const INVITE_BONUS_COINS = 30;
 /** Coins awarded per signup from invitation */
 const SIGNUP_BONUS_COINS = 30;
+/** Ledger entries shown at first, and added by each "Show more" */
+const LEDGER_PAGE_SIZE = 10;
 
 /**
  * User profile/dashboard page.
@@ -49,6 +54,14 @@ export default function ProfilePage() {
   const [inviteSuccess, setInviteSuccess] = useState<string | null>(null);
   const [copiedInviteId, setCopiedInviteId] = useState<string | null>(null);
 
+  // Coin ledger - loads on its own so the rest of the profile doesn't wait for it
+  const [ledgerLimit, setLedgerLimit] = useState(LEDGER_PAGE_SIZE);
+  const { 
+    transactions, 
+    total: transactionsTotal, 
+    isLoading: ledgerLoading 
+  } = useCoinHistory({ limit: ledgerLimit });
+
   const isLoading = userLoading || buggersLoading || resultsLoading || invitationsLoading;
 
   /**
@@ -243,6 +256,61 @@ export default function ProfilePage() {
           </div>
         </div>
 
+        {/* Coin History Section */}
+        <div className="mb-4 rounded-xl border border-gh-border bg-gh-canvas-subtle p-6">
+          <div className="mb-4">
+            <h2 className="text-lg font-semibold text-white">Coin History</h2>
+            <p className="text-sm text-gh-text-muted">Every change to your balance, newest first</p>
+          </div>
+
+          {ledgerLoading && transactions.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <div className="h-5 w-5 animate-spin rounded-full border-2 border-gh-accent/30 border-t-gh-accent" />
+            </div>
+          ) : transactions.length > 0 ? (
+            <div>
+              <div className="max-h-72 space-y-2 overflow-y-auto">
+                {transactions.map((transaction) => (
+                  <div
+                    key={transaction.id}
+                    className="flex items-center justify-between rounded-lg border border-gh-border bg-gh-canvas-default px-3 py-2"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="text-sm text-white">
+                        {COIN_TRANSACTION_LABELS[transaction.reason] ?? transaction.reason}
+                      </p>
+                      <p className="truncate text-xs text-gh-text-muted">
+                        {formatShortDate(transaction.createdAt)}
+                        {transaction.description && ` · ${transaction.description}`}
+                      </p>
+                    </div>
+                    <div className="ml-3 text-right">
+                      <p className={`text-sm font-semibold ${transaction.amount >= 0 ? "text-green-400" : "text-red-400"}`}>
+                        {transaction.amount >= 0 ? "+" : ""}{transaction.amount}
+                      </p>
+                      <p className="text-xs text-gh-text-muted">Balance {transaction.balanceAfter}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {transactionsTotal > transactions.length && (
+                <div className="mt-3 flex justify-center">
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    disabled={ledgerLoading}
+                    onClick={() => setLedgerLimit((limit) => limit + LEDGER_PAGE_SIZE)}
+                  >
+                    Show more
+                  </Button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gh-text-muted">No coin changes yet</p>
+          )}
+        </div>
+
         {/* Invite Friends Section */}
         <div className="mb-4 rounded-xl border border-gh-border bg-gh-canvas-subtle p-6">
           <div className="mb-4 flex items-center justify-between">
@@ -406,6 +474,10 @@ export default function ProfilePage() {
                         <span className="rounded bg-green-500/20 px-2 py-0.5 text-xs font-medium text-green-400">
                           {bugger.result.grade}
                         </span>
+                      ) : bugger.brokenAt ? (
+                        <span className="rounded bg-gh-border px-2 py-0.5 text-xs font-medium text-gh-text-muted">
+                          Refunded
+                        </span>
                       ) : (
                         <span className="rounded bg-yellow-500/20 px-2 py-0.5 text-xs font-medium text-yellow-400">
                           In Progress
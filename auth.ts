@@ -3,6 +3,7 @@ import GitHub from "next-auth/providers/github";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import { prisma } from "@/lib/prisma";
 import { sendWelcomeEmail } from "@/lib/email";
+import { applyCoinChange } from "@/lib/coin-ledger";
 
 /** GitHub profile shape from OAuth response */
 interface GitHubProfile {
@@ -33,8 +34,9 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
     GitHub({
       authorization: {
         params: {
-          // Request repo scope to access repository data including branches
-          scope: "read:user user:email repo",
+          // Request repo scope to access repository data including branches,
+          // and read:org to verify membership when sharing custom bug types with an org
+          scope: "read:user user:email repo read:org",
         },
       },
     }),
@@ -78,12 +80,17 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
   events: {
     /**
      * Called when a new user is created.
-     * Checks if they were invited and awards bonus coins to ALL inviters.
+     * Records their starting coins, then checks if they were invited and awards bonus coins to ALL inviters.
      */
     async createUser({ user }) {
       if (!user.email || !user.id) return;
 
       try {
+        // The account was created with the starting coins - open its ledger with them
+        await prisma.coinTransaction.create({
+          data: { userId: user.id, amount: STARTING_COINS, reason: "welcome", balanceAfter: STARTING_COINS },
+        });
+
         // Find ALL pending invitations for this email (multiple people may have invited them)
         const invitations = await prisma.invitation.findMany({
           where: {
@@ -108,11 +115,12 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
               });
 
               // Award signup bonus to this inviter
-              await tx.user.update({
-                where: { id: invitation.inviterId },
-                data: {
-                  coins: { increment: SIGNUP_BONUS_COINS },
-                },
+              await applyCoinChange(tx, {
+                userId: invitation.inviterId,
+                amount: SIGNUP_BONUS_COINS,
+                reason: "signup_bonus",
+                description: `${user.email} signed up`,
+                invitationId: invitation.id,
               });
             }
 
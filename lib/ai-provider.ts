@@ -0,0 +1,663 @@
+import { generateText, LanguageModel, LanguageModelUsage, NoObjectGeneratedError, Output } from "ai";
+import { z } from "zod";
+import { TokenUsageData } from "./token-usage";
+
+/**
+ * Supported AI providers.
+ * "none" disables AI for an operation (bug injection falls back to the offline mutation engine).
+ */
+export type AIProvider = "anthropic" | "ollama" | "openai-compatible" | "none";
+
+/**
+ * Operations that can be routed to their own provider and model.
+ * Each operation reads `AI_<OPERATION>_PROVIDER` / `AI_<OPERATION>_MODEL` overrides.
+ */
+export type AIOperation = "stress" | "analyze";
+
+/** A concrete provider + model pair that an operation is routed to */
+export interface AIModelRoute {
+  provider: AIProvider;
+  model: string;
+}
+
+/** Default model used for Anthropic when no model is configured */
+const DEFAULT_ANTHROPIC_MODEL = "claude-sonnet-4-20250514";
+
+/** Default number of retries for transient failures (rate limits, 5xx, network errors) */
+const DEFAULT_MAX_RETRIES = 2;
+
+/** Default number of re-asks when a structured response is malformed or truncated */
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+/** Maximum characters of a rejected response echoed back in a repair prompt */
+const REPAIR_PREVIEW_CHARS = 2000;
+
+/**
+ * Custom error class for AI provider configuration and call failures.
+ */
+export class AIProviderError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "AIProviderError";
+  }
+}
+
+/**
+ * Parses a provider name from an environment variable value.
+ *
+ * @param value - Raw environment variable value
+ * @returns The provider, or null if the value is empty or unknown
+ */
+function parseProvider(value: string | undefined): AIProvider | null {
+  const normalized = value?.trim().toLowerCase();
+  if (
+    normalized === "anthropic" ||
+    normalized === "ollama" ||
+    normalized === "openai-compatible" ||
+    normalized === "none"
+  ) {
+    return normalized;
+  }
+  return null;
+}
+
+/**
+ * Resolves the default AI provider based on environment variables.
+ * Priority: AI_PROVIDER env var > auto-detect based on available keys > anthropic
+ *
+ * @returns The configured default AI provider
+ */
+export function resolveAIProvider(): AIProvider {
+  const explicitProvider = parseProvider(process.env.AI_PROVIDER);
+  if (explicitProvider) return explicitProvider;
+
+  // Auto-detect based on available configuration
+  if (process.env.AI_MODEL && !process.env.ANTHROPIC_API_KEY) return "ollama";
+  if (process.env.OPENAI_COMPATIBLE_BASE_URL) return "openai-compatible";
+
+  // Default to Anthropic
+  return "anthropic";
+}
+
+/**
+ * Returns the model name to use for a provider when no operation override is set.
+ * AI_MODEL only applies to the default provider so that routing an operation to a
+ * different provider doesn't send it a model name it doesn't know.
+ *
+ * @param provider - The provider to resolve a model for
+ * @returns Model name for the provider
+ */
+function resolveProviderModel(provider: AIProvider): string {
+  const sharedModel = provider === resolveAIProvider() ? process.env.AI_MODEL : undefined;
+
+  switch (provider) {
+    case "ollama":
+      return sharedModel || "llama3";
+    case "openai-compatible":
+      return process.env.OPENAI_COMPATIBLE_MODEL || sharedModel || "default";
+    case "none":
+      return "none";
+    case "anthropic":
+    default:
+      return sharedModel || DEFAULT_ANTHROPIC_MODEL;
+  }
+}
+
+/**
+ * Resolves the ordered list of provider/model routes for an operation.
+ * The first route is the primary; an optional fallback follows it.
+ *
+ * Environment variables (operation-specific values win over shared ones):
+ * - AI_<OP>_PROVIDER / AI_<OP>_MODEL: primary route for the operation
+ * - AI_<OP>_FALLBACK_PROVIDER / AI_<OP>_FALLBACK_MODEL: fallback for the operation
+ * - AI_FALLBACK_PROVIDER / AI_FALLBACK_MODEL: fallback for every operation
+ *
+ * @param operation - The operation being performed
+ * @returns Routes to try in order (duplicates removed)
+ */
+export function resolveModelRoutes(operation: AIOperation): AIModelRoute[] {
+  const prefix = `AI_${operation.toUpperCase()}`;
+
+  const primaryProvider = parseProvider(process.env[`${prefix}_PROVIDER`]) ?? resolveAIProvider();
+  const primary: AIModelRoute = {
+    provider: primaryProvider,
+    model: process.env[`${prefix}_MODEL`] || resolveProviderModel(primaryProvider),
+  };
+
+  const routes = [primary];
+
+  const fallbackProvider =
+    parseProvider(process.env[`${prefix}_FALLBACK_PROVIDER`]) ??
+    parseProvider(process.env.AI_FALLBACK_PROVIDER);
+
+  if (fallbackProvider) {
+    const fallback: AIModelRoute = {
+      provider: fallbackProvider,
+      model:
+        process.env[`${prefix}_FALLBACK_MODEL`] ||
+        process.env.AI_FALLBACK_MODEL ||
+        resolveProviderModel(fallbackProvider),
+    };
+
+    if (fallback.provider !== primary.provider || fallback.model !== primary.model) {
+      routes.push(fallback);
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Checks whether AI is disabled for an operation (its primary route is AI_PROVIDER=none).
+ *
+ * @param operation - The operation being performed
+ * @returns True if the operation must not call an AI model
+ */
+export function isAIDisabled(operation: AIOperation): boolean {
+  return resolveModelRoutes(operation)[0].provider === "none";
+}
+
+/**
+ * Reads the configured retry count for transient failures.
+ *
+ * @returns Number of retries per route (AI_MAX_RETRIES, default 2)
+ */
+function resolveMaxRetries(): number {
+  const parsed = parseInt(process.env.AI_MAX_RETRIES || "", 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_MAX_RETRIES;
+}
+
+/**
+ * Loads the OpenAI-compatible SDK factory (used for Ollama and generic servers).
+ *
+ * @param label - Provider label for error messages
+ * @returns The createOpenAICompatible factory
+ * @throws AIProviderError if the SDK is not installed
+ */
+async function loadOpenAICompatible(label: string) {
+  try {
+    const compatModule = await import("@ai-sdk/openai-compatible");
+    return compatModule.createOpenAICompatible;
+  } catch (error) {
+    throw new AIProviderError(
+      `OpenAI Compatible SDK not available${label ? ` for ${label}` : ""}. Please ensure @ai-sdk/openai-compatible is installed.`,
+      error
+    );
+  }
+}
+
+/**
+ * Checks that Ollama is reachable and warns if the requested model isn't pulled.
+ * Never throws - a failed health check only produces warnings.
+ *
+ * @param baseURL - Ollama OpenAI-compatible base URL
+ * @param model - Requested model name
+ */
+async function checkOllamaHealth(baseURL: string, model: string): Promise<void> {
+  try {
+    const healthCheck = await fetch(`${baseURL.replace("/v1", "")}/api/tags`, {
+      method: "GET",
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!healthCheck.ok) {
+      console.warn(`Ollama health check returned status ${healthCheck.status}`);
+      return;
+    }
+
+    const data = await healthCheck.json();
+    const availableModels: string[] = data.models?.map((m: { name: string }) => m.name) || [];
+    console.log(`Ollama available models: ${availableModels.join(", ") || "none"}`);
+
+    // Check if requested model is available
+    const modelBase = model.split(":")[0];
+    if (!availableModels.some((m) => m.startsWith(modelBase))) {
+      console.warn(`WARNING: Model "${model}" may not be available. Available: ${availableModels.join(", ")}`);
+      console.warn(`Run 'ollama pull ${model}' to download the model first.`);
+    }
+  } catch (healthError) {
+    console.warn(`Could not reach Ollama at ${baseURL}:`, healthError instanceof Error ? healthError.message : healthError);
+    console.warn(`Make sure Ollama is running with 'ollama serve' or the Ollama app is open.`);
+  }
+}
+
+/**
+ * Creates a language model instance for a provider/model route.
+ * Supports Anthropic (default), Ollama, and OpenAI-compatible local servers.
+ *
+ * @param route - Provider and model to instantiate
+ * @returns Language model instance
+ * @throws AIProviderError if the provider is misconfigured or its SDK is unavailable
+ */
+export async function createLanguageModel(route: AIModelRoute): Promise<LanguageModel> {
+  const { provider, model } = route;
+
+  switch (provider) {
+    case "none":
+      throw new AIProviderError("AI is disabled (AI_PROVIDER=none). Configure a provider to use AI features.");
+
+    case "ollama": {
+      const createOpenAICompatible = await loadOpenAICompatible("Ollama");
+      const baseURL = process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1";
+
+      console.log(`Ollama config: baseURL=${baseURL}, model=${model}`);
+      await checkOllamaHealth(baseURL, model);
+
+      const ollama = createOpenAICompatible({
+        name: "ollama",
+        baseURL,
+        headers: {
+          Authorization: "Bearer ollama", // Ollama doesn't need a real key
+        },
+      });
+
+      return ollama.chatModel(model);
+    }
+
+    case "openai-compatible": {
+      // Generic OpenAI-compatible servers (LM Studio, LocalAI, vLLM, etc.)
+      const createOpenAICompatible = await loadOpenAICompatible("");
+
+      const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+      if (!baseURL) {
+        throw new AIProviderError(
+          "OPENAI_COMPATIBLE_BASE_URL environment variable is required for openai-compatible provider."
+        );
+      }
+
+      const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed";
+
+      const openaiCompatible = createOpenAICompatible({
+        name: "openai-compatible",
+        baseURL,
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+        },
+      });
+
+      return openaiCompatible.chatModel(model);
+    }
+
+    case "anthropic":
+    default: {
+      // Validate API key is set before attempting to use Anthropic
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new AIProviderError(
+          "ANTHROPIC_API_KEY environment variable is not set. " +
+          "Please add it to your .env.local file. " +
+          "Check for typos - the variable must be named exactly 'ANTHROPIC_API_KEY'."
+        );
+      }
+
+      // Check for common key format issues
+      if (apiKey.length < 20) {
+        throw new AIProviderError(
+          "ANTHROPIC_API_KEY appears to be invalid (too short). " +
+          "Please check your API key is correctly copied from the Anthropic console."
+        );
+      }
+
+      let anthropicModule: typeof import("@ai-sdk/anthropic");
+      try {
+        anthropicModule = await import("@ai-sdk/anthropic");
+      } catch (error) {
+        throw new AIProviderError(
+          "AI SDK not available. Please ensure @ai-sdk/anthropic is installed.",
+          error
+        );
+      }
+
+      return anthropicModule.anthropic(model);
+    }
+  }
+}
+
+/**
+ * Converts AI SDK usage into the token usage shape used for cost tracking.
+ *
+ * @param usage - Usage reported by the AI SDK (AI SDK v6 uses inputTokens/outputTokens)
+ * @returns Normalized token usage, or null if not reported
+ */
+function toTokenUsage(usage: LanguageModelUsage | undefined): TokenUsageData | null {
+  if (!usage) return null;
+  return {
+    inputTokens: usage.inputTokens || 0,
+    outputTokens: usage.outputTokens || 0,
+    totalTokens: usage.totalTokens || 0,
+  };
+}
+
+/**
+ * Adds two token usage records together, treating null as zero.
+ *
+ * @param a - First usage record
+ * @param b - Second usage record
+ * @returns Combined usage, or null if both are null
+ */
+function addTokenUsage(a: TokenUsageData | null, b: TokenUsageData | null): TokenUsageData | null {
+  if (!a) return b;
+  if (!b) return a;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+/**
+ * Runs a generation callback against each route for an operation until one succeeds.
+ *
+ * Transient failures (rate limits, 5xx responses, dropped connections) are retried
+ * by the AI SDK inside the callback. If a route still fails - or its model can't be
+ * created at all - the next (fallback) route is tried.
+ *
+ * @param operation - Operation being performed
+ * @param logPrefix - Prefix for log lines
+ * @param run - Callback that performs the generation with a created model
+ * @returns The callback's result from the first successful route
+ * @throws AIProviderError if every route fails
+ */
+async function runWithRoutes<T>(
+  operation: AIOperation,
+  logPrefix: string,
+  run: (model: LanguageModel, route: AIModelRoute) => Promise<T>
+): Promise<T> {
+  const routes = resolveModelRoutes(operation);
+  let lastError: unknown = null;
+
+  for (const [index, route] of routes.entries()) {
+    const label = `${route.provider}/${route.model}`;
+
+    try {
+      console.log(`${logPrefix} Using AI provider: ${label}${index > 0 ? " (fallback)" : ""}`);
+      const model = await createLanguageModel(route);
+      return await run(model, route);
+    } catch (error) {
+      lastError = error;
+      console.error(`${logPrefix} AI route ${label} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const lastMessage = lastError instanceof Error ? lastError.message : "Unknown error";
+  throw new AIProviderError(
+    routes.length > 1
+      ? `All AI providers failed for ${operation}. Last error: ${lastMessage}`
+      : lastMessage,
+    lastError
+  );
+}
+
+/**
+ * Options for generating text through the provider registry.
+ */
+export interface GenerateAITextOptions {
+  /** Operation being performed - selects the provider/model route */
+  operation: AIOperation;
+  /** Prompt to send to the model */
+  prompt: string;
+  /** Prefix for log lines (e.g., "[Analyze]") */
+  logPrefix?: string;
+}
+
+/**
+ * Result of a registry text generation, including which route produced it.
+ */
+export interface GenerateAITextResult {
+  text: string;
+  finishReason: string;
+  /** Token usage data for cost tracking (null if not available) */
+  usage: TokenUsageData | null;
+  /** AI provider that produced the response */
+  provider: AIProvider;
+  /** AI model that produced the response */
+  model: string;
+}
+
+/**
+ * Generates free-form text for an operation using its configured provider route.
+ * Retries transient failures and falls back to the secondary route (see runWithRoutes).
+ *
+ * @param options - Operation, prompt and logging options
+ * @returns Generated text with usage and the route that produced it
+ * @throws AIProviderError if every route fails
+ */
+export async function generateAIText(options: GenerateAITextOptions): Promise<GenerateAITextResult> {
+  const { operation, prompt, logPrefix = "[AI]" } = options;
+  const maxRetries = resolveMaxRetries();
+
+  return runWithRoutes(operation, logPrefix, async (model, route) => {
+    const { text, finishReason, usage } = await generateText({
+      model,
+      prompt,
+      maxRetries,
+    });
+
+    return {
+      text,
+      finishReason,
+      usage: toTokenUsage(usage),
+      provider: route.provider,
+      model: route.model,
+    };
+  });
+}
+
+/**
+ * Options for generating a schema-validated object through the provider registry.
+ */
+export interface GenerateAIObjectOptions<T> extends GenerateAITextOptions {
+  /** Zod schema the response must satisfy */
+  schema: z.ZodType<T>;
+  /** Name of the output object (passed to providers that support named schemas) */
+  schemaName?: string;
+  /** How many times to re-ask after a malformed or truncated response (default 2) */
+  maxRepairAttempts?: number;
+  /**
+   * Optional semantic check run on schema-valid objects.
+   * Return a description of the problem to re-ask the model with it, or null to accept.
+   */
+  validate?: (object: T) => string | null;
+}
+
+/**
+ * Result of a structured generation, including how many repairs it took.
+ */
+export interface GenerateAIObjectResult<T> {
+  /** The validated object */
+  object: T;
+  /** Token usage summed across every attempt (null if not available) */
+  usage: TokenUsageData | null;
+  /** AI provider that produced the response */
+  provider: AIProvider;
+  /** AI model that produced the response */
+  model: string;
+  /** Number of repair re-asks that were needed (0 if the first response was valid) */
+  repairAttempts: number;
+}
+
+/**
+ * Pulls a JSON object out of text that may be wrapped in markdown fences or prose.
+ *
+ * @param text - Raw model output
+ * @returns The JSON substring, or null if no object-like text was found
+ */
+function extractJsonText(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : null;
+}
+
+/**
+ * Attempts a lenient local recovery of a response the SDK couldn't parse
+ * (e.g., JSON wrapped in a markdown fence or preceded by a sentence).
+ *
+ * @param text - Raw model output
+ * @param schema - Schema the object must satisfy
+ * @returns The validated object, or null if recovery failed
+ */
+function recoverObject<T>(text: string | undefined, schema: z.ZodType<T>): T | null {
+  const jsonText = text ? extractJsonText(text) : null;
+  if (!jsonText) return null;
+
+  try {
+    const result = schema.safeParse(JSON.parse(jsonText));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Describes why a structured response was rejected, in terms the model can act on.
+ *
+ * @param error - The NoObjectGeneratedError thrown by the AI SDK
+ * @returns Human-readable failure description
+ */
+function describeObjectFailure(error: NoObjectGeneratedError): string {
+  const cause = error.cause;
+  if (cause instanceof z.ZodError) {
+    return cause.issues
+      .slice(0, 10)
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+  }
+  if (cause instanceof Error) {
+    // TypeValidationError wraps the ZodError one level deeper
+    const inner = (cause as Error & { cause?: unknown }).cause;
+    if (inner instanceof z.ZodError) {
+      return inner.issues
+        .slice(0, 10)
+        .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+        .join("; ");
+    }
+    return cause.message;
+  }
+  return error.message;
+}
+
+/**
+ * Builds a re-ask prompt after a malformed or truncated structured response.
+ *
+ * @param originalPrompt - The prompt that produced the rejected response
+ * @param rejectedText - The rejected response text
+ * @param failure - Why the response was rejected
+ * @param truncated - Whether the response was cut off by the output token limit
+ * @returns Prompt for the repair attempt
+ */
+function buildRepairPrompt(
+  originalPrompt: string,
+  rejectedText: string,
+  failure: string,
+  truncated: boolean
+): string {
+  const preview = rejectedText.length > REPAIR_PREVIEW_CHARS
+    ? `${rejectedText.substring(0, REPAIR_PREVIEW_CHARS)}\n... [${rejectedText.length - REPAIR_PREVIEW_CHARS} more characters]`
+    : rejectedText;
+
+  const guidance = truncated
+    ? "Your previous response was cut off before the JSON object was complete. Respond again with the COMPLETE JSON object. Keep descriptions concise so the whole object fits."
+    : "Your previous response could not be used. Fix the problem described below and respond again with ONLY a JSON object that matches the required format exactly.";
+
+  return `${originalPrompt}
+
+---
+
+${guidance}
+
+Problem with the previous response: ${failure}
+
+Previous response (for reference):
+"""
+${preview}
+"""`;
+}
+
+/**
+ * Generates a schema-validated object for an operation using its configured provider route.
+ *
+ * The schema is passed to the provider as a structured output format. When a response
+ * is malformed, fails schema or `validate` checks, or is truncated, the model is re-asked
+ * with the error fed back, up to `maxRepairAttempts` times. Only after repairs are
+ * exhausted on a route does the fallback route get a turn.
+ *
+ * @param options - Operation, prompt, schema and repair options
+ * @returns The validated object with summed usage and the route that produced it
+ * @throws AIProviderError if no route produced a valid object
+ */
+export async function generateAIObject<T>(options: GenerateAIObjectOptions<T>): Promise<GenerateAIObjectResult<T>> {
+  const {
+    operation,
+    prompt,
+    schema,
+    schemaName,
+    logPrefix = "[AI]",
+    maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS,
+    validate,
+  } = options;
+  const maxRetries = resolveMaxRetries();
+
+  return runWithRoutes(operation, logPrefix, async (model, route) => {
+    let currentPrompt = prompt;
+    let totalUsage: TokenUsageData | null = null;
+    let lastFailure = "Unknown error";
+
+    for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+      let candidate: T | null = null;
+      let rejectedText = "";
+      let truncated = false;
+
+      try {
+        const result = await generateText({
+          model,
+          prompt: currentPrompt,
+          maxRetries,
+          output: Output.object({ schema, name: schemaName }),
+        });
+        totalUsage = addTokenUsage(totalUsage, toTokenUsage(result.usage));
+        rejectedText = result.text;
+
+        // The SDK only parses output when the model stopped normally
+        if (result.finishReason === "stop") {
+          candidate = result.output;
+        } else {
+          truncated = result.finishReason === "length";
+          lastFailure = `generation ended with finish reason "${result.finishReason}"`;
+        }
+      } catch (error) {
+        if (!NoObjectGeneratedError.isInstance(error)) {
+          throw error;
+        }
+        totalUsage = addTokenUsage(totalUsage, toTokenUsage(error.usage));
+        rejectedText = error.text || "";
+
+        candidate = recoverObject(error.text, schema);
+        if (candidate === null) {
+          lastFailure = describeObjectFailure(error);
+        }
+      }
+
+      if (candidate !== null) {
+        const problem = validate ? validate(candidate) : null;
+        if (!problem) {
+          return {
+            object: candidate,
+            usage: totalUsage,
+            provider: route.provider,
+            model: route.model,
+            repairAttempts: attempt,
+          };
+        }
+        lastFailure = problem;
+      }
+
+      console.warn(`${logPrefix} Invalid structured response (attempt ${attempt + 1}/${maxRepairAttempts + 1}): ${lastFailure}`);
+      currentPrompt = buildRepairPrompt(prompt, rejectedText, lastFailure, truncated);
+    }
+
+    throw new AIProviderError(
+      `AI returned an invalid ${schemaName || "response"} after ${maxRepairAttempts + 1} attempts: ${lastFailure}`
+    );
+  });
+}
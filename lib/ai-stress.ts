@@ -1,179 +1,98 @@
-import { generateText, LanguageModel } from "ai";
-import { BugType, BUG_TYPES } from "./bug-types";
+import { z } from "zod";
+import { BugType, CROSS_FILE_BUG_TYPES } from "./bug-types";
+import { getBugCatalog } from "./language-bug-types";
+import { detectLanguage, LANGUAGE_NAMES } from "./languages";
+import { detectFrameworks } from "./frameworks";
 import { TokenUsageData } from "./token-usage";
+import { generateAIObject, isAIDisabled } from "./ai-provider";
+import { applyEditHunks, EditHunk, locateEditHunks, PatchApplyError } from "./code-patch";
+import { verifyModifiedSyntax } from "./code-verify";
+import { canMutateFile, getMutationBugTypes, introduceMutations, MutationError, MutationResult } from "./mutation-engine";
+import { RandomSource } from "./random";
+import { CrossFileLink, SourceFile } from "./code-graph";
+import { findEnclosingFunction } from "./code-outline";
+import { BugCategoryFilter, filterBugTypesByCategory, hasCategoryFilter } from "./bug-categories";
+import { SYMPTOM_GUIDELINES, SymptomCheck, verifySymptoms } from "./symptom-verification";
 
-/** Stress level configuration */
-type StressLevel = "low" | "medium" | "high";
+/**
+ * Schema the bug injection response must satisfy.
+ * Responses that don't match are sent back to the model for repair.
+ */
+const stressResponseSchema = z.object({
+  edits: z
+    .array(
+      z.object({
+        bug: z.number().int().min(1).describe("Number of the BUG (from the list) this edit introduces"),
+        search: z.string().min(1).describe("Exact snippet copied from the original file; must match exactly one location"),
+        replace: z.string().describe("Text that replaces the snippet"),
+      })
+    )
+    .min(1)
+    .describe("Anchored search/replace edits that introduce the bugs"),
+  changes: z.array(z.string().min(1)).min(1).describe("Technical description of each bug introduced"),
+  symptoms: z.array(z.string().min(1)).describe("QA-style bug report for each bug"),
+});
 
-/** Supported AI providers */
-type AIProvider = "anthropic" | "ollama" | "openai-compatible";
+/**
+ * Schema the cross-file bug injection response must satisfy.
+ * Same as the single-file schema, but every edit names the file it applies to.
+ */
+const crossFileResponseSchema = z.object({
+  edits: z
+    .array(
+      z.object({
+        file: z.string().min(1).describe("Path of the file this edit applies to (one of the two given files)"),
+        bug: z.number().int().min(1).describe("Number of the BUG (from the list) this edit introduces"),
+        search: z.string().min(1).describe("Exact snippet copied from that file; must match exactly one location"),
+        replace: z.string().describe("Text that replaces the snippet"),
+      })
+    )
+    .min(1)
+    .describe("Anchored search/replace edits that introduce the bugs"),
+  changes: z.array(z.string().min(1)).min(1).describe("Technical description of each bug introduced"),
+  symptoms: z.array(z.string().min(1)).describe("QA-style bug report for each bug"),
+});
 
 /**
- * Resolves the AI provider to use based on environment variables.
- * Priority: AI_PROVIDER env var > auto-detect based on available keys > anthropic
- * 
- * @returns The configured AI provider
+ * Schema for symptoms written by the AI for bugs the mutation engine introduced.
  */
-function resolveAIProvider(): AIProvider {
-  const explicitProvider = process.env.AI_PROVIDER?.toLowerCase();
-  
-  if (explicitProvider === "ollama") return "ollama";
-  if (explicitProvider === "openai-compatible") return "openai-compatible";
-  if (explicitProvider === "anthropic") return "anthropic";
-  
-  // Auto-detect based on available configuration
-  if (process.env.AI_PROVIDER === "ollama" || (process.env.AI_MODEL && process.env.AI_PROVIDER !== "anthropic" && !process.env.ANTHROPIC_API_KEY)) return "ollama";
-  if (process.env.OPENAI_COMPATIBLE_BASE_URL) return "openai-compatible";
-  
-  // Default to Anthropic
-  return "anthropic";
+const mutationSymptomsSchema = z.object({
+  symptoms: z.array(z.string().min(1)).min(1).describe("QA-style bug report for each bug, in the same order"),
+});
+
+/**
+ * How bugs are introduced:
+ * - "ai": the AI edits the code and writes symptoms (default)
+ * - "mutation": the offline AST mutation engine edits the code; symptoms come from the bug catalog
+ * - "hybrid": the mutation engine edits the code; the AI only writes symptoms
+ */
+export type StressEngine = "ai" | "mutation" | "hybrid";
+
+/**
+ * Resolves the bug injection engine from STRESS_ENGINE.
+ * When AI is disabled for bug injection (AI_PROVIDER=none), the mutation engine is always used.
+ *
+ * @returns The engine to use
+ */
+export function resolveStressEngine(): StressEngine {
+  if (isAIDisabled("stress")) return "mutation";
+
+  const engine = process.env.STRESS_ENGINE?.trim().toLowerCase();
+  if (engine === "mutation" || engine === "hybrid") return engine;
+  return "ai";
 }
 
+/** Stress level configuration */
+type StressLevel = "low" | "medium" | "high";
+
 /**
- * Creates the appropriate language model based on the configured provider.
- * Supports Anthropic (default), Ollama, and OpenAI-compatible local servers.
- * 
- * @returns Language model instance for the configured provider
- * @throws AIStressError if the provider dependencies are not available
+ * Extra steering for which bug types are selected.
  */
-async function createLanguageModel(): Promise<LanguageModel> {
-  const provider = resolveAIProvider();
-  console.log("Using AI provider:", provider);
-  switch (provider) {
-    case "ollama": {
-      // Ollama uses @ai-sdk/openai-compatible for proper AI SDK 5 support
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let createOpenAICompatible: any;
-      try {
-        const compatModule = await import("@ai-sdk/openai-compatible");
-        createOpenAICompatible = compatModule.createOpenAICompatible;
-      } catch (error) {
-        throw new AIStressError(
-          "OpenAI Compatible SDK not available for Ollama. Please ensure @ai-sdk/openai-compatible is installed.",
-          error
-        );
-      }
-      
-      const baseURL = process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1";
-      const model = process.env.AI_MODEL || "llama3";
-      
-      console.log(`Ollama config: baseURL=${baseURL}, model=${model}`);
-      
-      // Verify Ollama is reachable before creating the model
-      try {
-        const healthCheck = await fetch(`${baseURL.replace('/v1', '')}/api/tags`, {
-          method: 'GET',
-          signal: AbortSignal.timeout(5000),
-        });
-        if (!healthCheck.ok) {
-          console.warn(`Ollama health check returned status ${healthCheck.status}`);
-        } else {
-          const data = await healthCheck.json();
-          const availableModels = data.models?.map((m: { name: string }) => m.name) || [];
-          console.log(`Ollama available models: ${availableModels.join(', ') || 'none'}`);
-          
-          // Check if requested model is available
-          const modelBase = model.split(':')[0];
-          const hasModel = availableModels.some((m: string) => m.startsWith(modelBase));
-          if (!hasModel) {
-            console.warn(`WARNING: Model "${model}" may not be available. Available: ${availableModels.join(', ')}`);
-            console.warn(`Run 'ollama pull ${model}' to download the model first.`);
-          }
-        }
-      } catch (healthError) {
-        console.warn(`Could not reach Ollama at ${baseURL}:`, healthError instanceof Error ? healthError.message : healthError);
-        console.warn(`Make sure Ollama is running with 'ollama serve' or the Ollama app is open.`);
-      }
-      
-      const ollama = createOpenAICompatible({
-        name: "ollama",
-        baseURL,
-        headers: {
-          Authorization: "Bearer ollama", // Ollama doesn't need a real key
-        },
-      });
-      
-      return ollama.chatModel(model);
-    }
-    
-    case "openai-compatible": {
-      // Generic OpenAI-compatible servers (LM Studio, LocalAI, vLLM, etc.)
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let createOpenAICompatible: any;
-      try {
-        const compatModule = await import("@ai-sdk/openai-compatible");
-        createOpenAICompatible = compatModule.createOpenAICompatible;
-      } catch (error) {
-        throw new AIStressError(
-          "OpenAI Compatible SDK not available. Please ensure @ai-sdk/openai-compatible is installed.",
-          error
-        );
-      }
-      
-      const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
-      if (!baseURL) {
-        throw new AIStressError(
-          "OPENAI_COMPATIBLE_BASE_URL environment variable is required for openai-compatible provider."
-        );
-      }
-      
-      const model = process.env.OPENAI_COMPATIBLE_MODEL || "default";
-      const apiKey = process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed";
-      
-      const openaiCompatible = createOpenAICompatible({
-        name: "openai-compatible",
-        baseURL,
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-        },
-      });
-      
-      return openaiCompatible.chatModel(model);
-    }
-    
-    case "anthropic":
-    default: {
-      // Validate API key is set before attempting to use Anthropic
-      const apiKey = process.env.ANTHROPIC_API_KEY;
-      if (!apiKey) {
-        console.error("ANTHROPIC_API_KEY environment variable is not set.");
-        console.error("Available env vars with 'ANTHROP' or 'API':", 
-          Object.keys(process.env).filter(k => 
-            k.toLowerCase().includes('anthrop') || k.toLowerCase().includes('api_key')
-          )
-        );
-        throw new AIStressError(
-          "ANTHROPIC_API_KEY environment variable is not set. " +
-          "Please add it to your .env.local file. " +
-          "Check for typos - the variable must be named exactly 'ANTHROPIC_API_KEY'."
-        );
-      }
-      
-      // Check for common key format issues
-      if (apiKey.length < 20) {
-        throw new AIStressError(
-          "ANTHROPIC_API_KEY appears to be invalid (too short). " +
-          "Please check your API key is correctly copied from the Anthropic console."
-        );
-      }
-      
-      console.log(`Anthropic API key found (${apiKey.length} chars, starts with: ${apiKey.substring(0, 7)}...)`);
-      
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let anthropic: any;
-      try {
-        const anthropicModule = await import("@ai-sdk/anthropic");
-        anthropic = anthropicModule.anthropic;
-      } catch (error) {
-        throw new AIStressError(
-          "AI SDK not available. Please ensure @ai-sdk/anthropic is installed.",
-          error
-        );
-      }
-      
-      return anthropic(process.env.AI_MODEL || "claude-sonnet-4-20250514");
-    }
-  }
+export interface BugSelectionOptions {
+  /** User/org-defined bug types to mix in (see lib/custom-bug-types.ts) */
+  customBugTypes?: BugType[];
+  /** Categories to include/exclude (see lib/bug-categories.ts) */
+  categories?: BugCategoryFilter | null;
 }
 
 interface StressConfig {
@@ -207,10 +126,11 @@ type ModificationMode = "modify_only" | "may_add_sparingly";
  * Randomly selects whether the AI should only modify existing code or may add new code.
  * Weighted 70% towards modify-only to encourage breaking existing code over adding features.
  * 
+ * @param random - Random source (seeded for reproducible challenges)
  * @returns The modification mode for this stress session
  */
-function selectModificationMode(): ModificationMode {
-  return Math.random() < 0.7 ? "modify_only" : "may_add_sparingly";
+function selectModificationMode(random: RandomSource): ModificationMode {
+  return random() < 0.7 ? "modify_only" : "may_add_sparingly";
 }
 
 /**
@@ -246,51 +166,53 @@ If needed, you may add a small amount of code to enable a bug, but keep addition
 
 
 /**
- * Detects the framework/library used in the code based on content and filename.
- * 
- * @param content - File content to analyze
- * @param filename - Filename to check for framework-specific patterns
- * @returns Detected framework(s) as an array (e.g., ["react", "nextjs"])
+ * Gets the bug types that can be selected for a file, after applying language,
+ * framework and category filters.
+ *
+ * @param content - File content for framework detection
+ * @param filename - Filename for language/framework detection
+ * @param selection - Custom bug types and category filter
+ * @returns Framework-specific, general and custom candidates
  */
-function detectFramework(content: string, filename: string): string[] {
-  const frameworks: string[] = [];
-  const lowerContent = content.toLowerCase();
-  const lowerFilename = filename.toLowerCase();
-
-  // React detection
-  if (
-    lowerContent.includes("useState") ||
-    lowerContent.includes("useEffect") ||
-    lowerContent.includes("useCallback") ||
-    lowerContent.includes("useMemo") ||
-    lowerContent.includes("useRef") ||
-    lowerContent.includes("react.") ||
-    lowerContent.includes("from 'react'") ||
-    lowerContent.includes('from "react"') ||
-    lowerFilename.endsWith(".jsx") ||
-    lowerFilename.endsWith(".tsx")
-  ) {
-    frameworks.push("react");
-  }
+function getCandidateBugTypes(content: string, filename: string, selection: BugSelectionOptions) {
+  const language = detectLanguage(filename, content);
+  const catalog = getBugCatalog(language);
+  const detectedFrameworks = detectFrameworks(content, filename).map((framework) => framework.id);
+  const { customBugTypes = [], categories } = selection;
 
-  // Next.js detection
-  if (
-    lowerContent.includes("next/") ||
-    lowerContent.includes("useRouter") ||
-    lowerContent.includes("usePathname") ||
-    lowerContent.includes("useSearchParams") ||
-    lowerContent.includes("getServerSideProps") ||
-    lowerContent.includes("getStaticProps") ||
-    lowerContent.includes("metadata") ||
-    lowerContent.includes("generateMetadata") ||
-    lowerFilename.includes("page.tsx") ||
-    lowerFilename.includes("layout.tsx") ||
-    lowerFilename.includes("route.ts")
-  ) {
-    frameworks.push("nextjs");
-  }
+  return {
+    detectedFrameworks,
+    frameworkBugs: filterBugTypesByCategory(
+      catalog.filter((bug) => bug.framework && detectedFrameworks.includes(bug.framework)),
+      categories
+    ),
+    generalBugs: filterBugTypesByCategory(catalog.filter((bug) => !bug.framework), categories),
+    // Custom bug types that apply to this file's language and frameworks
+    customBugs: filterBugTypesByCategory(
+      customBugTypes.filter((bug) =>
+        (!bug.language || bug.language === language) &&
+        (!bug.framework || detectedFrameworks.includes(bug.framework))
+      ),
+      categories
+    ),
+  };
+}
 
-  return frameworks;
+/**
+ * Counts how many distinct bug types could be introduced into a file with the given selection.
+ * Used to reject category selections that can't be satisfied before any AI call.
+ *
+ * @param content - File content
+ * @param filename - File path
+ * @param selection - Custom bug types and category filter
+ * @returns Number of distinct bug types available
+ */
+export function countAvailableBugTypes(content: string, filename: string, selection: BugSelectionOptions): number {
+  if (resolveStressEngine() !== "ai" && canMutateFile(filename)) {
+    return filterBugTypesByCategory(getMutationBugTypes(), selection.categories).length;
+  }
+  const { frameworkBugs, generalBugs, customBugs } = getCandidateBugTypes(content, filename, selection);
+  return frameworkBugs.length + generalBugs.length + customBugs.length;
 }
 
 /**
@@ -299,36 +221,44 @@ function detectFramework(content: string, filename: string): string[] {
  * 
  * Any bug type can be selected regardless of stress level - difficulty comes from
  * the number of bugs and how they're implemented (abstraction layers, helper functions, etc.).
+ * Bug types are drawn from the catalog for the file's language (see lib/language-bug-types.ts).
  * Framework-specific bugs are prioritized when the framework is detected.
+ * Custom bug types (see lib/custom-bug-types.ts) that apply to the file fill up to
+ * half of the slots; the rest come from the built-in catalog. Only categories the
+ * category filter allows are selected.
  * 
  * @param count - Number of bug types to select
  * @param content - File content for framework detection
  * @param filename - Filename for framework detection
- * @param _stressLevel - Stress level (unused, kept for API compatibility)
+ * @param random - Random source (seeded for reproducible challenges)
+ * @param selection - Custom bug types to mix in and category filter
  * @returns Array of randomly selected bug types
  */
-function selectRandomBugTypes(count: number, content: string, filename: string, _stressLevel: StressLevel): BugType[] {
-  // Detect framework
-  const detectedFrameworks = detectFramework(content, filename);
-  
-  // Separate framework-specific bugs from general bugs
-  const frameworkBugs = BUG_TYPES.filter(bug => 
-    bug.framework && detectedFrameworks.includes(bug.framework)
-  );
-  const generalBugs = BUG_TYPES.filter(bug => !bug.framework);
+function selectRandomBugTypes(
+  count: number,
+  content: string,
+  filename: string,
+  random: RandomSource,
+  selection: BugSelectionOptions = {}
+): BugType[] {
+  const { detectedFrameworks, frameworkBugs, generalBugs, customBugs } = getCandidateBugTypes(content, filename, selection);
+
+  if (customBugs.length > 0 && count > 0) {
+    // Up to half the slots, or more when the (category-filtered) catalog can't fill the rest
+    const catalogCount = frameworkBugs.length + generalBugs.length;
+    const customCount = Math.min(customBugs.length, Math.max(Math.ceil(count / 2), count - catalogCount));
+    const selectedCustomBugs = shuffleArray([...customBugs], random).slice(0, customCount);
+    return [
+      ...selectedCustomBugs,
+      ...selectRandomBugTypes(count - customCount, content, filename, random, {
+        categories: selection.categories,
+      }),
+    ];
+  }
   
   // Shuffle both lists
-  const shuffleArray = <T>(arr: T[]): T[] => {
-    const shuffled = [...arr];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  };
-  
-  const shuffledFrameworkBugs = shuffleArray(frameworkBugs);
-  const shuffledGeneralBugs = shuffleArray(generalBugs);
+  const shuffledFrameworkBugs = shuffleArray([...frameworkBugs], random);
+  const shuffledGeneralBugs = shuffleArray([...generalBugs], random);
   
   // If framework detected and we have framework bugs, do 50/50 split
   const shouldDoBalancedSplit = detectedFrameworks.length > 0 && frameworkBugs.length > 0;
@@ -445,6 +375,34 @@ export class AIStressError extends Error {
   }
 }
 
+/**
+ * One injected bug in the ground-truth bug map (persisted as a BugInstance).
+ */
+export interface InjectedBug {
+  /** File the bug lives in */
+  file: string;
+  /** First line of the buggy code (1-based, in the buggered file) */
+  lineStart: number;
+  /** Last line of the buggy code (inclusive) */
+  lineEnd: number;
+  /** Innermost named function containing the bug (null for top-level code) */
+  functionName: string | null;
+  /** Code before the bug was introduced */
+  originalSnippet: string;
+  /** Code after the bug was introduced */
+  buggySnippet: string;
+  /** BugType.id of the bug */
+  bugTypeId: string;
+  /** BugType.category of the bug */
+  category: string;
+  /** Technical description of the change */
+  description: string | null;
+  /** Symptom this bug maps to */
+  symptom: string | null;
+  /** Result of the symptom verification pass (absent when it didn't run) */
+  symptomCheck?: SymptomCheck;
+}
+
 /**
  * Result from AI stress generation including token usage for cost tracking.
  */
@@ -452,6 +410,8 @@ export interface AIStressResult {
   content: string;
   changes: string[];
   symptoms: string[];
+  /** Where each bug was planted (one entry per bug and file it touches) */
+  bugs: InjectedBug[];
   /** Token usage data for cost tracking (null if not available) */
   usage: TokenUsageData | null;
   /** AI provider used */
@@ -460,17 +420,279 @@ export interface AIStressResult {
   model: string;
 }
 
+/**
+ * Checks that every edit refers to one of the requested bugs.
+ *
+ * @param edits - Edits returned by the AI
+ * @param bugCount - Number of bugs that were requested
+ * @returns Error message for the repair prompt, or null if all edits are valid
+ */
+function validateEditBugNumbers(edits: { bug: number }[], bugCount: number): string | null {
+  const invalid = edits.findIndex((edit) => edit.bug > bugCount);
+  return invalid === -1
+    ? null
+    : `Edit ${invalid + 1} refers to BUG ${edits[invalid].bug}, but only ${bugCount} bug(s) were requested`;
+}
+
+/**
+ * Builds the bug map for one file from the edits that were applied to it.
+ * Edits are grouped by the bug they introduce; the Nth bug maps to the Nth
+ * requested bug type, change description and symptom.
+ *
+ * @param file - The file (original content) the edits apply to
+ * @param edits - Edits for this file, each tagged with its bug number
+ * @param bugTypes - Requested bug types, in order
+ * @param changes - Technical descriptions returned by the AI, in bug order
+ * @param symptoms - Symptoms returned by the AI, in bug order
+ * @returns One entry per bug that touched the file
+ */
+function mapEditsToBugs(
+  file: SourceFile,
+  edits: (EditHunk & { bug: number })[],
+  bugTypes: BugType[],
+  changes: string[],
+  symptoms: string[]
+): InjectedBug[] {
+  const locations = locateEditHunks(file.content, edits);
+  const patched = applyEditHunks(file.content, edits);
+  const bugNumbers = [...new Set(edits.map((edit) => edit.bug))].sort((a, b) => a - b);
+
+  return bugNumbers.map((bugNumber) => {
+    const bugLocations = locations.filter((_, index) => edits[index].bug === bugNumber);
+    const bugType = bugTypes[bugNumber - 1];
+    const lineStart = Math.min(...bugLocations.map((location) => location.lineStart));
+    return {
+      file: file.path,
+      lineStart,
+      lineEnd: Math.max(...bugLocations.map((location) => location.lineEnd)),
+      functionName: findEnclosingFunction(patched, file.path, lineStart),
+      originalSnippet: bugLocations.map((location) => location.original).join("\n...\n"),
+      buggySnippet: bugLocations.map((location) => location.replacement).join("\n...\n"),
+      bugTypeId: bugType.id,
+      category: bugType.category,
+      description: changes[bugNumber - 1] ?? null,
+      symptom: symptoms[bugNumber - 1] ?? null,
+    };
+  });
+}
+
+/**
+ * Builds the bug map for bugs the mutation engine introduced.
+ *
+ * @param filename - The mutated file
+ * @param mutation - Result of the mutation engine
+ * @param symptoms - Symptoms, one per mutation
+ * @returns One entry per mutation
+ */
+function mapMutationsToBugs(filename: string, mutation: MutationResult, symptoms: string[]): InjectedBug[] {
+  return mutation.mutations.map((applied, index) => ({
+    file: filename,
+    lineStart: applied.line,
+    lineEnd: applied.line + applied.after.split("\n").length - 1,
+    functionName: findEnclosingFunction(mutation.content, filename, applied.line),
+    originalSnippet: applied.before,
+    buggySnippet: applied.after,
+    bugTypeId: applied.bugTypeId,
+    category: mutation.bugTypes[index].category,
+    description: mutation.changes[index] ?? null,
+    symptom: symptoms[index] ?? null,
+  }));
+}
+
+/**
+ * Adds two token usage records (either may be missing).
+ *
+ * @param a - First usage
+ * @param b - Second usage
+ * @returns Combined usage, or null if neither is available
+ */
+function sumUsage(a: TokenUsageData | null, b: TokenUsageData | null): TokenUsageData | null {
+  if (!a || !b) return a ?? b;
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
+
+/**
+ * Runs the symptom verification pass (see lib/symptom-verification.ts) on an injection result:
+ * failing symptoms are replaced, each bug records its check, and the verification's
+ * token usage is added to the result's.
+ *
+ * @param result - Injection result whose symptoms were written by the AI
+ * @returns The result with verified symptoms
+ */
+async function withVerifiedSymptoms<T extends Pick<AIStressResult, "changes" | "symptoms" | "bugs" | "usage">>(
+  result: T
+): Promise<T> {
+  const subjects = result.symptoms.map((symptom, index) => {
+    const bugs = result.bugs.filter((bug) => bug.symptom === symptom);
+    return {
+      symptom,
+      change: result.changes[index] ?? null,
+      files: [...new Set(bugs.map((bug) => bug.file))],
+      originalSnippets: bugs.map((bug) => bug.originalSnippet),
+      buggySnippets: bugs.map((bug) => bug.buggySnippet),
+    };
+  });
+
+  const verification = await verifySymptoms(subjects);
+  const usage = verification.usage.reduce((total, call) => sumUsage(total, call.usage), result.usage);
+
+  return {
+    ...result,
+    symptoms: verification.symptoms,
+    bugs: result.bugs.map((bug) => {
+      const index = result.symptoms.indexOf(bug.symptom ?? "");
+      return index === -1
+        ? bug
+        : { ...bug, symptom: verification.symptoms[index], symptomCheck: verification.checks[index] };
+    }),
+    usage,
+  };
+}
+
+/**
+ * Asks the AI to write QA-style symptoms for bugs the mutation engine introduced.
+ *
+ * @param originalContent - File content before mutation
+ * @param filename - Name of the file
+ * @param mutation - Result of the mutation engine
+ * @returns Symptoms (one per bug) with usage and the route that wrote them
+ */
+async function writeMutationSymptoms(originalContent: string, filename: string, mutation: MutationResult) {
+  const lines = originalContent.split("\n");
+  const bugDescriptions = mutation.mutations
+    .map((applied, index) => {
+      // Show a few lines of surrounding code so the AI can infer what the user sees
+      const from = Math.max(0, applied.line - 4);
+      const to = Math.min(lines.length, applied.line + 3);
+      return `BUG ${index + 1}: ${mutation.bugTypes[index].name}
+Changed \`${applied.before}\` to \`${applied.after}\` on line ${applied.line}.
+Surrounding original code:
+\`\`\`
+${lines.slice(from, to).join("\n")}
+\`\`\`
+Example symptom for this kind of bug: "${mutation.bugTypes[index].sampleSymptom}"`;
+    })
+    .join("\n\n");
+
+  const prompt = `You are a QA tester writing bug reports for a debugging training game.
+The following bugs were introduced into ${filename}. Write exactly ${mutation.mutations.length} symptom(s), one per bug, in the same order.
+
+${bugDescriptions}
+
+Here is the full original file for context:
+
+FILENAME: ${filename}
+\`\`\`
+${originalContent}
+\`\`\`
+
+Respond with ONLY a JSON object in this exact format (no markdown, no explanation):
+{
+  "symptoms": ["Detailed bug report 1", "Detailed bug report 2"]
+}
+
+${SYMPTOM_GUIDELINES}`;
+
+  const { object, usage, provider, model } = await generateAIObject({
+    operation: "stress",
+    prompt,
+    schema: mutationSymptomsSchema,
+    schemaName: "symptoms",
+    validate: (response) =>
+      response.symptoms.length === mutation.mutations.length
+        ? null
+        : `Expected exactly ${mutation.mutations.length} symptoms but got ${response.symptoms.length}`,
+  });
+
+  return { symptoms: object.symptoms, usage, provider, model };
+}
+
+/**
+ * Introduces bugs with the offline AST mutation engine (no AI edits the code).
+ * In hybrid mode the AI writes the symptoms; otherwise the bug catalog's sample symptoms are used.
+ *
+ * @param content - Original file content
+ * @param filename - Name of the file
+ * @param bugCount - Number of bugs to introduce
+ * @param aiSymptoms - Whether the AI should write the symptoms (hybrid mode)
+ * @param random - Random source used to pick bug types and sites
+ * @param categories - Optional category filter restricting the bug types used
+ * @returns Modified content with change descriptions and symptoms
+ * @throws AIStressError if the mutation engine can't bugger the file
+ */
+async function introduceMutationStress(
+  content: string,
+  filename: string,
+  bugCount: number,
+  aiSymptoms: boolean,
+  random: RandomSource,
+  categories?: BugCategoryFilter | null
+): Promise<AIStressResult> {
+  const bugTypeIds = hasCategoryFilter(categories)
+    ? filterBugTypesByCategory(getMutationBugTypes(), categories).map((bugType) => bugType.id)
+    : undefined;
+
+  let mutation: MutationResult;
+  try {
+    mutation = introduceMutations(content, filename, { count: bugCount, random, bugTypeIds });
+  } catch (error) {
+    if (error instanceof MutationError) {
+      throw new AIStressError(error.message, error);
+    }
+    throw error;
+  }
+
+  console.log(`Mutation engine applied ${mutation.mutations.length}/${bugCount} bugs: ${mutation.bugTypes.map((b) => b.id).join(", ")}`);
+
+  const sampleSymptoms = mutation.bugTypes.map((b) => b.sampleSymptom);
+  const fallback: AIStressResult = {
+    content: mutation.content,
+    changes: mutation.changes,
+    symptoms: sampleSymptoms,
+    bugs: mapMutationsToBugs(filename, mutation, sampleSymptoms),
+    usage: null,
+    provider: "none",
+    model: "mutation-engine",
+  };
+
+  if (!aiSymptoms) {
+    return fallback;
+  }
+
+  try {
+    const { symptoms, usage, provider, model } = await writeMutationSymptoms(content, filename, mutation);
+    return await withVerifiedSymptoms({ ...fallback, symptoms, bugs: mapMutationsToBugs(filename, mutation, symptoms), usage, provider, model });
+  } catch (error) {
+    // The bugs are already in place - sample symptoms are better than failing the whole run
+    console.warn("AI symptom writing failed, using sample symptoms:", error instanceof Error ? error.message : error);
+    return fallback;
+  }
+}
+
 /**
  * Uses AI to bugger up code with subtle but nasty breaking changes.
  * The changes should be realistic bugs that require debugging skills to find and fix.
  * 
- * Requires ANTHROPIC_API_KEY environment variable to be set.
+ * The provider and model are resolved through the shared AI provider registry
+ * (see lib/ai-provider.ts) using the "stress" operation route. With STRESS_ENGINE set to
+ * "mutation" or "hybrid" (or AI_PROVIDER=none), JS/TS files are buggered by the offline
+ * mutation engine instead (see lib/mutation-engine.ts).
+ * 
+ * The model returns anchored search/replace edits rather than the whole file, which are
+ * applied locally (see lib/code-patch.ts). Edits that don't apply, or that leave the file
+ * unparseable (see lib/code-verify.ts), are sent back for repair with the error included.
  * 
  * @param content - Original file content
  * @param filename - Name of the file
  * @param context - Optional context about what specific areas to focus bugs on (max 200 chars)
  * @param stressLevel - Bug level: "low", "medium", or "high"
  * @param targetBugCount - Optional specific number of bugs to introduce (overrides bug level bug count)
+ * @param random - Random source driving every random choice (seeded for reproducible challenges)
+ * @param selection - Custom bug types to mix in (AI engine only) and category filter
  * @returns Modified content with AI-generated breaking changes, descriptions, symptoms, and usage data
  * @throws AIStressError if AI is unavailable or fails to generate bugs
  */
@@ -479,33 +701,52 @@ export async function introduceAIStress(
   filename: string,
   context?: string,
   stressLevel: StressLevel = "medium",
-  targetBugCount?: number
+  targetBugCount?: number,
+  random: RandomSource = Math.random,
+  selection: BugSelectionOptions = {}
 ): Promise<AIStressResult> {
-  // Create the language model based on configured provider
-  const aiProvider = resolveAIProvider();
-  const model = await createLanguageModel();
-  const modelName = process.env.AI_MODEL || (aiProvider === "anthropic" ? "claude-sonnet-4-20250514" : "unknown");
-
   const config = STRESS_CONFIGS[stressLevel];
 
   // Calculate bug count
   const bugCount = targetBugCount !== undefined 
     ? targetBugCount 
     : config.bugCount;
+
+  const engine = resolveStressEngine();
+  if (engine !== "ai") {
+    if (canMutateFile(filename)) {
+      return introduceMutationStress(content, filename, bugCount, engine === "hybrid", random, selection.categories);
+    }
+    if (engine === "mutation") {
+      throw new AIStressError(
+        `AI is disabled and the offline mutation engine only supports JS/TS files (got ${filename}).`
+      );
+    }
+    console.log(`Mutation engine can't parse ${filename}, using AI for the whole injection`);
+  }
   
   // RANDOMIZE: Select specific bug types before calling AI
-  const selectedBugs = selectRandomBugTypes(bugCount, content, filename, stressLevel);
+  const selectedBugs = selectRandomBugTypes(bugCount, content, filename, random, selection);
+  if (selectedBugs.length === 0) {
+    throw new AIStressError(`No bug types in the selected categories apply to ${filename}`);
+  }
   const bugInstructions = formatBugInstructions(selectedBugs);
   
   // RANDOMIZE: Determine if AI should only modify or may add code (70% modify only)
-  const modificationMode = selectModificationMode();
+  const modificationMode = selectModificationMode(random);
   const modificationInstruction = getModificationInstruction(modificationMode);
   console.log(`Modification mode: ${modificationMode}`);
   
+  // Detect language so bugs are idiomatic (e.g., Go error handling rather than JS array methods)
+  const language = detectLanguage(filename, content);
+  const languageInstruction = language && language !== "javascript"
+    ? `\n\nLANGUAGE: ${LANGUAGE_NAMES[language]}\nThis is ${LANGUAGE_NAMES[language]} code. Every bug must use idiomatic ${LANGUAGE_NAMES[language]} constructs - do NOT write JavaScript-style code or use JavaScript APIs.`
+    : "";
+
   // Detect framework for prompt enhancement
-  const detectedFrameworks = detectFramework(content, filename);
+  const detectedFrameworks = detectFrameworks(content, filename);
   const frameworkInstruction = detectedFrameworks.length > 0
-    ? `\n\nFRAMEWORK DETECTED: ${detectedFrameworks.join(", ").toUpperCase()}\nWhen introducing bugs, prioritize framework-specific issues like hooks, component lifecycle, prop drilling, JSX rendering, etc. Make sure framework-specific bugs are realistic and follow framework patterns.`
+    ? `\n\nFRAMEWORK DETECTED: ${detectedFrameworks.map((f) => f.name).join(", ").toUpperCase()}\nWhen introducing bugs:\n${detectedFrameworks.map((f) => `- ${f.name}: ${f.promptHint}`).join("\n")}\nMake sure framework-specific bugs are realistic and follow framework patterns.`
     : "";
   
   // Detect HTML files and add specific instructions
@@ -532,12 +773,14 @@ DO NOT break the HTML structure itself (keep tags properly closed).`
 BUG LEVEL: ${stressLevel.toUpperCase()}
 ${config.description}
 
-YOU MUST INTRODUCE EXACTLY THESE ${bugCount} BUG(S):
+YOU MUST INTRODUCE EXACTLY THESE ${selectedBugs.length} BUG(S):
 
 ${bugInstructions}
 
 ${focusInstruction}
 
+${languageInstruction}
+
 ${frameworkInstruction}
 
 ${htmlInstruction}
@@ -570,7 +813,7 @@ Imagine the code was written by a sloppy developer who:
 
 ${modificationInstruction}
 
-Here is the code to modify:
+Here is the code to modify (you will return EDITS to it, not the whole file):
 
 FILENAME: ${filename}
 \`\`\`
@@ -579,119 +822,72 @@ ${content}
 
 Respond with ONLY a JSON object in this exact format (no markdown, no explanation):
 {
-  "modifiedCode": "the complete modified code with bugs introduced",
+  "edits": [
+    { "bug": 1, "search": "exact lines copied from the original code", "replace": "the same lines with the bug introduced" }
+  ],
   "changes": ["technical description of bug 1", "technical description of bug 2"],
   "symptoms": ["Detailed bug report 1", "Detailed bug report 2"]
 }
 
-IMPORTANT about "symptoms": Write these like bug reports from a QA tester who sees the UI, not the code:
-- Format: "[Specific Location]: [What went wrong]. Expected [X] but got [Y]."
-- EVERY symptom MUST start with a specific location (page name, component, section of the UI)
-- Location examples: "Home page:", "Filter bar on the Products page:", "User profile sidebar:", "Shopping cart modal:", "Search results in the header:"
-- Do NOT mention variable names, function names, or line numbers
-- Describe what the user SEES, not what the code does
-- Symptoms MUST describe CLEAR, VISIBLE failures that happen 100% of the time
-- Good examples with locations:
-  - "Home page product grid: All prices show $0.00 instead of actual values"
-  - "Filter dropdown in the sidebar: Last 2 filter options are missing from the list"
-  - "User dashboard stats panel: App crashes with white screen when loading"
-  - "Navigation breadcrumbs: Names appear in reverse order"
-- DO NOT write symptoms like "app is slower" or "sometimes fails" - these are not clear enough
-- DO NOT write generic locations like "On the page" or "In the app" - be SPECIFIC about WHERE in the UI
-
-The modifiedCode must be the COMPLETE file content. Do not truncate or summarize.`;
+${SYMPTOM_GUIDELINES}
+
+IMPORTANT about "edits": Do NOT return the whole file. Return only the edits:
+- "search" must be copied EXACTLY from the original code (same whitespace and indentation) and must match exactly ONE place in the file
+- Include 1-5 complete lines in "search" - enough surrounding context to make it unique, but no more
+- "replace" is what those lines become; to ADD code, repeat the anchor lines in "replace" with the new lines inserted
+- "bug" is the number of the BUG from the list above that the edit introduces; "changes" and "symptoms" must be in the same order as the bugs
+- Edits must not overlap; if two bugs touch the same lines, pick different lines for one of them`;
 
   try {
     console.log(`Calling AI model with prompt length: ${prompt.length} characters`);
     const startTime = Date.now();
     
-    const { text, finishReason, usage } = await generateText({
-      model,
+    const { object: parsed, usage, provider, model, repairAttempts } = await generateAIObject({
+      operation: "stress",
       prompt,
+      schema: stressResponseSchema,
+      schemaName: "bug injection",
+      validate: (response) => {
+        const bugNumberError = validateEditBugNumbers(response.edits, selectedBugs.length);
+        if (bugNumberError) return bugNumberError;
+        try {
+          return verifyModifiedSyntax(filename, content, applyEditHunks(content, response.edits));
+        } catch (error) {
+          if (error instanceof PatchApplyError) return error.message;
+          throw error;
+        }
+      },
     });
     
     const duration = Date.now() - startTime;
-    console.log(`AI response received in ${duration}ms`);
-    console.log(`Finish reason: ${finishReason}, Usage:`, usage);
-    console.log(`Response length: ${text?.length || 0} characters`);
-    
-    // Debug: log first 500 chars of response for troubleshooting
-    if (text) {
-      console.log(`Response preview: ${text.substring(0, 500)}...`);
-    } else {
-      console.log("WARNING: AI returned empty response");
-    }
+    console.log(`AI response received in ${duration}ms (repairs: ${repairAttempts})`);
+    console.log(`Usage:`, usage);
 
-    // Check for empty or very short responses (common with Ollama misconfiguration)
-    if (!text || text.trim().length < 50) {
-      throw new AIStressError(
-        `AI returned empty or insufficient response (${text?.length || 0} chars). ` +
-        `This often means the model didn't understand the prompt or isn't loaded correctly. ` +
-        `For Ollama: ensure the model is running with 'ollama run <model>' first.`
-      );
-    }
-
-    // Parse the response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      console.error("Full AI response (no JSON found):", text);
-      throw new AIStressError(
-        `Failed to parse AI response - no JSON found in output. ` +
-        `Response started with: "${text.substring(0, 200)}..."`
-      );
-    }
-
-    let parsed;
-    try {
-      parsed = JSON.parse(jsonMatch[0]);
-    } catch (parseError) {
-      console.error("JSON parse error. Matched JSON:", jsonMatch[0].substring(0, 500));
-      throw new AIStressError(
-        `Failed to parse JSON from AI response: ${parseError instanceof Error ? parseError.message : 'Unknown parse error'}`,
-        parseError
-      );
-    }
+    console.log(`Successfully parsed AI response with ${parsed.changes.length} changes and ${parsed.edits.length} edits`);
     
-    if (!parsed.modifiedCode || !parsed.changes) {
-      console.error("Invalid response structure:", Object.keys(parsed));
-      throw new AIStressError(
-        `Invalid AI response structure - missing modifiedCode or changes. ` +
-        `Got keys: ${Object.keys(parsed).join(', ')}`
-      );
-    }
+    const modifiedCode = applyEditHunks(content, parsed.edits);
 
-    console.log(`Successfully parsed AI response with ${parsed.changes.length} changes`);
-    
     // Log comparison info for debugging
     const originalLength = content.length;
-    const modifiedLength = parsed.modifiedCode?.length || 0;
-    const contentChanged = parsed.modifiedCode !== content;
+    const modifiedLength = modifiedCode.length;
+    const contentChanged = modifiedCode !== content;
     console.log(`Content comparison: original=${originalLength} chars, modified=${modifiedLength} chars, changed=${contentChanged}`);
     
     if (!contentChanged) {
-      console.warn("WARNING: AI returned content identical to original! The file will not be updated.");
-      console.warn("This could indicate the AI failed to modify the code or echoed it back unchanged.");
+      console.warn("WARNING: AI edits left the content identical to the original! The file will not be updated.");
+      console.warn("This could indicate the AI returned edits whose replacement matches the original code.");
     }
     
-    if (parsed.changes.length === 0) {
-      console.warn("WARNING: AI returned 0 changes! No bugs were introduced.");
-    }
-
-    // Prepare usage data for return (AI SDK v6 uses inputTokens/outputTokens)
-    const usageData: TokenUsageData | null = usage ? {
-      inputTokens: usage.inputTokens || 0,
-      outputTokens: usage.outputTokens || 0,
-      totalTokens: usage.totalTokens || 0,
-    } : null;
-
-    return {
-      content: parsed.modifiedCode,
+    const symptoms = parsed.symptoms.length > 0 ? parsed.symptoms : selectedBugs.map(b => b.sampleSymptom);
+    return await withVerifiedSymptoms({
+      content: modifiedCode,
       changes: parsed.changes,
-      symptoms: parsed.symptoms || selectedBugs.map(b => b.sampleSymptom),
-      usage: usageData,
-      provider: aiProvider,
-      model: modelName,
-    };
+      symptoms,
+      bugs: mapEditsToBugs({ path: filename, content }, parsed.edits, selectedBugs, parsed.changes, symptoms),
+      usage,
+      provider,
+      model,
+    });
   } catch (error) {
     if (error instanceof AIStressError) {
       throw error;
@@ -706,41 +902,203 @@ The modifiedCode must be the COMPLETE file content. Do not truncate or summarize
 }
 
 /**
- * Generates detailed bug report descriptions from technical change descriptions.
- * Used as a fallback when AI doesn't provide symptoms.
- * 
- * @param changes - Array of technical change descriptions
- * @returns Array of detailed bug report descriptions
+ * Result from cross-file bug injection.
  */
-function generateFallbackSymptoms(changes: string[]): string[] {
-  const symptomTemplates = [
-    "Home page product grid: The last 2 items are completely missing. We have 10 items but only 8 show up on screen.",
-    "Header search bar component: The first letter of every search is being cut off. Typing 'Apple' searches for 'pple' instead.",
-    "Products listing page cards: Every single item shows the same ID number. All 50 items display 'ID: 1001' even though they should be unique.",
-    "User profile sidebar panel: All names are showing as 'undefined'. The other fields load fine but names are blank.",
-    "Dashboard main content area: App crashes with white screen. Console shows 'Cannot read property of null' error.",
-    "Order summary in checkout page: All totals and prices show $0.00. We have items worth hundreds of dollars but everything displays as zero.",
-    "Category filter dropdown in sidebar: Half the options are completely blank. Every other filter (items 2, 4, 6, 8...) shows as empty.",
-    "Featured items carousel on home page: Items that should be visible are hidden, and hidden items are showing. The display logic is completely inverted.",
-    "Cart icon badge in navigation header: Shows '3 items' but there are clearly 5 items in cart. The count is always 2 less than actual.",
-    "Form labels in settings page: The last few characters are cut off from every label. 'Description' shows as 'Descript', 'Username' shows as 'Userna'.",
-  ];
-  
-  // Pick random symptoms based on number of changes
-  const numSymptoms = Math.min(changes.length, 3);
-  shuffleArray(symptomTemplates);
-  return symptomTemplates.slice(0, numSymptoms);
+export interface CrossFileStressResult extends Omit<AIStressResult, "content"> {
+  /** Modified files (only files whose content actually changed) */
+  files: SourceFile[];
+}
+
+/**
+ * Applies cross-file edits to each file they target.
+ *
+ * @param files - Original files (the caller and callee)
+ * @param edits - Edits naming the file they apply to
+ * @returns Modified files in the same order as `files`
+ * @throws PatchApplyError if an edit names an unknown file or doesn't apply
+ */
+function applyCrossFileEdits(files: SourceFile[], edits: z.infer<typeof crossFileResponseSchema>["edits"]): SourceFile[] {
+  const unknown = edits.find((edit) => !files.some((file) => file.path === edit.file));
+  if (unknown) {
+    throw new PatchApplyError(
+      `Edit targets "${unknown.file}", which is not one of the given files (${files.map((f) => f.path).join(", ")})`,
+      edits.indexOf(unknown)
+    );
+  }
+
+  return files.map((file) => {
+    const hunks = edits.filter((edit) => edit.file === file.path);
+    return { path: file.path, content: hunks.length > 0 ? applyEditHunks(file.content, hunks) : file.content };
+  });
+}
+
+/**
+ * Uses AI to plant bugs that span a module boundary: the change is made in one file
+ * (e.g., a helper's return contract or a call site's argument order) and the failure
+ * shows up through the other file. The two files come from a call graph link
+ * (see lib/code-graph.ts).
+ *
+ * Only the AI engine can do this - the mutation engine works on one file at a time.
+ *
+ * @param link - Call relationship between the two files
+ * @param caller - The importing file
+ * @param callee - The file defining the called symbols
+ * @param context - Optional focus area (max 200 chars)
+ * @param stressLevel - Bug level: "low", "medium", or "high"
+ * @param bugCount - Number of cross-file bugs to introduce
+ * @param random - Random source driving bug type selection
+ * @returns Modified files with descriptions, symptoms, and usage data
+ * @throws AIStressError if the AI engine is disabled or fails to generate bugs
+ */
+export async function introduceCrossFileStress(
+  link: CrossFileLink,
+  caller: SourceFile,
+  callee: SourceFile,
+  context?: string,
+  stressLevel: StressLevel = "high",
+  bugCount = 2,
+  random: RandomSource = Math.random
+): Promise<CrossFileStressResult> {
+  if (resolveStressEngine() !== "ai") {
+    throw new AIStressError("Cross-file bug injection requires the AI engine (STRESS_ENGINE=ai).");
+  }
+
+  const config = STRESS_CONFIGS[stressLevel];
+  const files = [caller, callee];
+
+  // More bugs than catalog entries reuse types, each applied to a different symbol
+  const shuffledBugs = shuffleArray([...CROSS_FILE_BUG_TYPES], random);
+  const selectedBugs = Array.from({ length: bugCount }, (_, i) => shuffledBugs[i % shuffledBugs.length]);
+  const bugInstructions = formatBugInstructions(selectedBugs);
+
+  const focusInstruction = context
+    ? `\n\nFOCUS AREA: The user wants to specifically test: "${context}"\nTry to apply the bugs in areas related to this focus when possible.`
+    : "";
+
+  const fileBlocks = files
+    .map((file) => `FILENAME: ${file.path}\n\`\`\`\n${file.content}\n\`\`\``)
+    .join("\n\n");
+
+  const prompt = `You are a bug engineer introducing specific bugs into code for a debugging training game.
+This time the bugs must CROSS A MODULE BOUNDARY between two files.
+
+BUG LEVEL: ${stressLevel.toUpperCase()}
+${config.description}
+
+HOW THE FILES ARE CONNECTED:
+${link.caller} imports and calls ${link.symbols.join(", ")} from ${link.callee} (${link.callSites} call site(s)).
+
+YOU MUST INTRODUCE EXACTLY THESE ${bugCount} BUG(S):
+
+${bugInstructions}
+
+${focusInstruction}
+
+CROSS-FILE RULES:
+1. Every bug must involve the relationship between the two files: change the contract on one side (return value, parameter order, defaults, field names, async-ness, error behavior) so the OTHER side misbehaves
+2. Each file must still look correct when read on its own - the bug only becomes visible when you trace the call across files
+3. Prefer bugs on the symbols listed above (${link.symbols.join(", ")})
+4. Do NOT add comments that reveal bug locations (no "// bug here" or hints)
+5. Bugs must be DETERMINISTIC - same behavior every time with same input
+6. Both files must still compile/parse correctly
+
+MANDATORY BUG REQUIREMENTS:
+- Bugs MUST be CLEARLY VISIBLE breaking changes - users must immediately see something is wrong
+- Bugs MUST be 100% RELIABLE - they must happen every single time, not "sometimes" or "occasionally"
+- Each bug MUST produce a specific, describable symptom that a QA tester can clearly report
+
+Here are the two files (you will return EDITS to them, not whole files):
+
+${fileBlocks}
+
+Respond with ONLY a JSON object in this exact format (no markdown, no explanation):
+{
+  "edits": [
+    { "file": "${link.callee}", "bug": 1, "search": "exact lines copied from that file", "replace": "the same lines with the bug introduced" }
+  ],
+  "changes": ["technical description of bug 1 (name both files)", "technical description of bug 2"],
+  "symptoms": ["Detailed bug report 1", "Detailed bug report 2"]
+}
+
+${SYMPTOM_GUIDELINES}
+
+IMPORTANT about "edits": Do NOT return whole files. Return only the edits:
+- "file" must be exactly one of: ${files.map((file) => file.path).join(", ")}
+- "search" must be copied EXACTLY from that file (same whitespace and indentation) and must match exactly ONE place in it
+- Include 1-5 complete lines in "search" - enough surrounding context to make it unique, but no more
+- "bug" is the number of the BUG from the list above that the edit introduces; "changes" and "symptoms" must be in the same order as the bugs
+- Edits to the same file must not overlap; if two bugs touch the same lines, pick different lines for one of them`;
+
+  try {
+    console.log(`Calling AI model for cross-file bugs (${link.caller} -> ${link.callee}), prompt length: ${prompt.length} characters`);
+    const startTime = Date.now();
+
+    const { object: parsed, usage, provider, model, repairAttempts } = await generateAIObject({
+      operation: "stress",
+      prompt,
+      schema: crossFileResponseSchema,
+      schemaName: "cross-file bug injection",
+      validate: (response) => {
+        const bugNumberError = validateEditBugNumbers(response.edits, selectedBugs.length);
+        if (bugNumberError) return bugNumberError;
+        try {
+          const modified = applyCrossFileEdits(files, response.edits);
+          for (let i = 0; i < files.length; i++) {
+            const syntaxError = verifyModifiedSyntax(files[i].path, files[i].content, modified[i].content);
+            if (syntaxError) return syntaxError;
+          }
+          return null;
+        } catch (error) {
+          if (error instanceof PatchApplyError) return error.message;
+          throw error;
+        }
+      },
+    });
+
+    console.log(`AI cross-file response received in ${Date.now() - startTime}ms (repairs: ${repairAttempts})`);
+
+    const modifiedFiles = applyCrossFileEdits(files, parsed.edits).filter(
+      (file, index) => file.content !== files[index].content
+    );
+    if (modifiedFiles.length === 0) {
+      throw new AIStressError("AI cross-file edits left both files unchanged.");
+    }
+
+    const symptoms = parsed.symptoms.length > 0 ? parsed.symptoms : selectedBugs.map((b) => b.sampleSymptom);
+    return await withVerifiedSymptoms({
+      files: modifiedFiles,
+      changes: parsed.changes,
+      symptoms,
+      bugs: files.flatMap((file) => {
+        const fileEdits = parsed.edits.filter((edit) => edit.file === file.path);
+        return fileEdits.length > 0 ? mapEditsToBugs(file, fileEdits, selectedBugs, parsed.changes, symptoms) : [];
+      }),
+      usage,
+      provider,
+      model,
+    });
+  } catch (error) {
+    if (error instanceof AIStressError) {
+      throw error;
+    }
+    console.error("AI cross-file stress generation error:", error);
+    throw new AIStressError(
+      `AI cross-file stress generation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      error
+    );
+  }
 }
 
 /**
  * Shuffles an array in place using Fisher-Yates algorithm.
  * 
  * @param array - Array to shuffle
+ * @param random - Random source (defaults to Math.random)
  * @returns The shuffled array (same reference)
  */
-function shuffleArray<T>(array: T[]): T[] {
+function shuffleArray<T>(array: T[], random: RandomSource = Math.random): T[] {
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
   }
   return array;
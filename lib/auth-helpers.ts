@@ -2,13 +2,14 @@ import { auth } from "@/auth";
 import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 import type { User } from "@prisma/client";
+import type { Session } from "next-auth";
 
 /**
  * Result type for requireAuth - either a user or an error response.
  */
 type AuthResult =
-  | { user: User; error: null }
-  | { user: null; error: NextResponse };
+  | { user: User; session: Session; error: null }
+  | { user: null; session: null; error: NextResponse };
 
 /**
  * Validates the session and returns the authenticated user from the database.
@@ -18,7 +19,7 @@ type AuthResult =
  * 2. Look up user in database by email
  * 3. Return appropriate error responses if either fails
  * 
- * @returns Object with either { user, error: null } or { user: null, error: NextResponse }
+ * @returns Object with either { user, session, error: null } or { user: null, session: null, error: NextResponse }
  * 
  * @example
  * export async function GET() {
@@ -34,6 +35,7 @@ export async function requireAuth(): Promise<AuthResult> {
   if (!session?.user?.email) {
     return {
       user: null,
+      session: null,
       error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
     };
   }
@@ -45,9 +47,10 @@ export async function requireAuth(): Promise<AuthResult> {
   if (!user) {
     return {
       user: null,
+      session: null,
       error: NextResponse.json({ error: "User not found" }, { status: 404 }),
     };
   }
 
-  return { user, error: null };
+  return { user, session, error: null };
 }
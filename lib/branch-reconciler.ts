@@ -0,0 +1,115 @@
+import { prisma } from "./prisma";
+import { deleteBranch, fetchRepoBranches, fetchStressMetadata } from "./github";
+import type { StressRequest } from "./stress-pipeline";
+
+/** Repos are reconciled while they had a failed generation this recently */
+export const RECONCILE_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Most branches listed per repo when looking for orphans */
+const MAX_BRANCHES_PER_REPO = 100;
+
+/**
+ * An orphaned challenge branch and what the reconciler did with it.
+ */
+export interface ReconciledBranch {
+  owner: string;
+  repo: string;
+  branch: string;
+  deleted: boolean;
+  error?: string;
+}
+
+/**
+ * Finds orphaned challenge branches in a repository: buggr- branches carrying buggered
+ * code (a .buggr.json) that no Bugger records and no unfinished generation job owns.
+ * Branches without .buggr.json are skipped - nothing was committed to them, and a
+ * branch whose generation hasn't been queued yet looks the same.
+ *
+ * @param accessToken - GitHub OAuth access token
+ * @param owner - Repository owner
+ * @param repo - Repository name
+ * @returns Names of the orphaned branches
+ */
+export async function findOrphanedChallengeBranches(
+  accessToken: string,
+  owner: string,
+  repo: string
+): Promise<string[]> {
+  const branches = (await fetchRepoBranches(accessToken, owner, repo, MAX_BRANCHES_PER_REPO))
+    .map((branch) => branch.name)
+    .filter((name) => name.includes("buggr-"));
+  if (branches.length === 0) return [];
+
+  const recorded = await prisma.bugger.findMany({
+    where: { owner, repo, branchName: { in: branches } },
+    select: { branchName: true },
+  });
+  const unfinishedJobs = await prisma.generationJob.findMany({
+    where: { status: { in: ["queued", "running"] } },
+    select: { input: true },
+  });
+  const owned = new Set([
+    ...recorded.map((bugger) => bugger.branchName),
+    ...unfinishedJobs
+      .map((job) => job.input as unknown as StressRequest)
+      .filter((input) => input.owner === owner && input.repo === repo)
+      .map((input) => input.branch),
+  ]);
+
+  const orphans: string[] = [];
+  for (const branch of branches.filter((name) => !owned.has(name))) {
+    if (await fetchStressMetadata(accessToken, owner, repo, branch)) orphans.push(branch);
+  }
+  return orphans;
+}
+
+/**
+ * Deletes a user's orphaned challenge branches. Only repos where one of their generations
+ * failed recently are checked: that's where compensation (see lib/stress-pipeline.ts) can
+ * have left a branch behind.
+ *
+ * @param userId - User whose repos are reconciled
+ * @param accessToken - The user's GitHub token
+ * @returns Every orphan found, with whether it was deleted
+ */
+export async function reconcileOrphanedBranches(userId: string, accessToken: string): Promise<ReconciledBranch[]> {
+  const failedJobs = await prisma.generationJob.findMany({
+    where: { userId, status: "failed", completedAt: { gte: new Date(Date.now() - RECONCILE_WINDOW_MS) } },
+    select: { input: true },
+  });
+  const repos = new Map(
+    failedJobs
+      .map((job) => job.input as unknown as StressRequest)
+      .map(({ owner, repo }) => [`${owner}/${repo}`, { owner, repo }] as const)
+  );
+
+  const reconciled: ReconciledBranch[] = [];
+  for (const { owner, repo } of repos.values()) {
+    let orphans: string[];
+    try {
+      orphans = await findOrphanedChallengeBranches(accessToken, owner, repo);
+    } catch (error) {
+      // The repo may be gone or the token may have lost access - nothing to clean up there
+      console.warn(`[Reconcile] Could not check ${owner}/${repo}:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    for (const branch of orphans) {
+      try {
+        await deleteBranch(accessToken, owner, repo, branch);
+        console.log(`[Reconcile] Deleted orphaned branch ${owner}/${repo}@${branch}`);
+        reconciled.push({ owner, repo, branch, deleted: true });
+      } catch (error) {
+        console.error(`[Reconcile] Failed to delete ${owner}/${repo}@${branch}:`, error);
+        reconciled.push({
+          owner,
+          repo,
+          branch,
+          deleted: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+  }
+  return reconciled;
+}
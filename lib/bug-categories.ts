@@ -0,0 +1,115 @@
+import { BugType, BUG_TYPES, CROSS_FILE_BUG_TYPES } from "./bug-types";
+import { LANGUAGE_BUG_TYPES } from "./language-bug-types";
+
+/**
+ * Category steering for a challenge.
+ * - include: only bugs from these categories (empty = any category)
+ * - exclude: never bugs from these categories
+ */
+export interface BugCategoryFilter {
+  include: string[];
+  exclude: string[];
+}
+
+/** Category of the bugs planted across files at the High level */
+export const CROSS_FILE_CATEGORY = "CROSS_FILE";
+
+/**
+ * Every category in the built-in catalogs (all languages plus cross-file), sorted.
+ * Shared between client (category toggles) and server (validation).
+ */
+export const BUG_CATEGORIES: string[] = [
+  ...new Set(
+    [...BUG_TYPES, ...CROSS_FILE_BUG_TYPES, ...Object.values(LANGUAGE_BUG_TYPES).flat()].map(
+      (bugType) => bugType.category
+    )
+  ),
+].sort();
+
+/**
+ * Formats a category (e.g., "UNDEFINED_NULL") for display.
+ *
+ * @param category - BugType category
+ * @returns Human-readable category (e.g., "Undefined null")
+ */
+export function formatCategoryLabel(category: string): string {
+  const words = category.toLowerCase().replace(/[_-]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Checks whether a filter has any effect.
+ *
+ * @param filter - Category filter
+ * @returns True if the filter includes or excludes any category
+ */
+export function hasCategoryFilter(filter: BugCategoryFilter | null | undefined): filter is BugCategoryFilter {
+  return !!filter && (filter.include.length > 0 || filter.exclude.length > 0);
+}
+
+/**
+ * Checks whether a filter allows bugs from a category.
+ *
+ * @param filter - Category filter (null allows everything)
+ * @param category - BugType category
+ * @returns True if bugs from the category may be selected
+ */
+export function isCategoryAllowed(filter: BugCategoryFilter | null | undefined, category: string): boolean {
+  if (!filter) return true;
+  if (filter.exclude.includes(category)) return false;
+  return filter.include.length === 0 || filter.include.includes(category);
+}
+
+/**
+ * Keeps only the bug types a filter allows.
+ *
+ * @param bugTypes - Bug types to filter
+ * @param filter - Category filter (null allows everything)
+ * @returns Allowed bug types
+ */
+export function filterBugTypesByCategory(bugTypes: BugType[], filter: BugCategoryFilter | null | undefined): BugType[] {
+  return bugTypes.filter((bugType) => isCategoryAllowed(filter, bugType.category));
+}
+
+/**
+ * Parses a category filter from a request body.
+ *
+ * @param raw - Value from the request body
+ * @returns The filter with upper-cased, de-duplicated categories, or null if none was given
+ */
+export function parseCategoryFilter(raw: unknown): BugCategoryFilter | null {
+  if (!raw || typeof raw !== "object") return null;
+  const { include, exclude } = raw as { include?: unknown; exclude?: unknown };
+
+  const toCategories = (value: unknown): string[] =>
+    Array.isArray(value)
+      ? [...new Set(value.filter((item): item is string => typeof item === "string").map((item) => item.trim().toUpperCase()))]
+      : [];
+
+  const filter = { include: toCategories(include), exclude: toCategories(exclude) };
+  return hasCategoryFilter(filter) ? filter : null;
+}
+
+/**
+ * Finds problems with a filter that make it unsatisfiable regardless of the files.
+ *
+ * @param filter - Category filter
+ * @param knownCategories - Categories that exist (built-in plus the user's custom categories)
+ * @returns Error message, or null if the filter is valid
+ */
+export function validateCategoryFilter(filter: BugCategoryFilter, knownCategories: string[]): string | null {
+  const unknown = [...filter.include, ...filter.exclude].filter((category) => !knownCategories.includes(category));
+  if (unknown.length > 0) {
+    return `Unknown bug categories: ${unknown.join(", ")}`;
+  }
+
+  const conflicting = filter.include.filter((category) => filter.exclude.includes(category));
+  if (conflicting.length > 0) {
+    return `Categories can't be both included and excluded: ${conflicting.join(", ")}`;
+  }
+
+  if (knownCategories.every((category) => !isCategoryAllowed(filter, category))) {
+    return "Every bug category is excluded";
+  }
+  return null;
+}
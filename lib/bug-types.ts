@@ -1,3 +1,5 @@
+import type { Language } from "./languages";
+
 /**
  * Represents a type of bug that can be introduced into code.
  */
@@ -16,11 +18,15 @@ export interface BugType {
   sampleSymptom: string;
   /** Optional framework this bug applies to (e.g., "react", "nextjs") */
   framework?: string;
+  /** Language this bug applies to (omitted for the default JavaScript/TypeScript catalog) */
+  language?: Language;
 }
 
 /**
  * Comprehensive list of bug types that can be introduced into code.
  * Each bug type has examples and descriptions to guide the AI.
+ * This is the JavaScript/TypeScript (and web) catalog; other languages have their own
+ * catalogs in lib/language-bug-types.ts.
  */
 export const BUG_TYPES: BugType[] = [
   // === STRING/TEXT CORRUPTION ===
@@ -697,5 +703,303 @@ export const BUG_TYPES: BugType[] = [
     ],
     sampleSymptom: "In the filtered list: Changing the category filter doesn't update the list. It always shows items from the first category I selected, even after I change it.",
   },
+
+  // === VUE FRAMEWORK BUGS ===
+  {
+    id: "vue-reactivity-loss",
+    category: "VUE",
+    framework: "vue",
+    name: "Lost Reactivity from Destructuring",
+    description: "Destructure a reactive object or props (or copy a ref's .value) so later updates are no longer tracked",
+    examples: [
+      "const { count } = reactive(state); // count never updates",
+      "const { items } = props; // template shows the initial items forever",
+    ],
+    sampleSymptom: "Shopping cart sidebar: Adding items updates the cart badge, but the item list in the sidebar never changes from what it showed on page load.",
+  },
+  {
+    id: "vue-computed-side-effect",
+    category: "VUE",
+    framework: "vue",
+    name: "Mutating State Inside computed",
+    description: "Sort or mutate the source array inside a computed property so the original order/data is corrupted",
+    examples: [
+      "const sorted = computed(() => items.value.sort((a, b) => b.price - a.price));",
+      "const visible = computed(() => { list.value.splice(5); return list.value; });",
+    ],
+    sampleSymptom: "Products page: Switching from the 'Price' tab back to 'All' still shows products sorted by price, and the original order is gone.",
+  },
+  {
+    id: "vue-vfor-index-key",
+    category: "VUE",
+    framework: "vue",
+    name: "Index Used as v-for Key",
+    description: "Use the loop index as :key on a list that can be reordered or filtered, so component state sticks to the wrong row",
+    examples: [
+      "<TodoItem v-for=\"(todo, i) in todos\" :key=\"i\" :todo=\"todo\" />",
+      "<li v-for=\"(row, index) in filtered\" :key=\"index\">",
+    ],
+    sampleSymptom: "Todo list: After deleting the first todo, the checkbox state moves to the wrong item - the next todo now appears checked.",
+  },
+
+  // === SVELTE FRAMEWORK BUGS ===
+  {
+    id: "svelte-store-subscription-leak",
+    category: "SVELTE",
+    framework: "svelte",
+    name: "Store Subscription Never Unsubscribed",
+    description: "Subscribe to a store manually without unsubscribing in onDestroy, so stale components keep reacting",
+    examples: [
+      "user.subscribe((u) => { name = u.name; }); // no unsubscribe",
+      "onMount(() => { notifications.subscribe(showToast); });",
+    ],
+    sampleSymptom: "Notification toasts: After navigating between pages a few times, each new notification pops up 3-4 times at once.",
+  },
+  {
+    id: "svelte-array-mutation",
+    category: "SVELTE",
+    framework: "svelte",
+    name: "Array Mutation Without Reassignment",
+    description: "Mutate an array with push/splice without reassigning it, so the UI doesn't update",
+    examples: [
+      "items.push(newItem); // missing items = items",
+      "todos.splice(index, 1);",
+    ],
+    sampleSymptom: "Add item form: Clicking 'Add' clears the input but the new item never appears in the list until the page is refreshed.",
+  },
+  {
+    id: "svelte-reactive-statement",
+    category: "SVELTE",
+    framework: "svelte",
+    name: "Reactive Statement Misses Dependency",
+    description: "Move a value out of a $: reactive statement (or hide it in a function) so it stops recomputing",
+    examples: [
+      "const total = items.reduce((s, i) => s + i.price, 0); // was $: total = ...",
+      "$: total = calculateTotal(); // items not referenced, never re-runs",
+    ],
+    sampleSymptom: "Order summary: The total stays at the initial amount no matter how many items are added to the order.",
+  },
+
+  // === ANGULAR FRAMEWORK BUGS ===
+  {
+    id: "angular-onpush-mutation",
+    category: "ANGULAR",
+    framework: "angular",
+    name: "Mutation Under OnPush Change Detection",
+    description: "Mutate an @Input array/object in place so an OnPush child never re-renders",
+    examples: [
+      "this.items.push(item); // child uses ChangeDetectionStrategy.OnPush",
+      "this.user.name = newName; // instead of this.user = { ...this.user, name: newName }",
+    ],
+    sampleSymptom: "Team roster card: Adding a member shows a success message, but the roster card keeps showing the old list of members.",
+  },
+  {
+    id: "angular-wrong-lifecycle",
+    category: "ANGULAR",
+    framework: "angular",
+    name: "Logic in the Wrong Lifecycle Hook",
+    description: "Read @Input values in the constructor or move ngOnChanges logic into ngOnInit so later input changes are ignored",
+    examples: [
+      "constructor() { this.title = this.product?.name; }",
+      "ngOnInit() { this.filtered = this.filter(this.items); } // was ngOnChanges",
+    ],
+    sampleSymptom: "Product detail panel: Selecting a different product in the list doesn't update the panel - it always shows the first product.",
+  },
+  {
+    id: "angular-observable-unsubscribed",
+    category: "ANGULAR",
+    framework: "angular",
+    name: "Observable Never Unsubscribed",
+    description: "Subscribe in a component without unsubscribing or takeUntil, so handlers pile up",
+    examples: [
+      "this.route.params.subscribe((p) => this.load(p.id));",
+      "interval(1000).subscribe(() => this.refresh());",
+    ],
+    sampleSymptom: "Orders page: After visiting the page a few times, each refresh triggers several identical network requests and the list flickers.",
+  },
+
+  // === EXPRESS/FASTIFY FRAMEWORK BUGS ===
+  {
+    id: "express-middleware-order",
+    category: "EXPRESS",
+    framework: "express",
+    name: "Middleware Registered in the Wrong Order",
+    description: "Register body parsing, auth, or static middleware after the routes that need it",
+    examples: [
+      "app.use('/api', router); app.use(express.json()); // body is undefined in routes",
+      "app.get('/admin', handler); app.use(requireAuth);",
+    ],
+    sampleSymptom: "POST /api/orders: Creating an order always fails with 'Missing required field: items' even when items are sent.",
+  },
+  {
+    id: "express-missing-next",
+    category: "EXPRESS",
+    framework: "express",
+    name: "Middleware Never Calls next()",
+    description: "Forget to call next() (or return early without responding) in a middleware branch",
+    examples: [
+      "(req, res, next) => { if (req.user) { req.ctx = build(req.user); } else { next(); } }",
+      "app.use((req, res, next) => { log(req); });",
+    ],
+    sampleSymptom: "Dashboard API: Logged-in users' requests hang forever and eventually time out, while logged-out requests respond immediately.",
+  },
+  {
+    id: "express-wrong-status",
+    category: "EXPRESS",
+    framework: "express",
+    name: "Wrong Status Code or Double Response",
+    description: "Send the wrong status code, or send a response and keep executing so a second response is attempted",
+    examples: [
+      "if (!user) res.status(404).json({ error: 'Not found' }); res.json(user);",
+      "res.status(200).json({ error: 'Invalid input' });",
+    ],
+    sampleSymptom: "GET /api/users/:id: Missing users come back with status 200 and an error body, so the profile page shows a blank user instead of 'Not found'.",
+  },
+  {
+    id: "fastify-hook-never-resolves",
+    category: "FASTIFY",
+    framework: "fastify",
+    name: "Hook Mixing async and done",
+    description: "Declare a hook async but also accept done, or forget to call done in a callback-style hook",
+    examples: [
+      "fastify.addHook('preHandler', async (req, reply, done) => { await auth(req); });",
+      "fastify.addHook('onRequest', (req, reply, done) => { if (req.user) done(); });",
+    ],
+    sampleSymptom: "Every API request from a logged-out visitor hangs until the browser times out.",
+  },
+  {
+    id: "fastify-response-schema-strip",
+    category: "FASTIFY",
+    framework: "fastify",
+    name: "Response Schema Strips Fields",
+    description: "Remove or misspell a property in a route's response schema so Fastify drops it from the output",
+    examples: [
+      "response: { 200: { type: 'object', properties: { id: { type: 'string' } } } } // 'name' missing",
+      "properties: { totalPrice: { type: 'number' } } // handler returns 'total'",
+    ],
+    sampleSymptom: "GET /products: Products come back with IDs but every name and price is missing from the response.",
+  },
+
+  // === PRISMA BUGS ===
+  {
+    id: "prisma-transaction-missing-await",
+    category: "PRISMA",
+    framework: "prisma",
+    name: "Missing await Inside $transaction",
+    description: "Call a query inside an interactive $transaction without awaiting it, so it runs outside the transaction or after it closes",
+    examples: [
+      "await prisma.$transaction(async (tx) => { tx.user.update({ ... }); await tx.order.create({ ... }); });",
+      "prisma.$transaction(async (tx) => { ... }); // outer call not awaited",
+    ],
+    sampleSymptom: "Checkout: Orders are created but the customer's coin balance is never deducted, and sometimes the request fails with 'Transaction already closed'.",
+  },
+  {
+    id: "prisma-wrong-where",
+    category: "PRISMA",
+    framework: "prisma",
+    name: "Wrong where Filter",
+    description: "Use the wrong field, operator, or a missing userId scope in a where clause",
+    examples: [
+      "prisma.post.findMany({ where: { published: false } })",
+      "prisma.order.findMany({ where: { status: 'pending' } }) // userId filter removed",
+    ],
+    sampleSymptom: "My Orders page: Shows orders from every customer instead of just mine.",
+  },
+  {
+    id: "prisma-update-many",
+    category: "PRISMA",
+    framework: "prisma",
+    name: "updateMany/deleteMany With Too Broad a Filter",
+    description: "Replace update/delete with updateMany/deleteMany, or drop the id from the filter",
+    examples: [
+      "prisma.todo.updateMany({ where: { userId }, data: { done: true } }) // was update by id",
+      "prisma.session.deleteMany({ where: { userId } }) // logs out every device",
+    ],
+    sampleSymptom: "Todo list: Checking off a single todo marks every todo in the list as done.",
+  },
 ];
 
+/**
+ * Bugs that span a module boundary: the defect is planted in one file
+ * and shows up in another file that calls it. Used by cross-file injection
+ * (see lib/code-graph.ts), not by single-file selection.
+ */
+export const CROSS_FILE_BUG_TYPES: BugType[] = [
+  {
+    id: "xf-return-contract",
+    category: "CROSS_FILE",
+    name: "Changed Return Contract",
+    description: "Change what a helper returns (shape, units, null vs empty, wrapped vs unwrapped) so a caller in the other file misuses the result",
+    examples: [
+      "return { items, total }; // was return items; caller still maps over the result",
+      "return price * 100; // now returns cents, caller still formats as dollars",
+    ],
+    sampleSymptom: "Order history page: Every order total is 100 times too large - a $12.50 order shows as $1,250.00.",
+  },
+  {
+    id: "xf-swapped-arguments",
+    category: "CROSS_FILE",
+    name: "Swapped Arguments at Call Site",
+    description: "Swap two arguments of the same type at a call site in the caller so the callee receives them in the wrong order",
+    examples: [
+      "formatRange(end, start) // signature is formatRange(start, end)",
+      "transfer(toAccount, fromAccount, amount)",
+    ],
+    sampleSymptom: "Booking summary: The check-in and check-out dates are reversed - the stay shows as ending before it starts.",
+  },
+  {
+    id: "xf-changed-default",
+    category: "CROSS_FILE",
+    name: "Changed Parameter Default",
+    description: "Change a default parameter value or option in the callee that the caller relies on by omitting the argument",
+    examples: [
+      "function paginate(items, pageSize = 0) // was 20; caller never passes pageSize",
+      "function fetchUsers({ includeInactive = true } = {}) // was false",
+    ],
+    sampleSymptom: "User directory: Deactivated accounts are listed alongside active users, marked with their old roles.",
+  },
+  {
+    id: "xf-async-contract",
+    category: "CROSS_FILE",
+    name: "Sync/Async Contract Mismatch",
+    description: "Make a helper async (or drop an await at the call site) so the caller in the other file uses a Promise as a value",
+    examples: [
+      "export async function getTotal(items) { ... } // caller: const total = getTotal(items);",
+      "const config = loadConfig(); // await removed in the caller",
+    ],
+    sampleSymptom: "Cart summary: The total shows '[object Promise]' instead of a price.",
+  },
+  {
+    id: "xf-renamed-field",
+    category: "CROSS_FILE",
+    name: "Renamed Field Across Boundary",
+    description: "Rename or restructure a field in an object built by the callee while the caller still reads the old name",
+    examples: [
+      "return { fullName: user.name } // caller reads result.name",
+      "return { data: rows } // caller reads result.items",
+    ],
+    sampleSymptom: "Team page: Every member card shows 'undefined' where the member's name should be.",
+  },
+  {
+    id: "xf-argument-mutation",
+    category: "CROSS_FILE",
+    name: "Callee Mutates Caller's Data",
+    description: "Make the callee sort, splice, or reassign fields on an object/array passed in by the caller, corrupting the caller's data",
+    examples: [
+      "function topThree(list) { return list.sort(byScore).splice(0, 3); } // caller's list loses items",
+      "function normalize(user) { user.email = user.email.toLowerCase(); user.id = 0; return user; }",
+    ],
+    sampleSymptom: "Leaderboard page: After the 'Top 3' widget loads, the full leaderboard below only shows the remaining players and the top 3 disappear from it.",
+  },
+  {
+    id: "xf-error-contract",
+    category: "CROSS_FILE",
+    name: "Changed Error Contract",
+    description: "Make the callee return null/undefined instead of throwing (or throw instead of returning a fallback) so the caller's error handling never runs",
+    examples: [
+      "if (!res.ok) return null; // was throw; caller's catch shows the error message",
+      "if (!user) throw new Error('missing'); // was return GUEST_USER; caller has no try/catch",
+    ],
+    sampleSymptom: "Login form: Entering a wrong password shows a blank dashboard instead of the 'Invalid credentials' message.",
+  },
+];
@@ -0,0 +1,191 @@
+import path from "path";
+import ts from "typescript";
+
+/** A file and its content, as passed to the graph builder */
+export interface SourceFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * A call relationship between two files: `caller` imports `symbols` from `callee`
+ * and calls them at `callSites` places.
+ */
+export interface CrossFileLink {
+  /** Path of the importing file */
+  caller: string;
+  /** Path of the file that defines the called functions */
+  callee: string;
+  /** Exported names of the functions/classes the caller calls */
+  symbols: string[];
+  /** Number of call (or `new`) expressions in the caller that target those symbols */
+  callSites: number;
+}
+
+/** Extensions the graph builder can parse (JS/TS family) */
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JSX,
+  jsx: ts.ScriptKind.JSX,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+};
+
+/** Suffixes tried when resolving an extensionless import specifier */
+const RESOLVE_SUFFIXES = [
+  "",
+  ...Object.keys(SCRIPT_KINDS).map((ext) => `.${ext}`),
+  ...Object.keys(SCRIPT_KINDS).map((ext) => `/index.${ext}`),
+];
+
+/** Path alias prefixes mapped to the directories they usually point at */
+const ALIAS_ROOTS: Record<string, string[]> = {
+  "@/": ["", "src/"],
+  "~/": ["", "src/"],
+};
+
+/**
+ * Gets the TypeScript script kind for a file, or null if the graph can't parse it.
+ *
+ * @param filename - File path
+ * @returns Script kind, or null for non JS/TS files
+ */
+function getScriptKind(filename: string): ts.ScriptKind | null {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+  return SCRIPT_KINDS[ext] ?? null;
+}
+
+/**
+ * Resolves an import specifier to one of the known files.
+ * Only relative imports and common path aliases (`@/`, `~/`) are resolved;
+ * package imports never point at files in the commit.
+ *
+ * @param importer - Path of the importing file
+ * @param specifier - Module specifier from the import
+ * @param knownPaths - Paths of the files in the graph
+ * @returns Resolved path, or null if the import doesn't point at a known file
+ */
+function resolveImport(importer: string, specifier: string, knownPaths: Set<string>): string | null {
+  let bases: string[];
+  if (specifier.startsWith(".")) {
+    bases = [path.posix.join(path.posix.dirname(importer), specifier)];
+  } else {
+    const alias = Object.keys(ALIAS_ROOTS).find((prefix) => specifier.startsWith(prefix));
+    if (!alias) return null;
+    bases = ALIAS_ROOTS[alias].map((root) => path.posix.normalize(root + specifier.slice(alias.length)));
+  }
+
+  for (const base of bases) {
+    // ESM-style TS imports often spell the compiled extension ("./utils.js" for utils.ts)
+    const stripped = base.replace(/\.(m|c)?js$/, "");
+    for (const candidate of [base, stripped]) {
+      for (const suffix of RESOLVE_SUFFIXES) {
+        if (knownPaths.has(candidate + suffix)) return candidate + suffix;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Collects value imports from files in the graph.
+ *
+ * @param sourceFile - Parsed importing file
+ * @param knownPaths - Paths of the files in the graph
+ * @returns Local name -> { callee path, exported name } for named/default imports,
+ *          and namespace name -> callee path for `import * as ns`
+ */
+function collectImports(sourceFile: ts.SourceFile, knownPaths: Set<string>) {
+  const named = new Map<string, { callee: string; exported: string }>();
+  const namespaces = new Map<string, string>();
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const clause = statement.importClause;
+    if (!clause || clause.isTypeOnly) continue;
+
+    const callee = resolveImport(sourceFile.fileName, statement.moduleSpecifier.text, knownPaths);
+    if (!callee || callee === sourceFile.fileName) continue;
+
+    if (clause.name) {
+      named.set(clause.name.text, { callee, exported: "default" });
+    }
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      namespaces.set(bindings.name.text, callee);
+    } else if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        if (element.isTypeOnly) continue;
+        named.set(element.name.text, { callee, exported: (element.propertyName ?? element.name).text });
+      }
+    }
+  }
+
+  return { named, namespaces };
+}
+
+/**
+ * Builds a lightweight import/call graph across a set of files.
+ * Only JS/TS files are parsed; imports are resolved against the given files only
+ * (no filesystem or node_modules lookups), so the graph covers exactly the files
+ * of a commit. Links are only created for imports that are actually called.
+ *
+ * @param files - Files to analyze
+ * @returns Caller -> callee links, most-called first
+ */
+export function buildCallGraph(files: SourceFile[]): CrossFileLink[] {
+  const knownPaths = new Set(files.filter((file) => getScriptKind(file.path) !== null).map((file) => file.path));
+  const links: CrossFileLink[] = [];
+
+  for (const file of files) {
+    const scriptKind = getScriptKind(file.path);
+    if (scriptKind === null) continue;
+
+    const sourceFile = ts.createSourceFile(file.path, file.content, ts.ScriptTarget.Latest, true, scriptKind);
+    const { named, namespaces } = collectImports(sourceFile, knownPaths);
+    if (named.size === 0 && namespaces.size === 0) continue;
+
+    // callee path -> exported symbol -> call count
+    const calls = new Map<string, Map<string, number>>();
+    const record = (callee: string, symbol: string) => {
+      const symbols = calls.get(callee) ?? new Map<string, number>();
+      symbols.set(symbol, (symbols.get(symbol) ?? 0) + 1);
+      calls.set(callee, symbols);
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+        const target = node.expression;
+        if (ts.isIdentifier(target) && named.has(target.text)) {
+          const { callee, exported } = named.get(target.text)!;
+          record(callee, exported);
+        } else if (
+          ts.isPropertyAccessExpression(target) &&
+          ts.isIdentifier(target.expression) &&
+          namespaces.has(target.expression.text)
+        ) {
+          record(namespaces.get(target.expression.text)!, target.name.text);
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+
+    for (const [callee, symbols] of calls) {
+      links.push({
+        caller: file.path,
+        callee,
+        symbols: [...symbols.keys()].sort(),
+        callSites: [...symbols.values()].reduce((sum, count) => sum + count, 0),
+      });
+    }
+  }
+
+  // Stable order so seeded selection is reproducible
+  return links.sort(
+    (a, b) => b.callSites - a.callSites || a.caller.localeCompare(b.caller) || a.callee.localeCompare(b.callee)
+  );
+}
@@ -0,0 +1,104 @@
+import ts from "typescript";
+
+/** Extensions parsed with the TypeScript AST (JS/TS family) */
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  js: ts.ScriptKind.JSX,
+  jsx: ts.ScriptKind.JSX,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+};
+
+/**
+ * Function declaration patterns for other languages, checked line by line
+ * upwards from the target line. The first capture group is the function name.
+ */
+const FUNCTION_PATTERNS: RegExp[] = [
+  /^\s*(?:async\s+)?def\s+(\w+)\s*\(/, // Python, Ruby
+  /^\s*def\s+(?:self\.)?(\w+[?!]?)/, // Ruby
+  /^\s*func\s+(?:\([^)]*\)\s*)?(\w+)\s*[(<[]/, // Go
+  /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?fn\s+(\w+)/, // Rust
+  /^\s*(?:(?:public|private|protected|static|final|abstract|function)\s+)*function\s+&?(\w+)\s*\(/, // PHP
+  /^\s*(?:(?:public|private|protected|internal|static|final|virtual|override|async|abstract|synchronized|inline|const|unsafe)\s+)*[\w<>[\],.?*&:\s]+?\s+[*&]*(\w+)\s*\([^;]*$/, // Java, C#, C, C++
+];
+
+/** Keywords the C-family pattern can mistake for function names */
+const CONTROL_KEYWORDS = new Set(["if", "for", "while", "switch", "catch", "return", "else", "new", "sizeof"]);
+
+/**
+ * Gets the name of a function-like AST node, including arrow functions
+ * assigned to variables/properties and class methods (as Class.method).
+ *
+ * @param node - Function-like node
+ * @returns The name, or null for anonymous functions
+ */
+function getFunctionName(node: ts.Node): string | null {
+  let name: string | null = null;
+
+  if (
+    (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isFunctionExpression(node) ||
+      ts.isGetAccessorDeclaration(node) || ts.isSetAccessorDeclaration(node)) &&
+    node.name
+  ) {
+    name = node.name.getText();
+  } else if (ts.isConstructorDeclaration(node)) {
+    name = "constructor";
+  }
+
+  // Arrow functions and anonymous function expressions take the name they're assigned to
+  if (!name && (ts.isArrowFunction(node) || ts.isFunctionExpression(node))) {
+    const parent = node.parent;
+    if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.name) {
+      name = parent.name.getText();
+    }
+  }
+
+  if (name && node.parent && ts.isClassLike(node.parent) && node.parent.name) {
+    return `${node.parent.name.text}.${name}`;
+  }
+  return name;
+}
+
+/**
+ * Finds the name of the innermost named function containing a line.
+ * JS/TS files use the TypeScript AST; other languages use the nearest function
+ * declaration above the line (a heuristic - good enough for hints).
+ *
+ * @param content - File content
+ * @param filename - File path (used to pick the parser)
+ * @param line - 1-based line number
+ * @returns The function name, or null if the line isn't inside a named function
+ */
+export function findEnclosingFunction(content: string, filename: string, line: number): string | null {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+  const lines = content.split("\n");
+  if (line < 1 || line > lines.length) return null;
+
+  const scriptKind = SCRIPT_KINDS[ext];
+  if (scriptKind !== undefined) {
+    const sourceFile = ts.createSourceFile(filename, content, ts.ScriptTarget.Latest, true, scriptKind);
+    const position = sourceFile.getPositionOfLineAndCharacter(line - 1, 0) + (lines[line - 1].length - lines[line - 1].trimStart().length);
+
+    let innermost: string | null = null;
+    const visit = (node: ts.Node) => {
+      if (position < node.getStart(sourceFile) || position >= node.getEnd()) return;
+      if (ts.isFunctionLike(node)) {
+        innermost = getFunctionName(node) ?? innermost;
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return innermost;
+  }
+
+  for (let i = line - 1; i >= 0; i--) {
+    for (const pattern of FUNCTION_PATTERNS) {
+      const match = lines[i].match(pattern);
+      if (match && !CONTROL_KEYWORDS.has(match[1])) return match[1];
+    }
+  }
+  return null;
+}
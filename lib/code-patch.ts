@@ -0,0 +1,226 @@
+/**
+ * An anchored search/replace edit returned by the AI.
+ * `search` must match exactly one location in the original file.
+ */
+export interface EditHunk {
+  /** Exact snippet copied from the original file */
+  search: string;
+  /** Text that replaces the snippet */
+  replace: string;
+}
+
+/**
+ * Custom error class for hunks that can't be applied to a file.
+ */
+export class PatchApplyError extends Error {
+  constructor(message: string, public readonly hunkIndex: number) {
+    super(message);
+    this.name = "PatchApplyError";
+  }
+}
+
+/**
+ * Where an applied hunk ended up, for building a bug map.
+ * Line numbers are 1-based and refer to the PATCHED content.
+ */
+export interface EditLocation {
+  /** First line of the replacement */
+  lineStart: number;
+  /** Last line of the replacement (same as lineStart for deletions) */
+  lineEnd: number;
+  /** Exact original text that was replaced */
+  original: string;
+  /** Text it was replaced with */
+  replacement: string;
+}
+
+/** A hunk resolved to a character range in the original content */
+interface ResolvedHunk {
+  index: number;
+  start: number;
+  end: number;
+  replace: string;
+}
+
+/**
+ * Finds every start offset of `needle` in `haystack`.
+ *
+ * @param haystack - Text to search
+ * @param needle - Text to find
+ * @returns All match offsets (may overlap)
+ */
+function findAll(haystack: string, needle: string): number[] {
+  const offsets: number[] = [];
+  let offset = haystack.indexOf(needle);
+  while (offset !== -1) {
+    offsets.push(offset);
+    offset = haystack.indexOf(needle, offset + 1);
+  }
+  return offsets;
+}
+
+/**
+ * Locates a snippet line-by-line, ignoring trailing whitespace and line ending differences.
+ * Models frequently drop trailing spaces or normalize CRLF when copying code.
+ *
+ * @param content - Original file content
+ * @param search - Snippet to locate
+ * @returns Character ranges of every match in the original content
+ */
+function findAllLoose(content: string, search: string): { start: number; end: number }[] {
+  const contentLines = content.split("\n");
+  const searchLines = search.replace(/\r\n/g, "\n").split("\n");
+
+  // Drop leading/trailing blank lines the model may have added around the snippet
+  while (searchLines.length > 1 && searchLines[0].trim() === "") searchLines.shift();
+  while (searchLines.length > 1 && searchLines[searchLines.length - 1].trim() === "") searchLines.pop();
+
+  const normalize = (line: string) => line.replace(/\s+$/, "");
+  const normalizedSearch = searchLines.map(normalize);
+
+  // Offset of the start of each line in the original content
+  const lineOffsets: number[] = [];
+  let offset = 0;
+  for (const line of contentLines) {
+    lineOffsets.push(offset);
+    offset += line.length + 1;
+  }
+
+  const matches: { start: number; end: number }[] = [];
+  for (let i = 0; i + normalizedSearch.length <= contentLines.length; i++) {
+    let matched = true;
+    for (let j = 0; j < normalizedSearch.length; j++) {
+      if (normalize(contentLines[i + j]) !== normalizedSearch[j]) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) {
+      const lastLine = i + normalizedSearch.length - 1;
+      // Keep the original line's trailing whitespace/CR outside the replaced range
+      const end = lineOffsets[lastLine] + normalize(contentLines[lastLine]).length;
+      matches.push({ start: lineOffsets[i], end });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Resolves a hunk to a unique character range in the original content.
+ *
+ * @param content - Original file content
+ * @param hunk - Hunk to resolve
+ * @param index - Position of the hunk in the edit list (for error messages)
+ * @returns The resolved range
+ * @throws PatchApplyError if the snippet is empty, missing, or ambiguous
+ */
+function resolveHunk(content: string, hunk: EditHunk, index: number): ResolvedHunk {
+  const label = `Edit ${index + 1}`;
+
+  if (hunk.search.trim().length === 0) {
+    throw new PatchApplyError(`${label}: "search" is empty`, index);
+  }
+
+  const exact = findAll(content, hunk.search);
+  if (exact.length === 1) {
+    return { index, start: exact[0], end: exact[0] + hunk.search.length, replace: hunk.replace };
+  }
+  if (exact.length > 1) {
+    throw new PatchApplyError(
+      `${label}: "search" matches ${exact.length} locations - include more surrounding lines so it is unique`,
+      index
+    );
+  }
+
+  const loose = findAllLoose(content, hunk.search);
+  if (loose.length === 1) {
+    return { index, ...loose[0], replace: hunk.replace };
+  }
+  if (loose.length > 1) {
+    throw new PatchApplyError(
+      `${label}: "search" matches ${loose.length} locations - include more surrounding lines so it is unique`,
+      index
+    );
+  }
+
+  const preview = hunk.search.length > 120 ? `${hunk.search.substring(0, 120)}...` : hunk.search;
+  throw new PatchApplyError(
+    `${label}: "search" text was not found in the file. It must be copied exactly from the original code: "${preview}"`,
+    index
+  );
+}
+
+/**
+ * Applies anchored search/replace hunks to a file.
+ *
+ * Every hunk is located in the ORIGINAL content (not in the output of earlier hunks),
+ * must match exactly one location, and must not overlap another hunk. If any hunk
+ * fails, nothing is applied.
+ *
+ * @param content - Original file content
+ * @param hunks - Edits to apply
+ * @returns The patched file content
+ * @throws PatchApplyError if any hunk is missing, ambiguous, or overlaps another
+ */
+export function applyEditHunks(content: string, hunks: EditHunk[]): string {
+  const resolved = resolveAllHunks(content, hunks);
+
+  // Apply from the end so earlier offsets stay valid
+  let patched = content;
+  for (let i = resolved.length - 1; i >= 0; i--) {
+    const { start, end, replace } = resolved[i];
+    patched = patched.slice(0, start) + replace + patched.slice(end);
+  }
+  return patched;
+}
+
+/**
+ * Locates where each hunk lands once applied, without applying them.
+ * Hunks are validated exactly like `applyEditHunks`.
+ *
+ * @param content - Original file content
+ * @param hunks - Edits to locate
+ * @returns One location per hunk, in the same order as `hunks`
+ * @throws PatchApplyError if any hunk is missing, ambiguous, or overlaps another
+ */
+export function locateEditHunks(content: string, hunks: EditHunk[]): EditLocation[] {
+  const resolved = resolveAllHunks(content, hunks);
+  const locations: EditLocation[] = new Array(hunks.length);
+  const countNewlines = (text: string) => text.split("\n").length - 1;
+
+  // Lines added (or removed) by the hunks before the current one
+  let lineDelta = 0;
+  for (const { index, start, end, replace } of resolved) {
+    const original = content.slice(start, end);
+    const lineStart = countNewlines(content.slice(0, start)) + 1 + lineDelta;
+    const spannedLines = Math.max(1, countNewlines(replace.replace(/\n$/, "")) + 1);
+
+    locations[index] = { lineStart, lineEnd: lineStart + spannedLines - 1, original, replacement: replace };
+    lineDelta += countNewlines(replace) - countNewlines(original);
+  }
+  return locations;
+}
+
+/**
+ * Resolves all hunks against the original content and checks they don't overlap.
+ *
+ * @param content - Original file content
+ * @param hunks - Edits to resolve
+ * @returns Resolved hunks sorted by position
+ * @throws PatchApplyError if any hunk is missing, ambiguous, or overlaps another
+ */
+function resolveAllHunks(content: string, hunks: EditHunk[]): ResolvedHunk[] {
+  const resolved = hunks
+    .map((hunk, index) => resolveHunk(content, hunk, index))
+    .sort((a, b) => a.start - b.start);
+
+  for (let i = 1; i < resolved.length; i++) {
+    if (resolved[i].start < resolved[i - 1].end) {
+      throw new PatchApplyError(
+        `Edit ${resolved[i].index + 1} overlaps edit ${resolved[i - 1].index + 1} - combine them into a single edit`,
+        resolved[i].index
+      );
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,116 @@
+import ts from "typescript";
+import { parseAllDocuments } from "yaml";
+
+/** Maximum number of syntax errors reported back for one file */
+const MAX_REPORTED_ERRORS = 5;
+
+/** Extensions parsed with the TypeScript compiler API */
+const SCRIPT_EXTENSIONS = ["ts", "tsx", "mts", "cts", "js", "jsx", "mjs", "cjs"];
+
+/**
+ * Parses a TS/TSX/JS file with the TypeScript compiler and collects syntax errors.
+ * Type errors are ignored - only problems that stop the file from parsing are reported.
+ *
+ * @param filename - File path (the extension selects TS vs TSX vs JS parsing)
+ * @param content - File content
+ * @returns Syntax error descriptions with line numbers
+ */
+function findScriptSyntaxErrors(filename: string, content: string): string[] {
+  // Plain .js files commonly contain JSX (e.g., React projects), so parse them as JSX
+  const parseAs = filename.toLowerCase().endsWith(".js") ? `${filename}x` : filename;
+
+  const { diagnostics = [] } = ts.transpileModule(content, {
+    fileName: parseAs,
+    reportDiagnostics: true,
+    compilerOptions: {
+      jsx: ts.JsxEmit.Preserve,
+      allowJs: true,
+      noEmitHelpers: true,
+    },
+  });
+
+  return diagnostics
+    .filter((diagnostic) => diagnostic.category === ts.DiagnosticCategory.Error && diagnostic.file)
+    .map((diagnostic) => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+      const { line, character } = ts.getLineAndCharacterOfPosition(diagnostic.file!, diagnostic.start ?? 0);
+      return `Line ${line + 1}, column ${character + 1}: ${message}`;
+    });
+}
+
+/**
+ * Parses a JSON file and collects the syntax error, if any.
+ *
+ * @param content - File content
+ * @returns Syntax error descriptions
+ */
+function findJsonSyntaxErrors(content: string): string[] {
+  try {
+    JSON.parse(content);
+    return [];
+  } catch (error) {
+    return [error instanceof Error ? error.message : "Invalid JSON"];
+  }
+}
+
+/**
+ * Parses a YAML file (including multi-document files) and collects syntax errors.
+ *
+ * @param content - File content
+ * @returns Syntax error descriptions
+ */
+function findYamlSyntaxErrors(content: string): string[] {
+  return parseAllDocuments(content).flatMap((document) =>
+    "errors" in document ? document.errors.map((error) => error.message) : []
+  );
+}
+
+/**
+ * Parses a file locally and collects syntax errors.
+ * Covers TS/TSX/JS via the TypeScript compiler API, plus JSON and YAML.
+ *
+ * @param filename - File path used to pick the parser
+ * @param content - File content
+ * @returns Syntax error descriptions, or null if the file type isn't supported
+ */
+export function findSyntaxErrors(filename: string, content: string): string[] | null {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+
+  if (SCRIPT_EXTENSIONS.includes(ext)) return findScriptSyntaxErrors(filename, content);
+  if (ext === "json") return findJsonSyntaxErrors(content);
+  if (ext === "yaml" || ext === "yml") return findYamlSyntaxErrors(content);
+
+  return null;
+}
+
+/**
+ * Checks that a buggered file still parses.
+ *
+ * Files whose ORIGINAL content doesn't parse (e.g., JSON with comments, Flow annotations)
+ * can't be verified and are accepted, as are unsupported file types.
+ *
+ * @param filename - File path used to pick the parser
+ * @param originalContent - Content before bugs were introduced
+ * @param modifiedContent - Content after bugs were introduced
+ * @returns A description of the syntax errors to feed back to the AI, or null if the file parses
+ */
+export function verifyModifiedSyntax(
+  filename: string,
+  originalContent: string,
+  modifiedContent: string
+): string | null {
+  const modifiedErrors = findSyntaxErrors(filename, modifiedContent);
+  if (!modifiedErrors || modifiedErrors.length === 0) return null;
+
+  const originalErrors = findSyntaxErrors(filename, originalContent);
+  if (originalErrors && originalErrors.length > 0) {
+    console.warn(`[Verify] Skipping syntax check for ${filename}: original file doesn't parse either`);
+    return null;
+  }
+
+  const reported = modifiedErrors.slice(0, MAX_REPORTED_ERRORS).join("\n");
+  const more = modifiedErrors.length > MAX_REPORTED_ERRORS
+    ? `\n(${modifiedErrors.length - MAX_REPORTED_ERRORS} more)`
+    : "";
+  return `The edited file no longer parses. Bugs must be runtime/logic bugs, never syntax errors. Parser errors:\n${reported}${more}`;
+}
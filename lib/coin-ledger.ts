@@ -0,0 +1,115 @@
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Thrown inside a transaction to roll it back when the user can't afford a charge.
+ */
+export class InsufficientCoinsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InsufficientCoinsError";
+  }
+}
+
+/**
+ * Why a user's coin balance changed.
+ */
+export type CoinTransactionReason =
+  | "opening_balance"
+  | "welcome"
+  | "challenge"
+  | "challenge_refund"
+  | "broken_refund"
+  | "hint"
+  | "invite_bonus"
+  | "signup_bonus";
+
+/**
+ * Labels for the ledger UI. Shared between client (profile ledger) and server.
+ */
+export const COIN_TRANSACTION_LABELS: Record<CoinTransactionReason, string> = {
+  opening_balance: "Opening balance",
+  welcome: "Welcome coins",
+  challenge: "Challenge created",
+  challenge_refund: "Challenge refund",
+  broken_refund: "Broken challenge refund",
+  hint: "Hint revealed",
+  invite_bonus: "First invite bonus",
+  signup_bonus: "Friend signed up",
+};
+
+/**
+ * A change to a user's coins.
+ */
+export interface CoinChange {
+  userId: string;
+  /** Coins added (positive) or taken (negative) */
+  amount: number;
+  reason: CoinTransactionReason;
+  /** Shown in the ledger under the reason */
+  description?: string;
+  buggerId?: string | null;
+  invitationId?: string | null;
+}
+
+/**
+ * Changes a user's coins and records the change in the ledger. Call it inside the
+ * transaction that makes the change, so the balance and its ledger row can't disagree.
+ *
+ * @param tx - Transaction client
+ * @param change - Amount, reason and what it relates to
+ * @param options.requireFunds - Only take the coins if the user has them (guards concurrent spending)
+ * @returns Balance after the change, or null if requireFunds was set and the user couldn't afford it
+ */
+export async function applyCoinChange(
+  tx: Prisma.TransactionClient,
+  change: CoinChange,
+  options: { requireFunds?: boolean } = {}
+): Promise<number | null> {
+  const { userId, amount } = change;
+  const updated = await tx.user.updateMany({
+    where: { id: userId, ...(options.requireFunds && amount < 0 ? { coins: { gte: -amount } } : {}) },
+    data: { coins: { increment: amount } },
+  });
+  if (updated.count === 0) return null;
+
+  const { coins } = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { coins: true } });
+  await tx.coinTransaction.create({
+    data: {
+      userId,
+      amount,
+      reason: change.reason,
+      description: change.description,
+      buggerId: change.buggerId,
+      invitationId: change.invitationId,
+      balanceAfter: coins,
+    },
+  });
+  return coins;
+}
+
+/**
+ * Gives back everything a user spent on a challenge (its price and any hints), net of
+ * earlier refunds. Used when a challenge turns out to be broken.
+ *
+ * @param tx - Transaction client
+ * @param userId - Owner of the challenge
+ * @param buggerId - Challenge to refund
+ * @param description - Shown in the ledger
+ * @returns Coins refunded (0 if nothing was left to refund)
+ */
+export async function refundChallenge(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  buggerId: string,
+  description: string
+): Promise<number> {
+  const { _sum } = await tx.coinTransaction.aggregate({
+    where: { userId, buggerId },
+    _sum: { amount: true },
+  });
+  const spent = -(_sum.amount ?? 0);
+  if (spent <= 0) return 0;
+
+  await applyCoinChange(tx, { userId, amount: spent, reason: "broken_refund", description, buggerId });
+  return spent;
+}
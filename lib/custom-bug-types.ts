@@ -0,0 +1,106 @@
+import { z } from "zod";
+import type { CustomBugType } from "@prisma/client";
+import { prisma } from "./prisma";
+import type { BugType } from "./bug-types";
+import { Language, LANGUAGE_NAMES } from "./languages";
+import { isOrgMember } from "./github";
+
+/** Prefix for the ids of custom bug types, so they never collide with the built-in catalog */
+const CUSTOM_ID_PREFIX = "custom-";
+
+/**
+ * Schema for creating or updating a custom bug type.
+ * Categories are normalized to the catalog's UPPER_SNAKE_CASE (e.g. "money handling" -> "MONEY_HANDLING").
+ */
+export const customBugTypeInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  category: z
+    .string()
+    .trim()
+    .min(1)
+    .max(50)
+    .transform((category) => category.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_|_$/g, "")),
+  description: z.string().trim().min(1).max(1000),
+  examples: z.array(z.string().trim().min(1).max(500)).min(1).max(10),
+  sampleSymptom: z.string().trim().min(1).max(500),
+  framework: z.string().trim().toLowerCase().max(50).nullish().transform((value) => value || null),
+  language: z
+    .enum(Object.keys(LANGUAGE_NAMES) as [Language, ...Language[]])
+    .nullish()
+    .transform((value) => value ?? null),
+  orgLogin: z.string().trim().max(100).nullish().transform((value) => value || null),
+  enabled: z.boolean().optional(),
+});
+
+export type CustomBugTypeInput = z.infer<typeof customBugTypeInputSchema>;
+
+/**
+ * Converts a stored custom bug type into the catalog's BugType shape.
+ *
+ * @param customType - CustomBugType row
+ * @returns BugType usable by bug selection and prompts
+ */
+export function toBugType(customType: CustomBugType): BugType {
+  return {
+    id: `${CUSTOM_ID_PREFIX}${customType.id}`,
+    category: customType.category,
+    name: customType.name,
+    description: customType.description,
+    examples: customType.examples,
+    sampleSymptom: customType.sampleSymptom,
+    ...(customType.framework && { framework: customType.framework }),
+    ...(customType.language && { language: customType.language as Language }),
+  };
+}
+
+/**
+ * Checks whether a bug type id belongs to a custom bug type.
+ *
+ * @param bugTypeId - BugType id
+ * @returns True for custom bug types
+ */
+export function isCustomBugTypeId(bugTypeId: string): boolean {
+  return bugTypeId.startsWith(CUSTOM_ID_PREFIX);
+}
+
+/**
+ * Loads the custom bug types that apply to a challenge: the user's personal types
+ * plus every type shared with the organization that owns the repository.
+ *
+ * @param userId - ID of the user creating the challenge
+ * @param repoOwner - Owner (user or organization login) of the repository
+ * @returns Enabled custom bug types as BugTypes
+ */
+export async function loadCustomBugTypes(userId: string, repoOwner: string): Promise<BugType[]> {
+  const customTypes = await prisma.customBugType.findMany({
+    where: {
+      enabled: true,
+      OR: [
+        { userId, orgLogin: null },
+        { orgLogin: { equals: repoOwner, mode: "insensitive" } },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return customTypes.map(toBugType);
+}
+
+/**
+ * Checks whether a user may share custom bug types with an organization.
+ * Users can share with organizations they belong to, and with their own account
+ * (applies to everyone's challenges on their repositories).
+ *
+ * @param accessToken - GitHub OAuth access token
+ * @param orgLogin - Organization (or user) login to share with
+ * @param gitUsername - The user's own GitHub username
+ * @returns True if sharing is allowed
+ */
+export async function canShareWithOrg(
+  accessToken: string,
+  orgLogin: string,
+  gitUsername: string | null
+): Promise<boolean> {
+  if (gitUsername && gitUsername.toLowerCase() === orgLogin.toLowerCase()) return true;
+  return isOrgMember(accessToken, orgLogin);
+}
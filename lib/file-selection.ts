@@ -0,0 +1,281 @@
+import type { RandomSource } from "./random";
+
+/**
+ * How challenge files are picked from the candidates.
+ */
+export type FileSelectionStrategyId = "balanced" | "logic" | "churn" | "random";
+
+/** Whether a file renders UI or handles data/logic */
+export type FileKind = "ui" | "data";
+
+/** Signals a file is scored on */
+type ScoringFactorId = "logic" | "churn" | "random";
+
+/**
+ * A strategy: how much each factor weighs, and whether to mix UI and data files.
+ */
+export interface FileSelectionStrategy {
+  id: FileSelectionStrategyId;
+  label: string;
+  description: string;
+  weights: Partial<Record<ScoringFactorId, number>>;
+  /** Alternate between UI and data files when both are available */
+  balanceKinds: boolean;
+}
+
+/**
+ * Available strategies. Shared between client (strategy picker) and server (selection).
+ */
+export const FILE_SELECTION_STRATEGIES: Record<FileSelectionStrategyId, FileSelectionStrategy> = {
+  balanced: {
+    id: "balanced",
+    label: "Balanced",
+    description: "Logic-heavy, recently changed files, mixing UI and data code",
+    weights: { logic: 0.5, churn: 0.3, random: 0.2 },
+    balanceKinds: true,
+  },
+  logic: {
+    id: "logic",
+    label: "Logic density",
+    description: "Files with the most functions and branches",
+    weights: { logic: 0.85, random: 0.15 },
+    balanceKinds: false,
+  },
+  churn: {
+    id: "churn",
+    label: "Recent churn",
+    description: "Files changed most often in recent commits",
+    weights: { churn: 0.7, logic: 0.2, random: 0.1 },
+    balanceKinds: false,
+  },
+  random: {
+    id: "random",
+    label: "Random",
+    description: "Any eligible file, picked at random",
+    weights: { random: 1 },
+    balanceKinds: false,
+  },
+};
+
+export const DEFAULT_FILE_SELECTION_STRATEGY: FileSelectionStrategyId = "balanced";
+
+/**
+ * A candidate file for a challenge.
+ */
+export interface CandidateFile {
+  path: string;
+  content: string;
+  /** Number of recent commits that touched the file (null if unknown) */
+  churn?: number | null;
+}
+
+/**
+ * A scored candidate, with the reasons it ranks where it does.
+ */
+export interface ScoredFile {
+  path: string;
+  kind: FileKind;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * A file that must be selected regardless of its score (e.g. a cross-file pair).
+ */
+export interface PinnedFile {
+  path: string;
+  reason: string;
+}
+
+/** Result of one scoring factor for one file */
+interface FactorScore {
+  /** 0..1 */
+  score: number;
+  /** Why the file scored this way (null if not worth explaining) */
+  reason: string | null;
+}
+
+const LOCKFILES = new Set([
+  "package-lock.json", "npm-shrinkwrap.json", "pnpm-lock.yaml", "yarn.lock", "bun.lock", "deno.lock",
+  "composer.lock", "Cargo.lock", "Gemfile.lock", "poetry.lock", "Pipfile.lock",
+]);
+
+const GENERATED_PATH_PATTERN = /(^|\/)(__generated__|generated|dist|build|vendor)\/|\.d\.ts$|\.generated\.\w+$|\.pb\.go$/i;
+const GENERATED_HEADER_PATTERN = /@generated|do not edit|auto-?generated|code generated by/i;
+const MINIFIED_PATH_PATTERN = /\.min\.(js|css)$/i;
+const FIXTURE_PATH_PATTERN = /(^|\/)(__fixtures__|fixtures?|__mocks__|__snapshots__|testdata)\//i;
+const TEST_PATH_PATTERN = /(^|\/)__tests__\/|\.(test|spec)\.\w+$|(^|\/)test_[^/]+\.py$|_test\.(go|py)$/i;
+
+const UI_EXTENSIONS = new Set(["tsx", "jsx", "vue", "svelte", "astro", "html", "htm", "css", "scss", "sass", "less"]);
+const UI_PATH_PATTERN = /(^|\/)(components?|pages|views|screens|layouts|ui|app\/\(.*\))\//i;
+
+/**
+ * Checks whether a file only imports and re-exports (an index/barrel file).
+ *
+ * @param content - File content
+ * @returns True if at least 80% of the non-blank lines are imports or re-exports
+ */
+function isBarrelFile(content: string): boolean {
+  const lines = content.split("\n").map((line) => line.trim()).filter(Boolean);
+  const reexports = lines.filter((line) => /^(export\s+(\*|\{[^}]*\}|type\s+\{[^}]*\})\s+from\b|import\s)/.test(line));
+  return lines.length > 0 && reexports.length / lines.length >= 0.8;
+}
+
+/**
+ * Finds a reason a file shouldn't be buggered at all: generated code, minified bundles,
+ * lockfiles, tests, test fixtures and barrel files. Bugs there teach nothing or never show up.
+ *
+ * @param filePath - Repository file path
+ * @param content - File content
+ * @returns Exclusion reason, or null if the file is eligible
+ */
+export function findExclusionReason(filePath: string, content: string): string | null {
+  if (LOCKFILES.has(filePath.split("/").pop() || "")) return "Lockfile";
+  if (FIXTURE_PATH_PATTERN.test(filePath)) return "Test fixture";
+  if (TEST_PATH_PATTERN.test(filePath)) return "Test file";
+  if (GENERATED_PATH_PATTERN.test(filePath)) return "Generated file";
+  if (GENERATED_HEADER_PATTERN.test(content.split("\n").slice(0, 5).join("\n"))) return "Generated file";
+  if (isBarrelFile(content)) return "Only imports/re-exports";
+
+  const lines = content.split("\n");
+  // reduce, not Math.max(...): spreading a very large file's lines overflows the call stack
+  const longestLine = lines.reduce((longest, line) => Math.max(longest, line.length), 0);
+  if (MINIFIED_PATH_PATTERN.test(filePath) || content.length / lines.length > 250 || longestLine > 2000) {
+    return "Minified file";
+  }
+  return null;
+}
+
+/**
+ * Classifies a file as UI (components, pages, styles, markup) or data (everything else).
+ *
+ * @param filePath - Repository file path
+ * @returns File kind
+ */
+export function classifyFileKind(filePath: string): FileKind {
+  const ext = filePath.split(".").pop()?.toLowerCase() || "";
+  return UI_EXTENSIONS.has(ext) || UI_PATH_PATTERN.test(filePath) ? "ui" : "data";
+}
+
+/**
+ * Scores how much logic a file holds, with diminishing returns for very large files.
+ *
+ * @param file - Candidate file
+ * @returns Score with the function/branch counts as the reason
+ */
+function scoreLogicDensity(file: CandidateFile): FactorScore {
+  const functions = (
+    file.content.match(
+      /\bfunction\b|=>|\bdef\s+\w+|\bfunc\s+\w*|\bfn\s+\w+|\b(?:public|private|protected|static)\s+[\w<>[\],\s]+\s\w+\s*\(/g
+    ) ?? []
+  ).length;
+  const branches = (file.content.match(/\b(?:if|elif|switch|case|for|while|catch|except)\b|&&|\|\||\?(?![?.:])/g) ?? [])
+    .length;
+
+  const points = functions * 2 + branches;
+  return {
+    score: 1 - Math.exp(-points / 30),
+    reason: `${functions} function${functions === 1 ? "" : "s"}, ${branches} branch${branches === 1 ? "" : "es"}`,
+  };
+}
+
+/**
+ * Scores how often a file changed recently.
+ *
+ * @param file - Candidate file
+ * @returns Score with the commit count as the reason
+ */
+function scoreChurn(file: CandidateFile): FactorScore {
+  if (file.churn === null || file.churn === undefined) return { score: 0, reason: null };
+  return {
+    score: Math.min(1, file.churn / 10),
+    reason: file.churn === 0 ? "No recent commits" : `Changed in ${file.churn} recent commit${file.churn === 1 ? "" : "s"}`,
+  };
+}
+
+/**
+ * Scores a candidate against a strategy's factors.
+ *
+ * @param file - Candidate file
+ * @param strategy - Strategy to score with
+ * @param random - Seeded random source (tie-breaking and the random strategy)
+ * @returns Scored file
+ */
+function scoreFile(file: CandidateFile, strategy: FileSelectionStrategy, random: RandomSource): ScoredFile {
+  const factors: Record<ScoringFactorId, () => FactorScore> = {
+    logic: () => scoreLogicDensity(file),
+    churn: () => scoreChurn(file),
+    random: () => ({ score: random(), reason: strategy.id === "random" ? "Picked at random" : null }),
+  };
+
+  let score = 0;
+  const reasons: string[] = [];
+  for (const [factorId, weight] of Object.entries(strategy.weights) as [ScoringFactorId, number][]) {
+    const factor = factors[factorId]();
+    score += weight * factor.score;
+    if (factor.reason) reasons.push(factor.reason);
+  }
+  return { path: file.path, kind: classifyFileKind(file.path), score, reasons };
+}
+
+/**
+ * Parses a strategy from a request body.
+ *
+ * @param raw - Value from the request body
+ * @returns The strategy (the default if missing or unknown)
+ */
+export function parseFileSelectionStrategy(raw: unknown): FileSelectionStrategy {
+  return typeof raw === "string" && raw in FILE_SELECTION_STRATEGIES
+    ? FILE_SELECTION_STRATEGIES[raw as FileSelectionStrategyId]
+    : FILE_SELECTION_STRATEGIES[DEFAULT_FILE_SELECTION_STRATEGY];
+}
+
+/**
+ * Picks the challenge files: pinned files first, then the highest-scoring candidates.
+ * Strategies that balance kinds take the best file of whichever kind (UI or data) has
+ * fewer picks so far. Every pick says why it was chosen.
+ *
+ * @param files - Eligible candidates (see findExclusionReason)
+ * @param count - Number of files to pick
+ * @param strategy - Strategy to score with
+ * @param random - Seeded random source
+ * @param pinned - Files that must be picked first
+ * @returns Picked files in selection order, with their reasons
+ */
+export function selectFiles(
+  files: CandidateFile[],
+  count: number,
+  strategy: FileSelectionStrategy,
+  random: RandomSource,
+  pinned: PinnedFile[] = []
+): ScoredFile[] {
+  const pinnedPaths = new Set(pinned.map((file) => file.path));
+  const scored = files.map((file) => scoreFile(file, strategy, random));
+
+  const selected: ScoredFile[] = pinned.map((pin) => {
+    const file = scored.find((candidate) => candidate.path === pin.path);
+    return {
+      path: pin.path,
+      kind: classifyFileKind(pin.path),
+      score: file?.score ?? 0,
+      reasons: [pin.reason, ...(file?.reasons ?? [])],
+    };
+  });
+  const pool = scored.filter((file) => !pinnedPaths.has(file.path)).sort((a, b) => b.score - a.score);
+
+  while (selected.length < count && pool.length > 0) {
+    let next = pool[0];
+    if (strategy.balanceKinds && selected.length > 0) {
+      const uiCount = selected.filter((file) => file.kind === "ui").length;
+      const wantedKind: FileKind = uiCount * 2 < selected.length ? "ui" : uiCount * 2 > selected.length ? "data" : next.kind;
+      const balancing = pool.find((file) => file.kind === wantedKind);
+      if (balancing && balancing !== next) {
+        next = { ...balancing, reasons: [...balancing.reasons, `Balances the ${wantedKind === "ui" ? "data" : "UI"} files picked so far`] };
+      }
+    }
+    pool.splice(pool.findIndex((file) => file.path === next.path), 1);
+    selected.push({ ...next, reasons: [`${strategy.label} score ${next.score.toFixed(2)}`, ...next.reasons] });
+  }
+
+  return selected.slice(0, count);
+}
@@ -0,0 +1,192 @@
+/**
+ * Deterministic fix status of an injected bug:
+ * - "fixed": the buggy code is gone
+ * - "partially_fixed": some of the bug's edits were fixed, others are still present
+ * - "untouched": the buggy code is still there
+ * - "reverted_file": the whole file was restored to the original commit
+ */
+export type BugFixStatus = "fixed" | "partially_fixed" | "untouched" | "reverted_file";
+
+/** The parts of a BugInstance the detector needs */
+export interface BugLocation {
+  file: string;
+  lineStart: number;
+  lineEnd: number;
+  originalSnippet: string;
+  buggySnippet: string;
+  bugTypeId: string;
+  category: string;
+  description: string | null;
+  symptom: string | null;
+}
+
+/** Contents of a buggered file before the challenge and in the user's final commit */
+export interface FileVersions {
+  /** Content at the original commit (null if unavailable) */
+  original: string | null;
+  /** Content at the user's final commit (null if the file was deleted) */
+  final: string | null;
+}
+
+/** Fix status of one bug */
+export interface BugFixResult {
+  file: string;
+  lineStart: number;
+  lineEnd: number;
+  bugTypeId: string;
+  category: string;
+  symptom: string | null;
+  status: BugFixStatus;
+  /** Human-readable explanation of how the status was determined */
+  detail: string;
+}
+
+/** Separator used when a bug's snippets span several edits (see lib/ai-stress.ts) */
+const SNIPPET_SEPARATOR = "\n...\n";
+
+/**
+ * How many lines around the recorded location are searched.
+ * Users' fixes add or remove lines, so the bug rarely stays at exactly the same line.
+ */
+const SEARCH_WINDOW_LINES = 25;
+
+/**
+ * Normalizes code for comparison: trims each line and drops blank lines,
+ * so indentation and formatting changes don't count as fixes.
+ *
+ * @param code - Code to normalize
+ * @returns Normalized code
+ */
+function normalizeCode(code: string): string {
+  return code
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join("\n");
+}
+
+/**
+ * Determines whether one part of a bug (a single edit) is still present.
+ *
+ * @param region - Normalized code around the bug's location in the final file
+ * @param original - Code before the bug was introduced
+ * @param buggy - Code after the bug was introduced
+ * @returns True if the part was fixed
+ */
+function isPartFixed(region: string, original: string, buggy: string): boolean {
+  const normalizedOriginal = normalizeCode(original);
+  const normalizedBuggy = normalizeCode(buggy);
+
+  // Pure deletion bug: fixed once the deleted code is back
+  if (normalizedBuggy.length === 0) return region.includes(normalizedOriginal);
+  // Pure insertion bug: fixed once the inserted code is gone
+  if (normalizedOriginal.length === 0) return !region.includes(normalizedBuggy);
+
+  // When one snippet contains the other, check the longer one first - it's the distinguishing one
+  if (normalizedBuggy.includes(normalizedOriginal)) return !region.includes(normalizedBuggy);
+  if (region.includes(normalizedOriginal)) return true;
+  // Buggy code removed without restoring the original: a different fix
+  return !region.includes(normalizedBuggy);
+}
+
+/**
+ * Detects, for each injected bug, whether the user's final code fixed it.
+ * This is a deterministic pre-pass for grading - the results are facts the AI grader can't override.
+ *
+ * @param bugs - Injected bugs (the Bugger's BugInstance rows)
+ * @param files - Original and final contents of each buggered file, keyed by path
+ * @returns One result per bug, in the same order
+ */
+export function detectBugFixes(bugs: BugLocation[], files: Map<string, FileVersions>): BugFixResult[] {
+  return bugs.map((bug) => {
+    const base = {
+      file: bug.file,
+      lineStart: bug.lineStart,
+      lineEnd: bug.lineEnd,
+      bugTypeId: bug.bugTypeId,
+      category: bug.category,
+      symptom: bug.symptom,
+    };
+    const versions = files.get(bug.file);
+
+    if (!versions || versions.final === null) {
+      return { ...base, status: "untouched" as const, detail: "The file no longer exists in the final commit." };
+    }
+
+    if (versions.original !== null && normalizeCode(versions.final) === normalizeCode(versions.original)) {
+      return {
+        ...base,
+        status: "reverted_file" as const,
+        detail: "The whole file was restored to the original commit instead of fixing the bug in place.",
+      };
+    }
+
+    // Search near the recorded location, since the user's edits may have shifted lines
+    const finalLines = versions.final.split("\n");
+    const from = Math.max(0, bug.lineStart - 1 - SEARCH_WINDOW_LINES);
+    const to = Math.min(finalLines.length, bug.lineEnd + SEARCH_WINDOW_LINES);
+    const region = normalizeCode(finalLines.slice(from, to).join("\n"));
+
+    const originalParts = bug.originalSnippet.split(SNIPPET_SEPARATOR);
+    const buggyParts = bug.buggySnippet.split(SNIPPET_SEPARATOR);
+    const fixedParts = originalParts.filter((original, index) => isPartFixed(region, original, buggyParts[index] ?? ""));
+
+    if (fixedParts.length === originalParts.length) {
+      return { ...base, status: "fixed" as const, detail: "The buggy code is no longer present." };
+    }
+    if (fixedParts.length === 0) {
+      return { ...base, status: "untouched" as const, detail: "The buggy code is still present." };
+    }
+    return {
+      ...base,
+      status: "partially_fixed" as const,
+      detail: `${fixedParts.length} of ${originalParts.length} changes that make up this bug were fixed.`,
+    };
+  });
+}
+
+/** Grades from best to worst */
+const GRADE_ORDER = ["A", "B", "C", "D", "F"] as const;
+
+/** A letter grade */
+export type Grade = (typeof GRADE_ORDER)[number];
+
+/**
+ * Checks whether a value is a letter grade.
+ *
+ * @param value - Value to check (e.g. a grade sent by the client)
+ * @returns True for A, B, C, D and F
+ */
+export function isGrade(value: unknown): value is Grade {
+  return GRADE_ORDER.includes(value as Grade);
+}
+
+/**
+ * Determines the best grade the user can get given the fix results.
+ * - Any untouched bug: D (F if the user didn't explain it in reasoning.txt)
+ * - Any partially fixed bug: C
+ * - Any file reverted wholesale: B
+ *
+ * @param results - Per-bug fix results
+ * @param hasReasoning - Whether the user explained their work in reasoning.txt
+ * @returns The best allowed grade
+ */
+export function getMaxGradeForFixes(results: BugFixResult[], hasReasoning: boolean): Grade {
+  if (results.some((r) => r.status === "untouched")) return hasReasoning ? "D" : "F";
+  if (results.some((r) => r.status === "partially_fixed")) return "C";
+  if (results.some((r) => r.status === "reverted_file")) return "B";
+  return "A";
+}
+
+/**
+ * Caps a grade so it's no better than the maximum allowed grade.
+ * A value that isn't a grade is returned unchanged - it's never upgraded to the cap.
+ *
+ * @param grade - Grade from the AI grader
+ * @param maxGrade - Best allowed grade
+ * @returns The capped grade
+ */
+export function capGrade(grade: string, maxGrade: Grade): string {
+  if (!isGrade(grade)) return grade;
+  return GRADE_ORDER.indexOf(grade) < GRADE_ORDER.indexOf(maxGrade) ? maxGrade : grade;
+}
@@ -0,0 +1,155 @@
+/**
+ * Detects whether a file uses a framework.
+ * Register new frameworks with `registerFrameworkDetector`; bug types opt in via their `framework` field.
+ */
+export interface FrameworkDetector {
+  /** Framework id, matched against BugType.framework (e.g., "react", "django") */
+  id: string;
+  /** Human-readable name used in prompts */
+  name: string;
+  /** Prompt hint describing what framework-specific bugs should look like */
+  promptHint: string;
+  /**
+   * Returns true if the file uses the framework.
+   *
+   * @param content - File content (original case)
+   * @param filename - File path
+   */
+  detect: (content: string, filename: string) => boolean;
+}
+
+/**
+ * Checks whether any pattern matches the content.
+ *
+ * @param content - File content
+ * @param patterns - Regular expressions to test
+ * @returns True if at least one pattern matches
+ */
+function matchesAny(content: string, patterns: RegExp[]): boolean {
+  return patterns.some((pattern) => pattern.test(content));
+}
+
+/**
+ * Builds a pattern matching an import/require of a module (or any of its subpaths).
+ *
+ * @param moduleName - Module specifier prefix (e.g., "react", "@angular/")
+ * @returns Pattern matching `from "module"`, `require("module")` and `import "module"`
+ */
+function importPattern(moduleName: string): RegExp {
+  const escaped = moduleName.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+  const subpath = moduleName.endsWith("/") ? "[^'\"]*" : "(?:/[^'\"]*)?";
+  return new RegExp(`(?:from|require\\(|import)\\s*['"]${escaped}${subpath}['"]`);
+}
+
+/** Built-in detectors, checked in order */
+const FRAMEWORK_DETECTORS: FrameworkDetector[] = [
+  {
+    id: "react",
+    name: "React",
+    promptHint: "Prioritize React-specific issues like hook dependencies, stale closures, state mutation, missing keys, and conditional rendering.",
+    detect: (content, filename) =>
+      /\.(jsx|tsx)$/i.test(filename) ||
+      matchesAny(content, [
+        importPattern("react"),
+        /\buse(State|Effect|Callback|Memo|Ref|Context|Reducer)\s*[(<]/,
+        /\bReact\./,
+      ]),
+  },
+  {
+    id: "nextjs",
+    name: "Next.js",
+    promptHint: "Prioritize Next.js-specific issues like server/client boundaries, route handlers, search params, and data fetching.",
+    detect: (content, filename) =>
+      /(^|\/)(page|layout|route)\.(t|j)sx?$/i.test(filename) ||
+      matchesAny(content, [
+        importPattern("next/"),
+        /\b(getServerSideProps|getStaticProps|generateMetadata)\b/,
+        /\bexport\s+const\s+metadata\b/,
+        /\buse(Router|Pathname|SearchParams)\s*\(/,
+      ]),
+  },
+  {
+    id: "vue",
+    name: "Vue",
+    promptHint: "Prioritize Vue-specific issues like lost reactivity (destructuring reactive state, replacing refs), computed vs methods, watchers, and v-if/v-for mistakes.",
+    detect: (content, filename) =>
+      /\.vue$/i.test(filename) ||
+      matchesAny(content, [importPattern("vue"), /\bdefineComponent\s*\(/, /\bdefine(Props|Emits)\s*[(<]/]),
+  },
+  {
+    id: "svelte",
+    name: "Svelte",
+    promptHint: "Prioritize Svelte-specific issues like store subscriptions that are never cleaned up, reactive statements ($:) that don't re-run, and mutating arrays without reassignment.",
+    detect: (content, filename) =>
+      /\.svelte$/i.test(filename) || matchesAny(content, [importPattern("svelte")]),
+  },
+  {
+    id: "angular",
+    name: "Angular",
+    promptHint: "Prioritize Angular-specific issues like unsubscribed observables, change detection (OnPush with mutation), wrong lifecycle hooks, and dependency injection scope.",
+    detect: (content) => matchesAny(content, [importPattern("@angular/"), /@(Component|Injectable|NgModule)\s*\(/]),
+  },
+  {
+    id: "express",
+    name: "Express",
+    promptHint: "Prioritize Express-specific issues like middleware ordering, missing next() calls, responses sent twice, and wrong status codes.",
+    detect: (content) => matchesAny(content, [importPattern("express"), /\bexpress\.Router\s*\(/]),
+  },
+  {
+    id: "fastify",
+    name: "Fastify",
+    promptHint: "Prioritize Fastify-specific issues like hooks that never resolve, schema mismatches that strip response fields, and plugin encapsulation.",
+    detect: (content) => matchesAny(content, [importPattern("fastify"), /\bfastify\.(register|addHook|route)\s*\(/]),
+  },
+  {
+    id: "prisma",
+    name: "Prisma",
+    promptHint: "Prioritize Prisma-specific issues like missing awaits inside transactions, wrong where filters, updateMany vs update, and missing includes.",
+    detect: (content) => matchesAny(content, [importPattern("@prisma/client"), /\bprisma\.\$transaction\b/, /\bnew PrismaClient\s*\(/]),
+  },
+  {
+    id: "django",
+    name: "Django",
+    promptHint: "Prioritize Django-specific issues like queryset filters/excludes, lazy evaluation, get vs filter, missing select_related data, and wrong form validation.",
+    detect: (content) => matchesAny(content, [/^\s*from\s+django(\.\w+)*\s+import\b/m, /^\s*import\s+django\b/m]),
+  },
+  {
+    id: "flask",
+    name: "Flask",
+    promptHint: "Prioritize Flask-specific issues like wrong HTTP methods on routes, request.args vs request.form, and mis-returned status codes.",
+    detect: (content) => matchesAny(content, [/^\s*from\s+flask\s+import\b/m, /@\w+\.route\s*\(/]),
+  },
+  {
+    id: "spring",
+    name: "Spring",
+    promptHint: "Prioritize Spring-specific issues like wrong request mappings, @Transactional on private/self-invoked methods, bean scopes, and validation annotations.",
+    detect: (content) =>
+      matchesAny(content, [/^\s*import\s+org\.springframework\./m, /@(RestController|Controller|Service|Repository|SpringBootApplication)\b/]),
+  },
+];
+
+/**
+ * Registers an additional framework detector.
+ * A detector with an existing id replaces the built-in one.
+ *
+ * @param detector - Detector to register
+ */
+export function registerFrameworkDetector(detector: FrameworkDetector): void {
+  const existing = FRAMEWORK_DETECTORS.findIndex((d) => d.id === detector.id);
+  if (existing !== -1) {
+    FRAMEWORK_DETECTORS[existing] = detector;
+  } else {
+    FRAMEWORK_DETECTORS.push(detector);
+  }
+}
+
+/**
+ * Detects the frameworks used in a file.
+ *
+ * @param content - File content to analyze
+ * @param filename - Filename to check for framework-specific patterns
+ * @returns Detectors for every framework the file uses
+ */
+export function detectFrameworks(content: string, filename: string): FrameworkDetector[] {
+  return FRAMEWORK_DETECTORS.filter((detector) => detector.detect(content, filename));
+}
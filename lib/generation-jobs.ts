@@ -0,0 +1,300 @@
+import type { GenerationJob } from "@prisma/client";
+import { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { deleteBranch, fetchStressMetadata } from "./github";
+import { refundChallenge } from "./coin-ledger";
+import { runStressPipeline, StressCheckpoint, StressRequest } from "./stress-pipeline";
+import type { StressProgressStage } from "./stress-progress";
+
+/**
+ * Lifecycle of a generation job: queued -> running -> succeeded | failed.
+ * A running job whose heartbeat goes stale (the worker died or timed out) is picked up again.
+ */
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+/**
+ * One progress event recorded on a job.
+ */
+export interface GenerationJobProgress {
+  stage: StressProgressStage;
+  message: string;
+  file?: string;
+  /** ISO timestamp */
+  at: string;
+}
+
+/** How often a running job's heartbeat is refreshed */
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+/** A running job without a heartbeat for this long is considered abandoned */
+export const JOB_STALE_AFTER_MS = 60_000;
+
+/** Times a job is picked up before it's failed for good */
+export const MAX_JOB_ATTEMPTS = 3;
+
+/** Recorded on a challenge whose job was abandoned before its bugs were committed */
+const ABANDONED_CHALLENGE_REASON = "Generation was abandoned before the bugs were committed";
+
+/** Longest Idempotency-Key accepted */
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+/**
+ * Parses an Idempotency-Key header.
+ *
+ * @param raw - Header value
+ * @returns The key, or null if missing, blank or too long
+ */
+export function parseIdempotencyKey(raw: string | null): string | null {
+  const key = raw?.trim();
+  return key && key.length <= MAX_IDEMPOTENCY_KEY_LENGTH ? key : null;
+}
+
+/**
+ * Finds the job a user already queued with an idempotency key.
+ *
+ * @param userId - User ID
+ * @param idempotencyKey - Key sent with the stress request
+ * @returns The job, or null if the key wasn't used yet
+ */
+export async function findGenerationJobByIdempotencyKey(
+  userId: string,
+  idempotencyKey: string
+): Promise<GenerationJob | null> {
+  return prisma.generationJob.findUnique({ where: { userId_idempotencyKey: { userId, idempotencyKey } } });
+}
+
+/**
+ * Queues a challenge generation. With an idempotency key, a request that was already
+ * queued (e.g. a retry racing the original) gets the existing job back instead.
+ *
+ * @param userId - User the challenge is for
+ * @param request - Validated stress request (with its seed fixed)
+ * @param idempotencyKey - Optional key identifying the request
+ * @returns The job, and whether this call queued it
+ */
+export async function enqueueGenerationJob(
+  userId: string,
+  request: StressRequest,
+  idempotencyKey: string | null = null
+): Promise<{ job: GenerationJob; created: boolean }> {
+  try {
+    const job = await prisma.generationJob.create({
+      data: {
+        userId,
+        input: request as unknown as Prisma.InputJsonValue,
+        idempotencyKey,
+      },
+    });
+    console.log(`[Jobs] Queued job ${job.id} for ${request.owner}/${request.repo}@${request.branch}`);
+    return { job, created: true };
+  } catch (error) {
+    if (idempotencyKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const job = await findGenerationJobByIdempotencyKey(userId, idempotencyKey);
+      if (job) return { job, created: false };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Filter matching jobs no worker is running: queued jobs nobody started within the
+ * stale window, and running jobs whose heartbeat went stale.
+ *
+ * @param includeFreshQueued - Also match jobs queued moments ago (when the enqueuing request hands off)
+ */
+function stalledWhere(includeFreshQueued: boolean): Prisma.GenerationJobWhereInput {
+  const staleBefore = new Date(Date.now() - JOB_STALE_AFTER_MS);
+  return {
+    OR: [
+      { status: "queued", ...(includeFreshQueued ? {} : { createdAt: { lt: staleBefore } }) },
+      { status: "running", heartbeatAt: { lt: staleBefore } },
+    ],
+  };
+}
+
+/**
+ * Atomically takes a job for this worker. Only one worker can win, since the
+ * update only matches while the job is still claimable.
+ *
+ * @param jobId - Job ID
+ * @param includeFreshQueued - Whether a job queued moments ago can be claimed
+ * @returns The claimed job, or null if it isn't claimable (finished, or another worker has it)
+ */
+async function claimGenerationJob(jobId: string, includeFreshQueued: boolean): Promise<GenerationJob | null> {
+  const now = new Date();
+  const { count } = await prisma.generationJob.updateMany({
+    where: { id: jobId, attempts: { lt: MAX_JOB_ATTEMPTS }, ...stalledWhere(includeFreshQueued) },
+    data: { status: "running", attempts: { increment: 1 }, heartbeatAt: now, startedAt: now },
+  });
+  return count === 1 ? prisma.generationJob.findUnique({ where: { id: jobId } }) : null;
+}
+
+/**
+ * Claims and runs a job to completion. Resumes from the job's checkpoint if an earlier
+ * worker got partway through. Never throws: failures are recorded on the job.
+ *
+ * @param jobId - Job ID
+ * @param accessToken - GitHub token of the job's user
+ * @param options.justQueued - The job was queued by the calling request (claimable right away)
+ */
+export async function runGenerationJob(
+  jobId: string,
+  accessToken: string,
+  options: { justQueued?: boolean } = {}
+): Promise<void> {
+  const job = await claimGenerationJob(jobId, options.justQueued ?? false);
+  if (!job) return;
+
+  console.log(`[Jobs] Running job ${job.id} (attempt ${job.attempts})`);
+  const progress = (job.progress as unknown as GenerationJobProgress[]) ?? [];
+
+  // Writes are chained so progress, checkpoints and the heartbeat land in order
+  let writes: Promise<unknown> = Promise.resolve();
+  const write = (data: Prisma.GenerationJobUpdateInput) => {
+    writes = writes
+      .then(() => prisma.generationJob.update({ where: { id: job.id }, data: { ...data, heartbeatAt: new Date() } }))
+      .catch((error) => console.error(`[Jobs] Failed to update job ${job.id}:`, error));
+    return writes;
+  };
+  const heartbeat = setInterval(() => write({}), HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const checkpoint = job.checkpoint as unknown as StressCheckpoint | null;
+    const outcome = await runStressPipeline(job.input as unknown as StressRequest, {
+      accessToken,
+      userId: job.userId,
+      report: (stage, message, file) => {
+        progress.push({ stage, message, file, at: new Date().toISOString() });
+        write({ progress: progress as unknown as Prisma.InputJsonValue });
+      },
+      // The Bugger may exist even if the checkpoint saying so was never written
+      checkpoint: checkpoint && { ...checkpoint, buggerId: checkpoint.buggerId ?? job.buggerId },
+      saveCheckpoint: async (state) => {
+        await write({ checkpoint: state as unknown as Prisma.InputJsonValue });
+      },
+      onBuggerCreated: async (tx, buggerId) => {
+        await tx.generationJob.update({ where: { id: job.id }, data: { buggerId } });
+      },
+    });
+
+    clearInterval(heartbeat);
+    await write({
+      status: outcome.status < 400 ? "succeeded" : "failed",
+      resultStatus: outcome.status,
+      result: outcome.body as Prisma.InputJsonValue,
+      completedAt: new Date(),
+    });
+    console.log(`[Jobs] Job ${job.id} finished with status ${outcome.status}`);
+  } catch (error) {
+    // Leave the job running: its heartbeat goes stale and it's resumed from the checkpoint
+    console.error(`[Jobs] Job ${job.id} crashed, it will be resumed:`, error);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Cleans up after a job abandoned between saving its challenge and committing it: the
+ * challenge was charged but has no bugs on its branch. It's marked broken, every coin
+ * spent on it is refunded and the branch is deleted. The branch reconciler can't catch
+ * these, since the Bugger exists.
+ *
+ * @param job - Abandoned job
+ * @param buggerId - Challenge the job saved
+ */
+async function releaseAbandonedChallenge(job: GenerationJob, buggerId: string): Promise<void> {
+  const { owner, repo, branch } = job.input as unknown as StressRequest;
+  const account = await prisma.account.findFirst({
+    where: { userId: job.userId, provider: "github" },
+    select: { access_token: true },
+  });
+  const accessToken = account?.access_token ?? null;
+
+  // The commit may have landed without the checkpoint recording it - then the challenge is playable
+  if (accessToken && (await fetchStressMetadata(accessToken, owner, repo, branch))?.buggerId === buggerId) {
+    console.warn(`[Jobs] Job ${job.id} was abandoned but ${branch} is committed, keeping challenge ${buggerId}`);
+    return;
+  }
+
+  const refunded = await prisma.$transaction(async (tx) => {
+    const marked = await tx.bugger.updateMany({
+      where: { id: buggerId, brokenAt: null },
+      data: { brokenAt: new Date(), brokenReason: ABANDONED_CHALLENGE_REASON },
+    });
+    return marked.count === 0 ? 0 : refundChallenge(tx, job.userId, buggerId, `${branch}: ${ABANDONED_CHALLENGE_REASON}`);
+  });
+  console.warn(`[Jobs] Challenge ${buggerId} of abandoned job ${job.id} marked broken, refunded ${refunded} coins`);
+
+  if (!accessToken) {
+    console.warn(`[Jobs] No GitHub token for the user of job ${job.id}, leaving ${owner}/${repo}@${branch}`);
+    return;
+  }
+  try {
+    await deleteBranch(accessToken, owner, repo, branch);
+  } catch (error) {
+    console.error(`[Jobs] Could not delete ${owner}/${repo}@${branch} of abandoned job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Fails a job that used up its attempts without finishing. If it had already saved (and
+ * charged for) its challenge but not committed it, the challenge is released too.
+ *
+ * @param job - Abandoned job
+ */
+async function abandonGenerationJob(job: GenerationJob): Promise<void> {
+  const { count } = await prisma.generationJob.updateMany({
+    where: { id: job.id, status: { in: ["queued", "running"] } },
+    data: {
+      status: "failed",
+      resultStatus: 500,
+      result: { error: `Generation stopped responding ${MAX_JOB_ATTEMPTS} times and was abandoned` },
+      completedAt: new Date(),
+    },
+  });
+  // Only the caller that failed the job cleans up after it
+  if (count === 0) return;
+  console.warn(`[Jobs] Abandoned job ${job.id} after ${job.attempts} attempt(s)`);
+
+  const checkpoint = job.checkpoint as unknown as StressCheckpoint | null;
+  const buggerId = job.buggerId ?? checkpoint?.buggerId ?? null;
+  if (buggerId && !checkpoint?.commitSha) {
+    await releaseAbandonedChallenge(job, buggerId);
+  }
+}
+
+/**
+ * Checks whether a job needs a worker: it's queued or its worker died. Jobs out of
+ * attempts are failed instead.
+ *
+ * @param job - Job to check
+ * @returns True if the job should be (re)started
+ */
+export async function needsWorker(job: GenerationJob): Promise<boolean> {
+  const staleBefore = Date.now() - JOB_STALE_AFTER_MS;
+  const stalled =
+    (job.status === "queued" && job.createdAt.getTime() < staleBefore) ||
+    (job.status === "running" && (job.heartbeatAt?.getTime() ?? 0) < staleBefore);
+  if (!stalled) return false;
+
+  if (job.attempts >= MAX_JOB_ATTEMPTS) {
+    await abandonGenerationJob(job);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Finds jobs no worker is running (never started, or their worker died), including
+ * ones out of attempts (see needsWorker).
+ *
+ * @param limit - Maximum number of jobs to return
+ * @returns Oldest first
+ */
+export async function findStalledGenerationJobs(limit: number): Promise<GenerationJob[]> {
+  return prisma.generationJob.findMany({
+    where: stalledWhere(false),
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+}
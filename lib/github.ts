@@ -56,6 +56,21 @@ export interface GitHubCommitDetails extends GitHubCommit {
   };
 }
 
+export interface GitHubTreeEntry {
+  path: string;
+  mode: string;
+  type: "blob" | "tree" | "commit";
+  sha: string;
+  size?: number;
+}
+
+export interface GitHubTree {
+  sha: string;
+  tree: GitHubTreeEntry[];
+  /** True if the repository has more entries than GitHub returns in one response */
+  truncated: boolean;
+}
+
 /**
  * Forks a repository into the authenticated user's account.
  * 
@@ -134,6 +149,33 @@ export async function fetchUserRepos(accessToken: string): Promise<GitHubRepo[]>
   return response.json();
 }
 
+/**
+ * Checks whether the authenticated user is an active member of a GitHub organization.
+ * Requires the read:org scope for private memberships.
+ * 
+ * @param accessToken - GitHub OAuth access token
+ * @param org - Organization login
+ * @returns True if the user is an active member
+ */
+export async function isOrgMember(accessToken: string, org: string): Promise<boolean> {
+  const response = await fetch(`${GITHUB_API_BASE}/user/memberships/orgs/${encodeURIComponent(org)}`, {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/vnd.github.v3+json",
+    },
+  });
+
+  if (response.status === 403 || response.status === 404) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to check organization membership: ${response.statusText}`);
+  }
+
+  const membership = await response.json();
+  return membership.state === "active";
+}
+
 /**
  * Fetches branches for a specific repository.
  * Limited to prevent excessive API calls on large repos.
@@ -202,6 +244,43 @@ export async function fetchBranchCommits(
   return response.json();
 }
 
+/**
+ * Counts the recent commits on a branch that touched a file (its churn).
+ * 
+ * @param accessToken - GitHub OAuth access token
+ * @param owner - Repository owner (username or org)
+ * @param repo - Repository name
+ * @param filePath - File path
+ * @param branch - Branch name or commit SHA
+ * @param limit - Number of commits to look back through (default: 30)
+ * @returns Number of commits (at most limit)
+ */
+export async function fetchFileCommitCount(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  filePath: string,
+  branch: string,
+  limit: number = 30
+): Promise<number> {
+  const response = await fetch(
+    `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits?sha=${encodeURIComponent(branch)}&path=${encodeURIComponent(filePath)}&per_page=${limit}`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/vnd.github.v3+json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch file commits: ${response.statusText}`);
+  }
+
+  const commits: GitHubCommit[] = await response.json();
+  return commits.length;
+}
+
 /**
  * Fetches details for a specific commit, including the list of changed files.
  * 
@@ -234,6 +313,38 @@ export async function fetchCommitDetails(
   return response.json();
 }
 
+/**
+ * Fetches the full file tree of a branch or commit via the Git Trees API.
+ * 
+ * @param accessToken - GitHub OAuth access token
+ * @param owner - Repository owner (username or org)
+ * @param repo - Repository name
+ * @param ref - Branch name or commit SHA
+ * @returns Every file and directory in the tree (recursive)
+ */
+export async function fetchRepoTree(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<GitHubTree> {
+  const response = await fetch(
+    `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${encodeURIComponent(ref)}?recursive=1`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/vnd.github.v3+json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch repository tree: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Creates a new branch from a specific commit SHA.
  * 
@@ -318,6 +429,8 @@ export interface GitHubFileContent {
 
 /**
  * Metadata stored in .buggr.json for tracking bug session performance.
+ * Everything here is readable by whoever checks out the branch, so it only holds public data.
+ * The answer key (files buggered, technical changes, bug locations) stays on the Bugger record.
  */
 export interface StressMetadata {
   /** Database ID of the Bugger record (for linking Results) */
@@ -326,6 +439,8 @@ export interface StressMetadata {
   stressLevel: "low" | "medium" | "high";
   /** Number of bugs introduced */
   bugCount: number;
+  /** Seed that drove every random choice (optional for branches created before seeding) */
+  seed?: string;
   /** ISO timestamp when the bug session was created */
   createdAt: string;
   /** ISO timestamp when the buggering finished executing */
@@ -338,10 +453,6 @@ export interface StressMetadata {
   aiDurationMs?: number;
   /** User-facing symptom descriptions */
   symptoms: string[];
-  /** Files that were buggered */
-  filesBuggered: string[];
-  /** Technical descriptions of changes made */
-  changes: string[];
   /** Original commit SHA that was branched from */
   originalCommitSha: string;
   /** Repository owner */
@@ -380,7 +491,7 @@ export async function fetchFileContent(
   );
 
   if (!response.ok) {
-    throw new Error(`Failed to fetch file content: ${response.statusText}`);
+    throw new Error(`Failed to fetch file content: ${response.status} ${response.statusText}`);
   }
 
   return response.json();
@@ -435,57 +546,177 @@ export async function updateFile(
   return response.json();
 }
 
-/** Path where buggr metadata is stored in branches */
-export const STRESS_METADATA_PATH = ".buggr.json";
+/**
+ * A file written by commitFiles.
+ */
+export interface CommitFileChange {
+  path: string;
+  content: string;
+}
 
 /**
- * Creates a buggr metadata file in a branch.
- * This file stores information about the bug session for later retrieval (e.g., performance tracking).
- * 
+ * Calls a Git Data API endpoint.
+ *
  * @param accessToken - GitHub OAuth access token
- * @param metadata - Bug session metadata to store
- * @returns Commit result
+ * @param owner - Repository owner (username or org)
+ * @param repo - Repository name
+ * @param path - Path below /repos/{owner}/{repo}/git/
+ * @param init - Method and JSON body (GET if omitted)
+ * @returns Parsed response
  */
-export async function createStressMetadata(
+async function gitDataRequest<T>(
   accessToken: string,
-  metadata: StressMetadata
-): Promise<{ commit: { sha: string } }> {
-  const { owner, repo, branch } = metadata;
-  const content = JSON.stringify(metadata, null, 2);
-  
-  const response = await fetch(
-    `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${STRESS_METADATA_PATH}`,
-    {
-      method: "PUT",
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        Accept: "application/vnd.github.v3+json",
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        message: "📊 Add buggr metadata",
-        content: Buffer.from(content).toString("base64"),
-        branch,
-      }),
-    }
-  );
+  owner: string,
+  repo: string,
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/${path}`, {
+    method: init.method ?? "GET",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: "application/vnd.github.v3+json",
+      "Content-Type": "application/json",
+    },
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  });
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
-    throw new Error(error.message || `Failed to create stress metadata: ${response.statusText}`);
+    throw new Error(error.message || `Git Data API request to ${path} failed: ${response.status} ${response.statusText}`);
   }
 
   return response.json();
 }
 
 /**
- * Creates or updates an empty reasoning text file alongside buggr metadata.
- * This gives users a place to jot down debugging notes or disagreements with injected bugs.
+ * Looks up the modes of files in a tree, fetching only the directories on their paths
+ * (one non-recursive tree each) rather than the whole repository.
  *
  * @param accessToken - GitHub OAuth access token
- * @param metadata - Bug session metadata (used for repo/branch context)
- * @returns Commit result
+ * @param owner - Repository owner (username or org)
+ * @param repo - Repository name
+ * @param rootTreeSha - Tree to look in
+ * @param paths - File paths
+ * @returns Mode of every path that exists in the tree
+ * @throws Error if a directory listing comes back truncated
+ */
+async function fetchFileModes(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  rootTreeSha: string,
+  paths: string[]
+): Promise<Map<string, string>> {
+  const directories = new Map<string, Promise<GitHubTree | null>>();
+  const fetchTree = async (sha: string, directory: string) => {
+    const tree = await gitDataRequest<GitHubTree>(accessToken, owner, repo, `trees/${sha}`);
+    if (tree.truncated) {
+      throw new Error(`Tree listing of ${directory || "/"} is truncated, can't look up file modes`);
+    }
+    return tree;
+  };
+  const loadDirectory = (directory: string): Promise<GitHubTree | null> => {
+    let tree = directories.get(directory);
+    if (!tree) {
+      const slash = directory.lastIndexOf("/");
+      tree = directory === ""
+        ? fetchTree(rootTreeSha, directory)
+        : loadDirectory(slash === -1 ? "" : directory.slice(0, slash)).then((parent) => {
+            const entry = parent?.tree.find((item) => item.path === directory.slice(slash + 1) && item.type === "tree");
+            return entry ? fetchTree(entry.sha, directory) : null;
+          });
+      directories.set(directory, tree);
+    }
+    return tree;
+  };
+
+  const modes = new Map<string, string>();
+  for (const filePath of paths) {
+    const slash = filePath.lastIndexOf("/");
+    const directory = await loadDirectory(slash === -1 ? "" : filePath.slice(0, slash));
+    const entry = directory?.tree.find((item) => item.path === filePath.slice(slash + 1) && item.type === "blob");
+    if (entry) modes.set(filePath, entry.mode);
+  }
+  return modes;
+}
+
+/**
+ * Writes several files to a branch as one commit through the Git Data API: builds a tree on
+ * top of the branch head, commits it, and only then moves the branch. Either every change
+ * lands or none does. The ref update isn't forced, so it fails if the branch moved meanwhile.
+ * 
+ * If the branch already has exactly these contents (e.g. a retried run), nothing is committed.
+ * Replaced files keep their mode (e.g. the executable bit); new files are written as 100644.
+ * 
+ * @param accessToken - GitHub OAuth access token
+ * @param owner - Repository owner (username or org)
+ * @param repo - Repository name
+ * @param branch - Branch name
+ * @param changes - Files to write (created or replaced)
+ * @param message - Commit message
+ * @returns SHA of the branch head after the commit
  */
+export async function commitFiles(
+  accessToken: string,
+  owner: string,
+  repo: string,
+  branch: string,
+  changes: CommitFileChange[],
+  message: string
+): Promise<{ sha: string }> {
+  const refPath = `refs/heads/${encodeURIComponent(branch)}`;
+  const ref = await gitDataRequest<{ object: { sha: string } }>(accessToken, owner, repo, `ref/heads/${encodeURIComponent(branch)}`);
+  const head = await gitDataRequest<{ sha: string; tree: { sha: string } }>(accessToken, owner, repo, `commits/${ref.object.sha}`);
+  const modes = await fetchFileModes(accessToken, owner, repo, head.tree.sha, changes.map((change) => change.path));
+
+  const tree = await gitDataRequest<{ sha: string }>(accessToken, owner, repo, "trees", {
+    method: "POST",
+    body: {
+      base_tree: head.tree.sha,
+      tree: changes.map((change) => ({
+        path: change.path,
+        mode: modes.get(change.path) ?? "100644",
+        type: "blob",
+        content: change.content,
+      })),
+    },
+  });
+  if (tree.sha === head.tree.sha) {
+    return { sha: head.sha };
+  }
+
+  const commit = await gitDataRequest<{ sha: string }>(accessToken, owner, repo, "commits", {
+    method: "POST",
+    body: { message, tree: tree.sha, parents: [head.sha] },
+  });
+  await gitDataRequest(accessToken, owner, repo, refPath, {
+    method: "PATCH",
+    body: { sha: commit.sha, force: false },
+  });
+
+  return { sha: commit.sha };
+}
+
+/** Path where buggr metadata is stored in branches */
+export const STRESS_METADATA_PATH = ".buggr.json";
+
+/**
+ * Builds the buggr metadata file for a branch.
+ * This file stores information about the bug session for later retrieval (e.g., performance tracking).
+ * 
+ * @param metadata - Bug session metadata to store
+ * @returns File change to include in the challenge commit
+ */
+export function stressMetadataFile(metadata: StressMetadata): CommitFileChange {
+  return { path: STRESS_METADATA_PATH, content: JSON.stringify(metadata, null, 2) };
+}
+
+/**
+ * Path of the empty reasoning text file added alongside buggr metadata.
+ * This gives users a place to jot down debugging notes or disagreements with injected bugs.
+ */
+export const REASONING_FILE_PATH = "reasoning.txt";
 
 /**
  * Fetches buggr metadata from a branch.
@@ -520,74 +751,3 @@ export async function fetchStressMetadata(
   }
 }
 
-/**
- * Introduces chaos into code by adding breaking changes.
- * 
- * @param content - Original file content
- * @param filename - Name of the file (to determine language)
- * @returns Modified content with breaking changes
- */
-export function introduceCodeChaos(content: string, filename: string): { content: string; changes: string[] } {
-  const changes: string[] = [];
-  let modifiedContent = content;
-  
-  const ext = filename.split(".").pop()?.toLowerCase();
-  
-  // TypeScript/JavaScript specific chaos
-  if (ext === "ts" || ext === "tsx" || ext === "js" || ext === "jsx") {
-    // Chaos 1: Change a random 'const' to 'cost' (typo)
-    if (modifiedContent.includes("const ")) {
-      const constMatches = modifiedContent.match(/const \w+/g);
-      if (constMatches && constMatches.length > 0) {
-        const randomConst = constMatches[Math.floor(Math.random() * constMatches.length)];
-        modifiedContent = modifiedContent.replace(randomConst, randomConst.replace("const", "cost"));
-        changes.push(`Introduced typo: 'const' → 'cost'`);
-      }
-    }
-    
-    // Chaos 2: Change === to == (potential logic bug)
-    if (modifiedContent.includes("===")) {
-      modifiedContent = modifiedContent.replace("===", "!==");
-      changes.push(`Flipped comparison: '===' → '!=='`);
-    }
-    
-    // Chaos 3: Remove a closing bracket
-    const closingBrackets = modifiedContent.match(/\}/g);
-    if (closingBrackets && closingBrackets.length > 2) {
-      // Find and remove one closing bracket (not the last one)
-      let count = 0;
-      const targetIndex = Math.floor(Math.random() * (closingBrackets.length - 1));
-      modifiedContent = modifiedContent.replace(/\}/g, (match) => {
-        if (count === targetIndex) {
-          count++;
-          changes.push(`Removed a closing bracket '}'`);
-          return ""; // Remove this bracket
-        }
-        count++;
-        return match;
-      });
-    }
-    
-    // Chaos 4: Change a function name slightly
-    const funcMatch = modifiedContent.match(/function\s+(\w+)/);
-    if (funcMatch) {
-      const originalName = funcMatch[1];
-      const brokenName = originalName + "_broken";
-      // Only change the definition, not the calls - this breaks references
-      modifiedContent = modifiedContent.replace(
-        new RegExp(`function\\s+${originalName}`),
-        `function ${brokenName}`
-      );
-      changes.push(`Renamed function: '${originalName}' → '${brokenName}'`);
-    }
-  }
-  
-  // If no changes were made, add a syntax error comment that breaks things
-  if (changes.length === 0) {
-    modifiedContent = `// CHAOS INTRODUCED - FIX ME!\n${modifiedContent}\n/* unclosed comment`;
-    changes.push("Added unclosed comment block");
-  }
-  
-  return { content: modifiedContent, changes };
-}
-
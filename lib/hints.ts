@@ -0,0 +1,56 @@
+import { HINT_COSTS } from "./stress-costs";
+import { formatCategoryLabel } from "./bug-categories";
+
+/** What each hint level reveals, from least to most specific */
+export const HINT_LEVELS = [
+  { level: 1, kind: "file", label: "Which file" },
+  { level: 2, kind: "function", label: "Which function" },
+  { level: 3, kind: "category", label: "What kind of bug" },
+  { level: 4, kind: "line", label: "Exact line" },
+] as const;
+
+/** Highest hint level (the exact line) */
+export const MAX_HINT_LEVEL = HINT_LEVELS.length;
+
+/** The parts of a BugInstance hints are built from */
+export interface HintSource {
+  file: string;
+  lineStart: number;
+  lineEnd: number;
+  functionName: string | null;
+  category: string;
+}
+
+/**
+ * Gets the coin cost of a hint level.
+ *
+ * @param level - Hint level (1-4)
+ * @returns Cost in coins
+ */
+export function getHintCost(level: number): number {
+  return HINT_COSTS[level] ?? HINT_COSTS[MAX_HINT_LEVEL];
+}
+
+/**
+ * Builds the text of a hint for a bug.
+ *
+ * @param bug - The bug the hint is for
+ * @param level - Hint level (1 = file, 2 = function, 3 = category, 4 = line)
+ * @returns Hint text
+ */
+export function buildHintContent(bug: HintSource, level: number): string {
+  switch (level) {
+    case 1:
+      return `Look in ${bug.file}.`;
+    case 2:
+      return bug.functionName
+        ? `The bug is inside ${bug.functionName}().`
+        : "The bug is in top-level code, outside any named function.";
+    case 3:
+      return `It's a "${formatCategoryLabel(bug.category)}" bug.`;
+    default:
+      return bug.lineStart === bug.lineEnd
+        ? `Check line ${bug.lineStart} of ${bug.file}.`
+        : `Check lines ${bug.lineStart}-${bug.lineEnd} of ${bug.file}.`;
+  }
+}
@@ -0,0 +1,680 @@
+import { BugType, BUG_TYPES } from "./bug-types";
+import { Language } from "./languages";
+
+/**
+ * Python bug types.
+ */
+const PYTHON_BUG_TYPES: BugType[] = [
+  {
+    id: "py-mutable-default-arg",
+    category: "SAME_VALUE",
+    language: "python",
+    name: "Mutable Default Argument",
+    description: "Use a mutable default argument (list/dict) so state leaks between calls",
+    examples: [
+      "def add_item(item, items=[]): items.append(item); return items",
+      "def build_filters(extra={}): extra['active'] = True; return extra",
+    ],
+    sampleSymptom: "Cart API: Each new cart already contains items from previous customers. A fresh cart for a new user shows 3 items that were added by someone else.",
+  },
+  {
+    id: "py-range-off-by-one",
+    category: "CALCULATION",
+    language: "python",
+    name: "Off-by-One in range()",
+    description: "Use range(len(x) - 1) or range(1, len(x)) so the first or last element is skipped",
+    examples: [
+      "for i in range(len(orders) - 1):",
+      "for i in range(1, len(rows)):",
+    ],
+    sampleSymptom: "Monthly report export: The last order of every month is missing. The CSV has 29 rows but the dashboard says there were 30 orders.",
+  },
+  {
+    id: "py-is-vs-equals",
+    category: "LOGIC",
+    language: "python",
+    name: "Identity Instead of Equality",
+    description: "Compare values with `is` instead of `==` (works for small ints/interned strings, fails otherwise)",
+    examples: [
+      "if status is 'active':  # instead of ==",
+      "if user.id is other_id:",
+    ],
+    sampleSymptom: "Admin user list: Active users are shown as inactive. The status column says 'Inactive' for every account, even ones that logged in today.",
+  },
+  {
+    id: "py-dict-get-default",
+    category: "UNDEFINED_NULL",
+    language: "python",
+    name: "Wrong dict.get Default",
+    description: "Use dict.get() with a wrong or missing default so None or a misleading value flows through",
+    examples: [
+      "quantity = item.get('qty', 0)  # key is actually 'quantity'",
+      "name = profile.get('display_name') or 'Unknown'  # key never exists",
+    ],
+    sampleSymptom: "Order details endpoint: Every line item reports a quantity of 0, even though customers ordered several units.",
+  },
+  {
+    id: "py-integer-division",
+    category: "CALCULATION",
+    language: "python",
+    name: "Floor Division Instead of Division",
+    description: "Use // instead of / so fractional results are truncated",
+    examples: [
+      "average = total // count",
+      "ratio = completed // total * 100",
+    ],
+    sampleSymptom: "Progress summary: Completion percentage is always 0% until a task list is fully done, then jumps to 100%.",
+  },
+  {
+    id: "py-late-binding-closure",
+    category: "SAME_VALUE",
+    language: "python",
+    name: "Late-Binding Closure in Loop",
+    description: "Create lambdas/closures in a loop that all capture the loop variable's final value",
+    examples: [
+      "handlers = [lambda: notify(user) for user in users]",
+      "callbacks.append(lambda: process(i))  # inside for i in range(n)",
+    ],
+    sampleSymptom: "Notification job: Every user receives the email meant for the last user in the list - all 20 emails are addressed to 'Zoe'.",
+  },
+  {
+    id: "py-sorted-wrong-key",
+    category: "RENDERING",
+    language: "python",
+    name: "Wrong Sort Key or Direction",
+    description: "Sort with the wrong key or reverse flag",
+    examples: [
+      "sorted(posts, key=lambda p: p.created_at)  # should be reverse=True",
+      "results.sort(key=lambda r: r.name, reverse=True)",
+    ],
+    sampleSymptom: "Blog feed API: Posts are returned oldest first. The newest post from today is at the very bottom of the list.",
+  },
+  // === DJANGO/FLASK FRAMEWORK BUGS ===
+  {
+    id: "django-filter-exclude",
+    category: "DJANGO",
+    language: "python",
+    framework: "django",
+    name: "filter/exclude Swapped",
+    description: "Swap filter() and exclude(), or use the wrong field lookup in a queryset",
+    examples: [
+      "Article.objects.exclude(published=True)",
+      "Order.objects.filter(created_at__lt=since)  # should be __gte",
+    ],
+    sampleSymptom: "Articles page: Only draft articles are listed. None of the published articles appear.",
+  },
+  {
+    id: "django-get-vs-filter",
+    category: "DJANGO",
+    language: "python",
+    framework: "django",
+    name: "first() Hides Missing Objects",
+    description: "Replace get_object_or_404/get() with filter().first() so missing objects become None",
+    examples: [
+      "profile = Profile.objects.filter(user=request.user).first()",
+      "order = Order.objects.filter(pk=pk).first()  # was get_object_or_404",
+    ],
+    sampleSymptom: "Order detail page: Visiting an order that doesn't exist shows a 500 error page instead of 'Not found'.",
+  },
+  {
+    id: "flask-request-args-form",
+    category: "FLASK",
+    language: "python",
+    framework: "flask",
+    name: "request.args vs request.form",
+    description: "Read POSTed form data from request.args (or query params from request.form)",
+    examples: [
+      "email = request.args.get('email')  # form is POSTed",
+      "page = request.form.get('page', 1)",
+    ],
+    sampleSymptom: "Newsletter signup form: Submitting a valid email always says 'Please enter an email address'.",
+  },
+  {
+    id: "flask-route-methods",
+    category: "FLASK",
+    language: "python",
+    framework: "flask",
+    name: "Route Missing HTTP Method",
+    description: "Drop an HTTP method from a route's methods list or return the wrong status code",
+    examples: [
+      "@app.route('/login', methods=['GET'])  # POST removed",
+      "return jsonify(error='Not found'), 200",
+    ],
+    sampleSymptom: "Login page: Clicking 'Sign in' shows '405 Method Not Allowed'.",
+  },
+];
+
+/**
+ * Go bug types.
+ */
+const GO_BUG_TYPES: BugType[] = [
+  {
+    id: "go-ignored-error",
+    category: "UNDEFINED_NULL",
+    language: "go",
+    name: "Ignored Error Return",
+    description: "Discard an error with _ so a failed call continues with a zero value",
+    examples: [
+      "user, _ := store.GetUser(ctx, id)",
+      "n, _ := strconv.Atoi(r.URL.Query().Get(\"limit\"))",
+    ],
+    sampleSymptom: "GET /users/{id}: Requests for users that don't exist return 200 with an empty profile instead of a 404.",
+  },
+  {
+    id: "go-shadowed-err",
+    category: "LOGIC",
+    language: "go",
+    name: "Shadowed err Variable",
+    description: "Redeclare err with := inside a block so the outer err is never set and the failure is swallowed",
+    examples: [
+      "if cond { result, err := save(x); _ = result }  // outer err stays nil",
+      "for _, item := range items { err := process(item) }  // loop err shadows the returned err",
+    ],
+    sampleSymptom: "Bulk import endpoint: Uploading a file with invalid rows reports 'Import succeeded', but none of the invalid rows were saved and no error is shown.",
+  },
+  {
+    id: "go-loop-slice-bounds",
+    category: "DATA_DISAPPEARING",
+    language: "go",
+    name: "Wrong Slice Bounds",
+    description: "Slice with the wrong bounds so elements are dropped",
+    examples: [
+      "return items[:len(items)-1], nil",
+      "page := results[offset+1 : offset+limit]",
+    ],
+    sampleSymptom: "List orders API: The most recent order never appears. There are 10 orders in the database but the response only contains 9.",
+  },
+  {
+    id: "go-range-value-copy",
+    category: "DATA_DISAPPEARING",
+    language: "go",
+    name: "Mutating the Range Copy",
+    description: "Modify the range value copy instead of the slice element, so updates are lost",
+    examples: [
+      "for _, u := range users { u.Active = true }",
+      "for _, item := range cart.Items { item.Price = discounted(item.Price) }",
+    ],
+    sampleSymptom: "Apply discount endpoint: Responds with success but prices in the cart are unchanged afterwards.",
+  },
+  {
+    id: "go-nil-map-write",
+    category: "UNDEFINED_NULL",
+    language: "go",
+    name: "Write to nil Map",
+    description: "Declare a map without make() and write to it, causing a panic",
+    examples: [
+      "var counts map[string]int; counts[key]++",
+      "var cache map[int]*User; cache[id] = user",
+    ],
+    sampleSymptom: "Analytics summary endpoint: Every request returns 500 Internal Server Error and the server logs show a panic.",
+  },
+  {
+    id: "go-wrong-comparison",
+    category: "CALCULATION",
+    language: "go",
+    name: "Inverted Comparison",
+    description: "Flip a comparison operator in a condition",
+    examples: [
+      "if balance < amount { return ErrInsufficientFunds }  // changed to >",
+      "if len(password) >= 8 { return errTooShort }",
+    ],
+    sampleSymptom: "Signup form: Strong passwords are rejected as 'too short' while 3-character passwords are accepted.",
+  },
+];
+
+/**
+ * Rust bug types.
+ */
+const RUST_BUG_TYPES: BugType[] = [
+  {
+    id: "rust-unwrap-or-default",
+    category: "UNDEFINED_NULL",
+    language: "rust",
+    name: "Misleading unwrap_or Default",
+    description: "Replace proper error/None handling with unwrap_or / unwrap_or_default so failures silently become a plausible value",
+    examples: [
+      "let limit = params.get(\"limit\").and_then(|v| v.parse().ok()).unwrap_or(0);",
+      "let price = item.price.unwrap_or_default();",
+    ],
+    sampleSymptom: "Search API: Requests without an explicit limit return an empty result list instead of the first page of results.",
+  },
+  {
+    id: "rust-range-exclusive",
+    category: "CALCULATION",
+    language: "rust",
+    name: "Exclusive vs Inclusive Range",
+    description: "Use .. instead of ..= (or vice versa) so a range drops or adds an element",
+    examples: [
+      "for day in 1..days_in_month { ... }",
+      "let page = &items[start..end - 1];",
+    ],
+    sampleSymptom: "Calendar view: The last day of every month is missing. March stops at the 30th.",
+  },
+  {
+    id: "rust-iter-filter-inverted",
+    category: "DATA_DISAPPEARING",
+    language: "rust",
+    name: "Inverted Iterator Filter",
+    description: "Invert the predicate in an iterator filter so the wrong items are kept",
+    examples: [
+      ".filter(|t| !t.completed)  // should keep completed",
+      ".filter(|u| u.deleted_at.is_some())",
+    ],
+    sampleSymptom: "Completed tasks tab: Shows only the tasks that are still open, and the finished ones are nowhere to be found.",
+  },
+  {
+    id: "rust-integer-truncation",
+    category: "CALCULATION",
+    language: "rust",
+    name: "Integer Cast Truncation",
+    description: "Cast or divide integers so fractional or large values are truncated",
+    examples: [
+      "let avg = (total / count as u64) as f64;",
+      "let cents = (price * 100.0) as u8;",
+    ],
+    sampleSymptom: "Ratings widget: Every product shows a whole-number rating. Products rated 4.7 display as 4.0.",
+  },
+  {
+    id: "rust-clone-mutation-lost",
+    category: "DATA_DISAPPEARING",
+    language: "rust",
+    name: "Mutating a Clone",
+    description: "Mutate a clone (or a copied value) so the change never reaches the original",
+    examples: [
+      "let mut settings = self.settings.clone(); settings.theme = theme;",
+      "let mut user = users[i].clone(); user.active = true;",
+    ],
+    sampleSymptom: "Settings page: Changing the theme says 'Saved' but after refreshing the old theme is still active.",
+  },
+];
+
+/**
+ * Java bug types.
+ */
+const JAVA_BUG_TYPES: BugType[] = [
+  {
+    id: "java-string-reference-equals",
+    category: "LOGIC",
+    language: "java",
+    name: "== Instead of .equals()",
+    description: "Compare strings or boxed values with == instead of .equals()",
+    examples: [
+      "if (role == \"ADMIN\") { ... }",
+      "if (order.getId() == other.getId())  // Long objects",
+    ],
+    sampleSymptom: "Admin panel: Admin users are shown the 'Access denied' page even though their role is ADMIN.",
+  },
+  {
+    id: "java-integer-division",
+    category: "CALCULATION",
+    language: "java",
+    name: "Integer Division",
+    description: "Divide two ints so the fraction is lost before it is converted to double",
+    examples: [
+      "double rate = completed / total;",
+      "double avg = (double) (sum / count);",
+    ],
+    sampleSymptom: "Course progress bar: Shows 0% for every student until they finish the whole course.",
+  },
+  {
+    id: "java-collection-remove-index",
+    category: "DATA_DISAPPEARING",
+    language: "java",
+    name: "remove(int) vs remove(Object)",
+    description: "Call List.remove with an int so an index is removed instead of the value",
+    examples: [
+      "ids.remove(userId);  // userId is an int, removes by index",
+      "list.remove(list.size() - 1);  // removes the last element instead of the value",
+    ],
+    sampleSymptom: "Team members page: Removing a member deletes a different person from the list.",
+  },
+  {
+    id: "java-optional-orelse",
+    category: "UNDEFINED_NULL",
+    language: "java",
+    name: "Optional.orElse Hides Missing Data",
+    description: "Replace proper handling of an empty Optional with orElse(null) or a misleading default",
+    examples: [
+      "User user = repo.findById(id).orElse(new User());",
+      "String email = profile.getEmail().orElse(\"\");",
+    ],
+    sampleSymptom: "Profile API: Requesting a missing user returns a blank profile with status 200 instead of 'User not found'.",
+  },
+  {
+    id: "java-off-by-one-loop",
+    category: "CALCULATION",
+    language: "java",
+    name: "Off-by-One Loop Bound",
+    description: "Use < size() - 1 or <= size() so the loop skips or overruns an element",
+    examples: [
+      "for (int i = 0; i < items.size() - 1; i++)",
+      "for (int i = 1; i < rows.length; i++)",
+    ],
+    sampleSymptom: "Invoice PDF: The first line item is missing from every invoice, so the totals don't match the order.",
+  },
+  {
+    id: "java-mutable-static",
+    category: "SAME_VALUE",
+    language: "java",
+    name: "Shared Static State",
+    description: "Store per-request data in a static field so all requests share it",
+    examples: [
+      "private static List<Item> cart = new ArrayList<>();",
+      "private static String currentUser;",
+    ],
+    sampleSymptom: "Shopping cart: Items added by one customer show up in every other customer's cart.",
+  },
+  // === SPRING FRAMEWORK BUGS ===
+  {
+    id: "spring-transactional-self-invocation",
+    category: "SPRING",
+    language: "java",
+    framework: "spring",
+    name: "@Transactional Bypassed",
+    description: "Move @Transactional to a private method or call it from the same class so no transaction is applied",
+    examples: [
+      "@Transactional private void transfer(...) { ... }",
+      "public void checkout() { this.saveOrderAndCharge(); }  // @Transactional on saveOrderAndCharge is ignored",
+    ],
+    sampleSymptom: "Checkout: When payment fails, the order is still saved as 'Paid' instead of being rolled back.",
+  },
+  {
+    id: "spring-wrong-mapping",
+    category: "SPRING",
+    language: "java",
+    framework: "spring",
+    name: "Wrong Request Mapping or Parameter",
+    description: "Change a mapping's HTTP method/path or bind the wrong @PathVariable/@RequestParam",
+    examples: [
+      "@GetMapping(\"/orders/{id}\") public Order get(@RequestParam Long id)",
+      "@PostMapping(\"/users/{userId}/roles\")  // was @PutMapping",
+    ],
+    sampleSymptom: "Order details API: Every request to GET /orders/42 fails with 400 Bad Request.",
+  },
+  {
+    id: "spring-singleton-state",
+    category: "SPRING",
+    language: "java",
+    framework: "spring",
+    name: "Request State in a Singleton Bean",
+    description: "Store per-request data in a field of a singleton @Service/@Controller",
+    examples: [
+      "private User currentUser;  // set in each request",
+      "private List<String> errors = new ArrayList<>();",
+    ],
+    sampleSymptom: "Account page: Under load, users occasionally see another customer's name and email on their account page.",
+  },
+];
+
+/**
+ * C# bug types.
+ */
+const CSHARP_BUG_TYPES: BugType[] = [
+  {
+    id: "cs-missing-await",
+    category: "ASYNC",
+    language: "csharp",
+    name: "Missing await on Task",
+    description: "Call an async method without awaiting it, so work continues before it completes",
+    examples: [
+      "SaveChangesAsync();  // not awaited",
+      "var user = GetUserAsync(id).Result?.Name;  // replaced await with fire-and-forget",
+    ],
+    sampleSymptom: "Edit profile form: Clicking Save shows 'Saved', but the changes are gone after refreshing the page.",
+  },
+  {
+    id: "cs-linq-first-default",
+    category: "UNDEFINED_NULL",
+    language: "csharp",
+    name: "FirstOrDefault Without Null Check",
+    description: "Use FirstOrDefault and use the result without checking for null, or use the wrong predicate",
+    examples: [
+      "var order = orders.FirstOrDefault(o => o.Id == id); return order.Total;",
+      "var admin = users.FirstOrDefault(u => u.Role != \"Admin\");",
+    ],
+    sampleSymptom: "Order details page: Opening any order that isn't the first one crashes with an error page.",
+  },
+  {
+    id: "cs-integer-division",
+    category: "CALCULATION",
+    language: "csharp",
+    name: "Integer Division",
+    description: "Divide ints so fractional results are truncated",
+    examples: [
+      "double percent = done / total * 100;",
+      "decimal avg = sum / count;  // both int",
+    ],
+    sampleSymptom: "Dashboard progress: Completion percentage is stuck at 0% until everything is done.",
+  },
+  {
+    id: "cs-linq-skip-take",
+    category: "DATA_DISAPPEARING",
+    language: "csharp",
+    name: "Wrong Skip/Take Pagination",
+    description: "Compute Skip/Take with the wrong page math so items are skipped or repeated",
+    examples: [
+      ".Skip(page * pageSize).Take(pageSize)  // page is 1-based",
+      ".Take(pageSize - 1)",
+    ],
+    sampleSymptom: "Product listing: Page 1 starts with the 11th product. The first 10 products are never shown.",
+  },
+];
+
+/**
+ * Ruby bug types.
+ */
+const RUBY_BUG_TYPES: BugType[] = [
+  {
+    id: "rb-truthy-zero",
+    category: "LOGIC",
+    language: "ruby",
+    name: "Treating 0 or Empty String as Falsy",
+    description: "Write a condition assuming 0 or \"\" is falsy (in Ruby only nil and false are)",
+    examples: [
+      "return 'Out of stock' unless quantity  # 0 is truthy",
+      "name = params[:name] || 'Guest'  # empty string stays empty",
+    ],
+    sampleSymptom: "Product page: Items with zero stock still show an 'Add to cart' button instead of 'Out of stock'.",
+  },
+  {
+    id: "rb-bang-method",
+    category: "DATA_DISAPPEARING",
+    language: "ruby",
+    name: "Non-Bang Method Result Discarded",
+    description: "Call a non-bang method (sort, uniq, strip) and ignore its return value, or use a bang method that returns nil",
+    examples: [
+      "items.sort_by { |i| i.price }  # result discarded",
+      "name = name.strip!  # nil when nothing was stripped",
+    ],
+    sampleSymptom: "Price filter: Sorting by price does nothing. Products stay in the original order.",
+  },
+  {
+    id: "rb-range-exclusive",
+    category: "CALCULATION",
+    language: "ruby",
+    name: "Exclusive Range",
+    description: "Use ... instead of .. (or vice versa) so a range drops or adds an element",
+    examples: [
+      "(1...days).each { |d| ... }",
+      "items[0...-1]",
+    ],
+    sampleSymptom: "Booking calendar: The last night of every reservation is missing from the summary.",
+  },
+  {
+    id: "rb-hash-symbol-string",
+    category: "UNDEFINED_NULL",
+    language: "ruby",
+    name: "Symbol vs String Hash Key",
+    description: "Look up a hash with a string key when it was built with symbols (or vice versa)",
+    examples: [
+      "user['email']  # hash uses :email",
+      "settings[:theme]  # parsed JSON has string keys",
+    ],
+    sampleSymptom: "Account settings: The email field is always blank even though the account has an email.",
+  },
+];
+
+/**
+ * PHP bug types.
+ */
+const PHP_BUG_TYPES: BugType[] = [
+  {
+    id: "php-loose-comparison",
+    category: "LOGIC",
+    language: "php",
+    name: "Loose Comparison",
+    description: "Use == instead of === so type juggling makes unrelated values equal",
+    examples: [
+      "if ($token == 0) { ... }",
+      "if (in_array($role, $roles))  // missing strict flag",
+    ],
+    sampleSymptom: "Password reset page: Any reset link works, even ones with a made-up token.",
+  },
+  {
+    id: "php-array-function-order",
+    category: "CALCULATION",
+    language: "php",
+    name: "Swapped Array Function Arguments",
+    description: "Swap the arguments of an array/string function with inconsistent parameter order",
+    examples: [
+      "array_search($items, $needle)",
+      "strpos($needle, $haystack)",
+    ],
+    sampleSymptom: "Search box: Searching for a product that exists always says 'No results found'.",
+  },
+  {
+    id: "php-foreach-reference",
+    category: "SAME_VALUE",
+    language: "php",
+    name: "Dangling foreach Reference",
+    description: "Iterate by reference and reuse the variable afterwards, overwriting the last element",
+    examples: [
+      "foreach ($items as &$item) { ... } foreach ($items as $item) { ... }",
+      "foreach ($rows as &$row) { $row['total'] = ...; }  // no unset($row)",
+    ],
+    sampleSymptom: "Order summary: The last line item is a duplicate of the second-to-last one.",
+  },
+  {
+    id: "php-empty-zero",
+    category: "UNDEFINED_NULL",
+    language: "php",
+    name: "empty() on Valid Zero",
+    description: "Use empty() on a value where \"0\" or 0 is valid",
+    examples: [
+      "if (empty($quantity)) { return error('Quantity required'); }",
+      "$page = empty($_GET['page']) ? 1 : $_GET['page'];",
+    ],
+    sampleSymptom: "Inventory form: Setting a product's stock to 0 shows 'Quantity is required' and won't save.",
+  },
+];
+
+/**
+ * C bug types.
+ */
+const C_BUG_TYPES: BugType[] = [
+  {
+    id: "c-off-by-one-buffer",
+    category: "STRING_CORRUPTION",
+    language: "c",
+    name: "Off-by-One Buffer Length",
+    description: "Forget room for the null terminator or copy one character too few",
+    examples: [
+      "strncpy(dest, src, strlen(src) - 1);",
+      "char name[len];  // no room for '\\0'",
+    ],
+    sampleSymptom: "CLI output: The last letter of every name is cut off - 'Alice' prints as 'Alic'.",
+  },
+  {
+    id: "c-integer-division",
+    category: "CALCULATION",
+    language: "c",
+    name: "Integer Division",
+    description: "Divide ints before converting to floating point",
+    examples: [
+      "double avg = sum / count;",
+      "float pct = done / total * 100;",
+    ],
+    sampleSymptom: "Stats report: Average response time is always reported as a whole number, e.g. 2.0 instead of 2.7.",
+  },
+  {
+    id: "c-wrong-loop-bound",
+    category: "DATA_DISAPPEARING",
+    language: "c",
+    name: "Wrong Loop Bound",
+    description: "Use the wrong loop bound so the first or last element is skipped",
+    examples: [
+      "for (i = 0; i < n - 1; i++)",
+      "for (i = 1; i < count; i++)",
+    ],
+    sampleSymptom: "Export tool: The last record of the input file is never written to the output.",
+  },
+  {
+    id: "c-assignment-in-condition",
+    category: "LOGIC",
+    language: "c",
+    name: "Assignment Instead of Comparison",
+    description: "Use = instead of == in a condition",
+    examples: [
+      "if (status = STATUS_OK) { ... }",
+      "while (c = '\\n') { ... }",
+    ],
+    sampleSymptom: "Health check command: Always reports 'OK' even when the service is down.",
+  },
+];
+
+/**
+ * C++ bug types.
+ */
+const CPP_BUG_TYPES: BugType[] = [
+  ...C_BUG_TYPES.map((bug) => ({ ...bug, id: bug.id.replace(/^c-/, "cpp-"), language: "cpp" as const })),
+  {
+    id: "cpp-copy-instead-of-reference",
+    category: "DATA_DISAPPEARING",
+    language: "cpp",
+    name: "Modifying a Copy",
+    description: "Take a copy (auto, by-value parameter) instead of a reference so modifications are lost",
+    examples: [
+      "for (auto item : items) { item.price *= 0.9; }",
+      "void activate(User user) { user.active = true; }",
+    ],
+    sampleSymptom: "Discount tool: Applying a 10% discount reports success but prices are unchanged.",
+  },
+  {
+    id: "cpp-erase-in-loop",
+    category: "DATA_DISAPPEARING",
+    language: "cpp",
+    name: "Erase While Iterating",
+    description: "Erase from a container inside a loop and skip the next element",
+    examples: [
+      "for (auto it = v.begin(); it != v.end(); ++it) { if (bad(*it)) v.erase(it); }",
+      "for (size_t i = 0; i < v.size(); i++) { if (expired(v[i])) v.erase(v.begin() + i); }",
+    ],
+    sampleSymptom: "Session cleanup: Only half of the expired sessions are removed each run.",
+  },
+];
+
+/**
+ * Bug catalogs for languages other than JavaScript/TypeScript.
+ */
+export const LANGUAGE_BUG_TYPES: Partial<Record<Language, BugType[]>> = {
+  python: PYTHON_BUG_TYPES,
+  go: GO_BUG_TYPES,
+  rust: RUST_BUG_TYPES,
+  java: JAVA_BUG_TYPES,
+  csharp: CSHARP_BUG_TYPES,
+  ruby: RUBY_BUG_TYPES,
+  php: PHP_BUG_TYPES,
+  c: C_BUG_TYPES,
+  cpp: CPP_BUG_TYPES,
+};
+
+/**
+ * Returns the bug catalog for a language.
+ * JavaScript/TypeScript, markup and unknown files use the default catalog (BUG_TYPES).
+ *
+ * @param language - Detected language (null for markup/data files)
+ * @returns Bug types to select from
+ */
+export function getBugCatalog(language: Language | null): BugType[] {
+  return (language && LANGUAGE_BUG_TYPES[language]) || BUG_TYPES;
+}
@@ -0,0 +1,68 @@
+/**
+ * Programming languages with their own bug catalogs.
+ * "javascript" covers JavaScript, TypeScript and JS-based component files (Vue, Svelte, Astro).
+ */
+export type Language = "javascript" | "python" | "go" | "rust" | "java" | "csharp" | "ruby" | "php" | "c" | "cpp";
+
+/** Human-readable language names used in prompts and UI */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  javascript: "JavaScript/TypeScript",
+  python: "Python",
+  go: "Go",
+  rust: "Rust",
+  java: "Java",
+  csharp: "C#",
+  ruby: "Ruby",
+  php: "PHP",
+  c: "C",
+  cpp: "C++",
+};
+
+/** File extensions mapped to the language they are written in */
+const EXTENSION_LANGUAGES: Record<string, Language> = {
+  ts: "javascript",
+  tsx: "javascript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  vue: "javascript",
+  svelte: "javascript",
+  astro: "javascript",
+  py: "python",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  cs: "csharp",
+  rb: "ruby",
+  php: "php",
+  c: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  cxx: "cpp",
+  hpp: "cpp",
+};
+
+/** Patterns that only appear in C++ headers (used to tell .h files apart) */
+const CPP_HEADER_PATTERNS = [/\bclass\s+\w+/, /\bnamespace\s+\w+/, /\btemplate\s*</, /\bstd::/, /#include\s*<(iostream|string|vector|memory)>/];
+
+/**
+ * Detects the programming language of a file from its extension
+ * (and, for ambiguous `.h` headers, its content).
+ *
+ * Markup, styles and data files (HTML, CSS, JSON, YAML) have no language catalog
+ * and return null - they use the default (JavaScript/web) catalog.
+ *
+ * @param filename - File path
+ * @param content - File content (used to disambiguate C vs C++ headers)
+ * @returns The detected language, or null if the file isn't a programming language file
+ */
+export function detectLanguage(filename: string, content: string): Language | null {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+
+  if (ext === "h") {
+    return CPP_HEADER_PATTERNS.some((pattern) => pattern.test(content)) ? "cpp" : "c";
+  }
+
+  return EXTENSION_LANGUAGES[ext] ?? null;
+}
@@ -0,0 +1,522 @@
+import path from "path";
+import type { InjectedBug } from "./ai-stress";
+import { verifyModifiedSyntax } from "./code-verify";
+import { collectIdentifiers, findLeakIssues, LINE_REFERENCE_PATTERN } from "./symptom-verification";
+
+/** Commit message for buggered files - names no file, function or bug */
+export const NEUTRAL_COMMIT_MESSAGE = "🔥 Bugger up code";
+
+/** Words that give a bug away when they show up in new identifiers or strings */
+const GIVEAWAY_WORDS = new Set([
+  "bug", "bugs", "buggy", "bugged", "buggered", "buggr", "broken", "wrong", "faulty",
+  "injected", "sabotage", "sabotaged", "intentional", "intentionally", "oops",
+]);
+
+/** Comment syntax of a file type */
+interface CommentSyntax {
+  line: string[];
+  block: [string, string][];
+}
+
+const C_STYLE: CommentSyntax = { line: ["//"], block: [["/*", "*/"]] };
+const HASH_STYLE: CommentSyntax = { line: ["#"], block: [] };
+const MARKUP_STYLE: CommentSyntax = { line: [], block: [["<!--", "-->"]] };
+
+/** Comment syntax by file extension (files not listed have no comments, e.g. JSON) */
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  ...Object.fromEntries(
+    ["ts", "tsx", "js", "jsx", "mjs", "cjs", "java", "go", "rs", "c", "cpp", "h", "cs", "scss", "sass", "less"].map(
+      (ext) => [ext, C_STYLE]
+    )
+  ),
+  ...Object.fromEntries(["py", "rb", "yaml", "yml"].map((ext) => [ext, HASH_STYLE])),
+  ...Object.fromEntries(["html", "htm"].map((ext) => [ext, MARKUP_STYLE])),
+  ...Object.fromEntries(
+    ["vue", "svelte", "astro"].map((ext) => [ext, { line: C_STYLE.line, block: [...C_STYLE.block, ...MARKUP_STYLE.block] }])
+  ),
+  css: { line: [], block: C_STYLE.block },
+  php: { line: ["//", "#"], block: C_STYLE.block },
+};
+
+/**
+ * One giveaway found by the scanner.
+ */
+export interface LeakFinding {
+  /** Where the leak was found */
+  source: "content" | "commit-message" | "symptom";
+  /** What leaked */
+  kind: "comment" | "identifier" | "string" | "file-name" | "line-number" | "code";
+  /** File the leak is in (content leaks only) */
+  file?: string;
+  /** Line in the buggered file (content leaks only) */
+  line?: number;
+  detail: string;
+  /** Whether the leak was rewritten away or blocks the branch */
+  action: "rewritten" | "blocked";
+}
+
+/**
+ * A buggered file to scan.
+ */
+export interface LeakScanFile {
+  path: string;
+  originalContent: string;
+  modifiedContent: string;
+}
+
+/**
+ * Everything about a generated change that ends up in front of the player.
+ */
+export interface LeakScanInput {
+  files: LeakScanFile[];
+  commitMessage: string;
+  symptoms: string[];
+  bugs: InjectedBug[];
+}
+
+/**
+ * Scan output: the input with every leak rewritten away.
+ */
+export interface LeakScanResult {
+  /** Rewritten files, in the same order */
+  files: { path: string; content: string }[];
+  commitMessage: string;
+  symptoms: string[];
+  /** Bugs with line numbers, snippets and symptoms updated to match the rewrites */
+  bugs: InjectedBug[];
+  /** Leaks that were rewritten */
+  findings: LeakFinding[];
+}
+
+/**
+ * Thrown when a leak can't be rewritten safely, so the change must not be committed.
+ */
+export class LeakBlockedError extends Error {
+  constructor(message: string, public readonly findings: LeakFinding[]) {
+    super(message);
+    this.name = "LeakBlockedError";
+  }
+}
+
+/**
+ * Finds the first comment on a line, skipping markers inside string literals.
+ *
+ * @param line - Line of code
+ * @param syntax - Comment syntax of the file
+ * @returns Comment bounds, with the block end marker when the comment continues on later lines
+ */
+function findComment(line: string, syntax: CommentSyntax): { start: number; end: number; openUntil: string | null } | null {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+      continue;
+    }
+    // "http://" outside a string is a URL and "a#b" is an anchor, not a comment
+    const lineMarker = syntax.line.find(
+      (marker) =>
+        line.startsWith(marker, i) &&
+        !(marker === "//" && line[i - 1] === ":") &&
+        !(marker === "#" && i > 0 && !/\s/.test(line[i - 1]))
+    );
+    if (lineMarker) {
+      return { start: i, end: line.length, openUntil: null };
+    }
+    const block = syntax.block.find(([open]) => line.startsWith(open, i));
+    if (block) {
+      const close = line.indexOf(block[1], i + block[0].length);
+      return close === -1
+        ? { start: i, end: line.length, openUntil: block[1] }
+        : { start: i, end: close + block[1].length, openUntil: null };
+    }
+  }
+  return null;
+}
+
+/**
+ * Strips the markers from a comment, leaving its text.
+ *
+ * @param comment - Comment including its markers
+ * @returns Comment text
+ */
+function commentText(comment: string): string {
+  return comment.replace(/^(\/\/+|#+|\/\*+|<!--)/, "").replace(/(\*+\/|-->)$/, "").trim();
+}
+
+/**
+ * Removes comments that aren't in the original file. The AI's notes next to an edit
+ * ("// off by one here") point straight at the bug, and comments never change behavior.
+ *
+ * @param content - Modified content (or a snippet of it)
+ * @param originalContent - Content before bugs were introduced
+ * @param syntax - Comment syntax of the file
+ * @returns Rewritten content, the 1-based lines that were removed entirely, and the removed comments
+ */
+function stripNewComments(content: string, originalContent: string, syntax: CommentSyntax) {
+  const originalLines = new Set(originalContent.split("\n").map((line) => line.trim()));
+  const output: string[] = [];
+  const removedLines: number[] = [];
+  const comments: { line: number; text: string }[] = [];
+  let openUntil: string | null = null;
+
+  content.split("\n").forEach((line, index) => {
+    if (openUntil) {
+      // Rest of a new multi-line block comment
+      const close = line.indexOf(openUntil);
+      const rest = close === -1 ? "" : line.slice(close + openUntil.length);
+      if (close !== -1) openUntil = null;
+      if (rest.trim()) output.push(rest);
+      else removedLines.push(index + 1);
+      return;
+    }
+
+    const comment = originalLines.has(line.trim()) ? null : findComment(line, syntax);
+    const text = comment ? commentText(line.slice(comment.start, comment.end)) : "";
+    if (!comment || !text || originalContent.includes(text)) {
+      output.push(line);
+      return;
+    }
+
+    comments.push({ line: index + 1, text });
+    openUntil = comment.openUntil;
+    const before = line.slice(0, comment.start);
+    const after = line.slice(comment.end).trim();
+    if (!before.trim() && !after) {
+      removedLines.push(index + 1);
+    } else {
+      output.push(before.trim() ? `${before.trimEnd()}${after ? ` ${after}` : ""}` : `${before}${after}`);
+    }
+  });
+
+  return { content: output.join("\n"), removedLines, comments };
+}
+
+/**
+ * Splits an identifier into its words ("totalBroken" -> total, Broken; "count_old" -> count, old).
+ *
+ * @param identifier - Identifier to split
+ * @returns Words, in order
+ */
+function splitIdentifier(identifier: string): string[] {
+  return identifier
+    .replace(/^\$/, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .split("_")
+    .filter(Boolean);
+}
+
+/**
+ * Turns a code name into plain words, leaving out giveaway words,
+ * e.g. "cartTotal" -> "cart total", "totalBroken" -> "total".
+ *
+ * @param name - Identifier or file name
+ * @returns Lower-case words (empty if every word gives the bug away)
+ */
+function humanize(name: string): string {
+  return splitIdentifier(name)
+    .filter((word) => !GIVEAWAY_WORDS.has(word.toLowerCase()))
+    .join(" ")
+    .toLowerCase();
+}
+
+/**
+ * Lists the giveaway words written as standalone words in a text ("totalBroken" is one
+ * word, so it isn't listed).
+ *
+ * @param text - Text to check
+ * @returns Lower-case giveaway words
+ */
+function findGiveawayWords(text: string): Set<string> {
+  return new Set((text.match(/[\w$]+/g) ?? []).map((word) => word.toLowerCase()).filter((word) => GIVEAWAY_WORDS.has(word)));
+}
+
+/**
+ * Collects identifier tokens in code, ignoring string literal contents.
+ *
+ * @param code - Code to scan
+ * @returns Identifier tokens
+ */
+function collectTokens(code: string): Set<string> {
+  const withoutStrings = code.replace(/(["'`])(?:\\.|(?!\1)[^\\\n])*\1/g, "");
+  return new Set(withoutStrings.match(/[A-Za-z_$][\w$]*/g) ?? []);
+}
+
+/**
+ * Builds a regex matching a whole identifier.
+ *
+ * @param identifier - Identifier to match
+ * @returns Global regex
+ */
+function identifierPattern(identifier: string): RegExp {
+  return new RegExp(`(^|[^\\w$])${identifier.replace(/\$/g, "\\$")}(?![\\w$])`, "g");
+}
+
+/**
+ * Picks a replacement for an identifier that gives the bug away by dropping the giveaway
+ * words ("total_broken" -> "total", "brokenCount" -> "count").
+ *
+ * @param identifier - Leaking identifier
+ * @param takenNames - Identifiers already used in the file
+ * @returns New name, or null if no free name is left once the giveaway words are gone
+ */
+function renameIdentifier(identifier: string, takenNames: Set<string>): string | null {
+  const words = splitIdentifier(identifier);
+  const kept = words.filter((word) => !GIVEAWAY_WORDS.has(word.toLowerCase()));
+  if (kept.length === 0) return null;
+
+  const snakeCase = identifier.includes("_") && !/[a-z][A-Z]/.test(identifier);
+  const joined = snakeCase
+    ? kept.join("_")
+    : kept.map((word, index) => (index === 0 ? word : word[0].toUpperCase() + word.slice(1))).join("");
+  // Keep the original's leading case (PascalCase components, camelCase values)
+  const startsUpper = /^[$_]*[A-Z]/.test(identifier);
+  const renamed =
+    (identifier.startsWith("$") ? "$" : "") +
+    (startsUpper ? joined[0].toUpperCase() : joined[0].toLowerCase()) +
+    joined.slice(1);
+
+  // The bare name is usually the variable the bug shadows, so fall back to neutral suffixes
+  const candidates = ["", "value", "result", "current"].map((suffix) =>
+    !suffix ? renamed : snakeCase ? `${renamed}_${suffix}` : `${renamed}${suffix[0].toUpperCase()}${suffix.slice(1)}`
+  );
+  return candidates.find((candidate) => !takenNames.has(candidate)) ?? null;
+}
+
+/**
+ * Scans one buggered file: new comments are removed, new identifiers with giveaway names
+ * are renamed, and new strings with giveaway words block the file (changing them would
+ * change behavior).
+ *
+ * @param file - File to scan
+ * @param bugs - Bugs in the file (line numbers and snippets are updated to match)
+ * @returns Rewritten content and bugs, with the findings
+ */
+function scanContent(file: LeakScanFile, bugs: InjectedBug[]) {
+  const ext = file.path.split(".").pop()?.toLowerCase() || "";
+  const syntax = COMMENT_SYNTAX[ext];
+  const findings: LeakFinding[] = [];
+  let content = file.modifiedContent;
+  let fileBugs = bugs;
+
+  if (syntax) {
+    const stripped = stripNewComments(content, file.originalContent, syntax);
+    for (const comment of stripped.comments) {
+      findings.push({
+        source: "content",
+        kind: "comment",
+        file: file.path,
+        line: comment.line,
+        detail: `Removed new comment "${comment.text}"`,
+        action: "rewritten",
+      });
+    }
+    content = stripped.content;
+    const shift = (line: number) => line - stripped.removedLines.filter((removed) => removed < line).length;
+    fileBugs = fileBugs.map((bug) => ({
+      ...bug,
+      lineStart: shift(bug.lineStart),
+      lineEnd: Math.max(shift(bug.lineStart), shift(bug.lineEnd)),
+      buggySnippet: stripNewComments(bug.buggySnippet, file.originalContent, syntax).content,
+    }));
+  }
+
+  const originalLines = new Set(file.originalContent.split("\n").map((line) => line.trim()));
+  const addedLines = content
+    .split("\n")
+    .map((text, index) => ({ text, line: index + 1 }))
+    .filter(({ text }) => !originalLines.has(text.trim()));
+
+  const originalTokens = collectTokens(file.originalContent);
+  const takenNames = new Set([...originalTokens, ...collectTokens(content)]);
+  const leakingIdentifiers = new Map<string, number>();
+  for (const { text, line } of addedLines) {
+    for (const token of collectTokens(text)) {
+      if (
+        !originalTokens.has(token) &&
+        !leakingIdentifiers.has(token) &&
+        splitIdentifier(token).some((word) => GIVEAWAY_WORDS.has(word.toLowerCase()))
+      ) {
+        leakingIdentifiers.set(token, line);
+      }
+    }
+  }
+
+  for (const [identifier, line] of leakingIdentifiers) {
+    const renamed = renameIdentifier(identifier, takenNames);
+    if (!renamed) {
+      findings.push({
+        source: "content",
+        kind: "identifier",
+        file: file.path,
+        line,
+        detail: `Identifier "${identifier}" gives the bug away and can't be renamed`,
+        action: "blocked",
+      });
+      continue;
+    }
+    takenNames.add(renamed);
+    const pattern = identifierPattern(identifier);
+    content = content.replace(pattern, `$1${renamed}`);
+    fileBugs = fileBugs.map((bug) => ({ ...bug, buggySnippet: bug.buggySnippet.replace(pattern, `$1${renamed}`) }));
+    findings.push({
+      source: "content",
+      kind: "identifier",
+      file: file.path,
+      line,
+      detail: `Renamed "${identifier}" to "${renamed}"`,
+      action: "rewritten",
+    });
+  }
+
+  for (const { text, line } of addedLines) {
+    for (const [literal] of text.matchAll(/(["'`])(?:\\.|(?!\1)[^\\\n])*\1/g)) {
+      const words = literal.slice(1, -1).toLowerCase().match(/[a-z]+/g) ?? [];
+      if (!file.originalContent.includes(literal) && words.some((word) => GIVEAWAY_WORDS.has(word))) {
+        findings.push({
+          source: "content",
+          kind: "string",
+          file: file.path,
+          line,
+          detail: `New string ${literal} gives the bug away`,
+          action: "blocked",
+        });
+      }
+    }
+  }
+
+  if (content !== file.modifiedContent && verifyModifiedSyntax(file.path, file.originalContent, content)) {
+    findings.push({
+      source: "content",
+      kind: "code",
+      file: file.path,
+      detail: "Removing the leaks left the file unparseable",
+      action: "blocked",
+    });
+  }
+
+  return { content, bugs: fileBugs, findings };
+}
+
+/**
+ * Rewrites a symptom so it names no file, identifier or line: code names become plain
+ * words ("cartTotal" -> "cart total", giveaway words dropped) and line references are dropped.
+ *
+ * @param symptom - Symptom to rewrite
+ * @param files - Buggered file paths
+ * @param identifiers - Identifiers from the buggy code
+ * @returns Rewritten symptom
+ */
+function redactSymptom(symptom: string, files: string[], identifiers: string[]): string {
+  let redacted = symptom.replace(/`([^`]*)`/g, (_, code: string) => humanize(code.replace(/\(\)$/, "")));
+
+  for (const file of files) {
+    for (const name of [file, path.posix.basename(file)]) {
+      const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      redacted = redacted.replace(new RegExp(escaped, "gi"), humanize(path.posix.basename(name, path.posix.extname(name))));
+    }
+  }
+
+  for (const identifier of [...identifiers].sort((a, b) => b.length - a.length)) {
+    redacted = redacted.replace(identifierPattern(identifier), `$1${humanize(identifier)}`);
+  }
+
+  return redacted
+    .replace(/\b([A-Za-z_$][\w$]*)\(\)/g, (_, name: string) => humanize(name))
+    .replace(/\s*\(?\b(?:on |at |in )?(?:lines?\s*#?\d+(?:\s*[-–]\s*\d+)?|L\d+)\)?/gi, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/**
+ * Scans a generated change for giveaways before it's committed: comments next to the
+ * edits, identifiers like `total_broken`, commit messages naming the buggered files, and
+ * symptoms naming files, variables or lines. Leaks are rewritten where that's safe;
+ * anything else blocks the change.
+ *
+ * @param input - Files, commit message, symptoms and bug map of the change
+ * @returns The change with every leak rewritten
+ * @throws LeakBlockedError if a leak can't be rewritten
+ */
+export function scanForLeaks(input: LeakScanInput): LeakScanResult {
+  const findings: LeakFinding[] = [];
+  const filePaths = input.files.map((file) => file.path);
+  let bugs = [...input.bugs];
+
+  const files = input.files.map((file) => {
+    const bugIndexes = bugs.flatMap((bug, index) => (bug.file === file.path ? [index] : []));
+    const scanned = scanContent(file, bugIndexes.map((index) => bugs[index]));
+    bugIndexes.forEach((bugIndex, i) => {
+      bugs[bugIndex] = scanned.bugs[i];
+    });
+    findings.push(...scanned.findings);
+    return { path: file.path, content: scanned.content };
+  });
+
+  const identifiers = [
+    ...collectIdentifiers([...bugs.map((bug) => bug.originalSnippet), ...bugs.map((bug) => bug.buggySnippet)]),
+  ];
+  const leakSubject = (text: string) => ({
+    symptom: text,
+    change: null,
+    files: filePaths,
+    originalSnippets: bugs.map((bug) => bug.originalSnippet),
+    buggySnippets: bugs.map((bug) => bug.buggySnippet),
+  });
+
+  let commitMessage = input.commitMessage;
+  const messageIssues = findLeakIssues(leakSubject(commitMessage));
+  if (messageIssues.length > 0) {
+    findings.push({
+      source: "commit-message",
+      kind: LINE_REFERENCE_PATTERN.test(commitMessage) ? "line-number" : "file-name",
+      detail: `Replaced commit message "${commitMessage}" (${messageIssues.join("; ")})`,
+      action: "rewritten",
+    });
+    commitMessage = NEUTRAL_COMMIT_MESSAGE;
+  }
+
+  const symptoms = input.symptoms.map((symptom) => {
+    const issues = findLeakIssues(leakSubject(symptom));
+    if (issues.length === 0) return symptom;
+
+    const redacted = redactSymptom(symptom, filePaths, identifiers);
+    // Giveaway words the rewrite brought out of code names ("totalBroken" -> "total broken")
+    const originalGiveaways = findGiveawayWords(symptom);
+    const exposedGiveaways = [...findGiveawayWords(redacted)].filter((word) => !originalGiveaways.has(word));
+    const remaining = [
+      ...findLeakIssues(leakSubject(redacted)),
+      ...exposedGiveaways.map((word) => `names the bug ("${word}")`),
+    ];
+    findings.push({
+      source: "symptom",
+      kind: "code",
+      detail:
+        remaining.length === 0
+          ? `Rewrote symptom "${symptom}" (${issues.join("; ")})`
+          : `Symptom "${symptom}" still leaks after rewriting (${remaining.join("; ")})`,
+      action: remaining.length === 0 ? "rewritten" : "blocked",
+    });
+    return redacted;
+  });
+  bugs = bugs.map((bug) => {
+    const index = bug.symptom === null ? -1 : input.symptoms.indexOf(bug.symptom);
+    return index === -1 ? bug : { ...bug, symptom: symptoms[index] };
+  });
+
+  const blocked = findings.filter((finding) => finding.action === "blocked");
+  for (const finding of findings) {
+    const where = finding.file ? ` ${finding.file}${finding.line ? `:${finding.line}` : ""}` : "";
+    console.log(`[LeakScan] ${finding.action} ${finding.source}${where}: ${finding.detail}`);
+  }
+  if (blocked.length > 0) {
+    throw new LeakBlockedError(`Blocked by leak scan: ${blocked.map((finding) => finding.detail).join("; ")}`, blocked);
+  }
+
+  return { files, commitMessage, symptoms, bugs, findings };
+}
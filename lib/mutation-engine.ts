@@ -0,0 +1,533 @@
+import ts from "typescript";
+import { BugType, BUG_TYPES } from "./bug-types";
+import { verifyModifiedSyntax } from "./code-verify";
+import { RandomSource, createSeededRandom, shuffleWith } from "./random";
+
+/** Maximum characters of a before/after snippet included in a change description */
+const MAX_SNIPPET_CHARS = 80;
+
+/** Extensions the mutation engine can parse, mapped to the script kind used to parse them */
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ts: ts.ScriptKind.TS,
+  mts: ts.ScriptKind.TS,
+  cts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+  // Plain .js files commonly contain JSX (e.g., React projects)
+  js: ts.ScriptKind.JSX,
+  jsx: ts.ScriptKind.JSX,
+  mjs: ts.ScriptKind.JS,
+  cjs: ts.ScriptKind.JS,
+};
+
+/**
+ * Custom error class for mutation engine failures.
+ */
+export class MutationError extends Error {
+  constructor(message: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = "MutationError";
+  }
+}
+
+/**
+ * A location where a bug type can be applied, expressed as a text replacement.
+ */
+interface MutationSite {
+  bugTypeId: string;
+  /** Start offset of the replaced range */
+  start: number;
+  /** End offset of the replaced range */
+  end: number;
+  /** Text inserted in place of the range */
+  replacement: string;
+  /** Start offset of the code shown in before/after (the enclosing expression for token swaps) */
+  snippetStart: number;
+  /** End offset of the code shown in before/after */
+  snippetEnd: number;
+  /** Readable snippet before the mutation (for change descriptions) */
+  before: string;
+  /** Readable snippet after the mutation (for change descriptions) */
+  after: string;
+}
+
+/**
+ * A mutation that was applied to a file.
+ */
+export interface AppliedMutation {
+  bugTypeId: string;
+  /** 1-based line the mutated snippet starts on, in the mutated content */
+  line: number;
+  /** Original code snippet */
+  before: string;
+  /** Buggy code snippet */
+  after: string;
+}
+
+/**
+ * Result of running the mutation engine on a file.
+ */
+export interface MutationResult {
+  content: string;
+  /** Technical description of each bug introduced */
+  changes: string[];
+  /** Bug types that were applied, in the same order as changes */
+  bugTypes: BugType[];
+  mutations: AppliedMutation[];
+}
+
+/**
+ * Options for running the mutation engine.
+ */
+export interface MutationOptions {
+  /** Number of bugs to introduce (fewer are applied if the file has too few sites) */
+  count: number;
+  /** Random source used to pick bug types and sites (defaults to one seeded from the file) */
+  random?: RandomSource;
+  /** Restrict mutations to these bug type ids */
+  bugTypeIds?: string[];
+}
+
+/** A mutator inspects a node and returns a mutation site if its bug type applies there */
+type Mutator = (node: ts.Node, sourceFile: ts.SourceFile) => Omit<MutationSite, "bugTypeId"> | null;
+
+const COMPARISON_SWAPS: Partial<Record<ts.SyntaxKind, string>> = {
+  [ts.SyntaxKind.LessThanToken]: ">",
+  [ts.SyntaxKind.GreaterThanToken]: "<",
+  [ts.SyntaxKind.LessThanEqualsToken]: ">=",
+  [ts.SyntaxKind.GreaterThanEqualsToken]: "<=",
+};
+
+const MATH_SWAPS: Partial<Record<ts.SyntaxKind, string>> = {
+  [ts.SyntaxKind.AsteriskToken]: "+",
+  [ts.SyntaxKind.SlashToken]: "*",
+  [ts.SyntaxKind.MinusToken]: "+",
+  [ts.SyntaxKind.PlusToken]: "-",
+};
+
+const LOGICAL_OPERATORS = [
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+];
+
+const ROUNDING_SWAPS: Record<string, string> = {
+  floor: "ceil",
+  ceil: "floor",
+  round: "floor",
+};
+
+/**
+ * Truncates a snippet for use in a change description.
+ *
+ * @param text - Snippet text
+ * @returns Single-line snippet of at most MAX_SNIPPET_CHARS characters
+ */
+function snippet(text: string): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > MAX_SNIPPET_CHARS ? `${singleLine.substring(0, MAX_SNIPPET_CHARS)}...` : singleLine;
+}
+
+/**
+ * Creates a site that replaces a whole node.
+ *
+ * @param node - Node to replace
+ * @param sourceFile - Source file the node belongs to
+ * @param replacement - Replacement text
+ * @returns Mutation site
+ */
+function replaceNode(node: ts.Node, sourceFile: ts.SourceFile, replacement: string): Omit<MutationSite, "bugTypeId"> {
+  const before = node.getText(sourceFile);
+  const start = node.getStart(sourceFile);
+  const end = node.getEnd();
+  return { start, end, replacement, snippetStart: start, snippetEnd: end, before, after: replacement };
+}
+
+/**
+ * Creates a site that replaces a token inside a larger expression (e.g., an operator).
+ *
+ * @param token - Token to replace
+ * @param context - Enclosing node shown in the change description
+ * @param sourceFile - Source file the nodes belong to
+ * @param replacement - Replacement token text
+ * @returns Mutation site
+ */
+function replaceToken(
+  token: ts.Node,
+  context: ts.Node,
+  sourceFile: ts.SourceFile,
+  replacement: string
+): Omit<MutationSite, "bugTypeId"> {
+  const start = token.getStart(sourceFile);
+  const end = token.getEnd();
+  const contextStart = context.getStart(sourceFile);
+  const before = context.getText(sourceFile);
+  const after = before.slice(0, start - contextStart) + replacement + before.slice(end - contextStart);
+  return { start, end, replacement, snippetStart: contextStart, snippetEnd: context.getEnd(), before, after };
+}
+
+/**
+ * Checks whether an expression can be prefixed with `!` without parentheses.
+ *
+ * @param node - Expression to check
+ * @returns True for identifiers, property/element accesses and calls
+ */
+function isSimpleOperand(node: ts.Expression): boolean {
+  return (
+    ts.isIdentifier(node) ||
+    ts.isPropertyAccessExpression(node) ||
+    ts.isElementAccessExpression(node) ||
+    ts.isCallExpression(node) ||
+    ts.isParenthesizedExpression(node)
+  );
+}
+
+/**
+ * Checks whether an expression is (or is wrapped around) a JSX element.
+ *
+ * @param node - Expression to check
+ * @returns True if the expression renders JSX
+ */
+function isJsxExpression(node: ts.Expression): boolean {
+  const inner = ts.isParenthesizedExpression(node) ? node.expression : node;
+  return ts.isJsxElement(inner) || ts.isJsxSelfClosingElement(inner) || ts.isJsxFragment(inner);
+}
+
+/**
+ * Checks whether an expression is a string literal or template.
+ *
+ * @param node - Expression to check
+ * @returns True for string literals and template strings
+ */
+function isStringLike(node: ts.Expression): boolean {
+  return ts.isStringLiteral(node) || ts.isTemplateExpression(node) || ts.isNoSubstitutionTemplateLiteral(node);
+}
+
+/**
+ * Checks whether an expression is a logical (&&, ||, ??) binary expression.
+ *
+ * @param node - Node to check
+ * @returns True for unparenthesized logical expressions
+ */
+function isLogicalBinary(node: ts.Node): boolean {
+  return ts.isBinaryExpression(node) && LOGICAL_OPERATORS.includes(node.operatorToken.kind);
+}
+
+/**
+ * Checks whether a node is the target of an assignment.
+ *
+ * @param node - Node to check
+ * @returns True if the node is on the left side of `=`, `+=`, etc.
+ */
+function isAssignmentTarget(node: ts.Node): boolean {
+  const parent = node.parent;
+  return (
+    ts.isBinaryExpression(parent) &&
+    parent.left === node &&
+    parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+    parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+  );
+}
+
+/**
+ * Gets the method name of a call like `items.map(...)`.
+ *
+ * @param node - Call expression
+ * @returns The method name, or null if the callee isn't a property access
+ */
+function getMethodName(node: ts.CallExpression): string | null {
+  return ts.isPropertyAccessExpression(node.expression) ? node.expression.name.text : null;
+}
+
+/**
+ * Mutators keyed by the BUG_TYPES id they implement.
+ */
+const MUTATORS: Record<string, Mutator> = {
+  // items.length in a comparison → items.length - 1
+  "off-by-one-length": (node, sourceFile) => {
+    if (!ts.isPropertyAccessExpression(node) || node.name.text !== "length") return null;
+    const parent = node.parent;
+    if (!ts.isBinaryExpression(parent) || !(parent.operatorToken.kind in COMPARISON_SWAPS)) return null;
+    return replaceNode(node, sourceFile, `${node.getText(sourceFile)} - 1`);
+  },
+
+  // a < b → a > b, a <= b → a >= b
+  "wrong-comparison": (node, sourceFile) => {
+    if (!ts.isBinaryExpression(node)) return null;
+    const swapped = COMPARISON_SWAPS[node.operatorToken.kind];
+    return swapped ? replaceToken(node.operatorToken, node, sourceFile, swapped) : null;
+  },
+
+  // const data = await load() → const data = load()
+  "missing-await": (node, sourceFile) => {
+    if (!ts.isAwaitExpression(node) || ts.isExpressionStatement(node.parent)) return null;
+    return replaceNode(node, sourceFile, node.expression.getText(sourceFile));
+  },
+
+  // true → false, false → true
+  "boolean-flip": (node, sourceFile) => {
+    if (node.kind !== ts.SyntaxKind.TrueKeyword && node.kind !== ts.SyntaxKind.FalseKeyword) return null;
+    if (ts.isLiteralTypeNode(node.parent)) return null;
+    return replaceNode(node, sourceFile, node.kind === ts.SyntaxKind.TrueKeyword ? "false" : "true");
+  },
+
+  // items.map(...) → items.slice(0, -2).map(...)
+  "array-slice-end": (node, sourceFile) => {
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return null;
+    const callee = node.expression;
+    if (callee.questionDotToken || !["map", "forEach"].includes(callee.name.text)) return null;
+    return replaceNode(callee.expression, sourceFile, `${callee.expression.getText(sourceFile)}.slice(0, -2)`);
+  },
+
+  // price * quantity → price + quantity
+  "wrong-math-op": (node, sourceFile) => {
+    if (!ts.isBinaryExpression(node)) return null;
+    const swapped = MATH_SWAPS[node.operatorToken.kind];
+    if (!swapped || isStringLike(node.left) || isStringLike(node.right)) return null;
+    return replaceToken(node.operatorToken, node, sourceFile, swapped);
+  },
+
+  // isOpen && <Modal /> → !isOpen && <Modal />
+  "invert-condition": (node, sourceFile) => {
+    if (!ts.isBinaryExpression(node) || node.operatorToken.kind !== ts.SyntaxKind.AmpersandAmpersandToken) return null;
+    if (!isJsxExpression(node.right)) return null;
+
+    const condition = node.left;
+    const inverted = ts.isPrefixUnaryExpression(condition) && condition.operator === ts.SyntaxKind.ExclamationToken
+      ? condition.operand.getText(sourceFile)
+      : isSimpleOperand(condition)
+        ? `!${condition.getText(sourceFile)}`
+        : `!(${condition.getText(sourceFile)})`;
+    return replaceNode(condition, sourceFile, inverted);
+  },
+
+  // a && b → a || b
+  "wrong-logical-op": (node, sourceFile) => {
+    if (!ts.isBinaryExpression(node) || isJsxExpression(node.right)) return null;
+    const kind = node.operatorToken.kind;
+    if (kind !== ts.SyntaxKind.AmpersandAmpersandToken && kind !== ts.SyntaxKind.BarBarToken) return null;
+    return replaceToken(node.operatorToken, node, sourceFile, kind === ts.SyntaxKind.AmpersandAmpersandToken ? "||" : "&&");
+  },
+
+  // value ?? fallback ↔ value || fallback (only where mixing operators can't create a syntax error)
+  "wrong-nullish": (node, sourceFile) => {
+    if (!ts.isBinaryExpression(node)) return null;
+    const kind = node.operatorToken.kind;
+    if (kind !== ts.SyntaxKind.QuestionQuestionToken && kind !== ts.SyntaxKind.BarBarToken) return null;
+    if (isLogicalBinary(node.parent) || isLogicalBinary(node.left) || isLogicalBinary(node.right)) return null;
+    return replaceToken(node.operatorToken, node, sourceFile, kind === ts.SyntaxKind.QuestionQuestionToken ? "||" : "??");
+  },
+
+  // user?.address → user.address
+  "wrong-optional-chain": (node, sourceFile) => {
+    if (ts.isPropertyAccessExpression(node) && node.questionDotToken) {
+      return replaceToken(node.questionDotToken, node, sourceFile, ".");
+    }
+    if ((ts.isElementAccessExpression(node) || ts.isCallExpression(node)) && node.questionDotToken) {
+      return replaceToken(node.questionDotToken, node, sourceFile, "");
+    }
+    return null;
+  },
+
+  // return price * quantity → return 0
+  "return-zero": (node, sourceFile) => {
+    if (!ts.isReturnStatement(node) || !node.expression || !ts.isBinaryExpression(node.expression)) return null;
+    const expression = node.expression;
+    if (!(expression.operatorToken.kind in MATH_SWAPS)) return null;
+    if (isStringLike(expression.left) || isStringLike(expression.right)) return null;
+    return replaceNode(expression, sourceFile, "0");
+  },
+
+  // cond ? a : b → cond ? b : a
+  "wrong-ternary": (node, sourceFile) => {
+    if (!ts.isConditionalExpression(node)) return null;
+    const condition = node.condition.getText(sourceFile);
+    const whenTrue = node.whenTrue.getText(sourceFile);
+    const whenFalse = node.whenFalse.getText(sourceFile);
+    if (whenTrue === whenFalse) return null;
+    return replaceNode(node, sourceFile, `${condition} ? ${whenFalse} : ${whenTrue}`);
+  },
+
+  // Math.ceil(x) → Math.floor(x)
+  "wrong-rounding": (node, sourceFile) => {
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return null;
+    const callee = node.expression;
+    if (!ts.isIdentifier(callee.expression) || callee.expression.text !== "Math") return null;
+    const swapped = ROUNDING_SWAPS[callee.name.text];
+    return swapped ? replaceToken(callee.name, node, sourceFile, swapped) : null;
+  },
+
+  // .sort((a, b) => a.date - b.date) → .sort((a, b) => b.date - a.date)
+  "wrong-sort": (node, sourceFile) => {
+    if (!ts.isCallExpression(node) || getMethodName(node) !== "sort" || node.arguments.length !== 1) return null;
+    const comparator = node.arguments[0];
+    if (!ts.isArrowFunction(comparator) && !ts.isFunctionExpression(comparator)) return null;
+
+    let body: ts.Node | undefined = comparator.body;
+    if (ts.isBlock(body)) {
+      const statement = body.statements.length === 1 ? body.statements[0] : undefined;
+      body = statement && ts.isReturnStatement(statement) ? statement.expression : undefined;
+    }
+    if (!body || !ts.isBinaryExpression(body) || body.operatorToken.kind !== ts.SyntaxKind.MinusToken) return null;
+
+    return replaceNode(body, sourceFile, `${body.right.getText(sourceFile)} - ${body.left.getText(sourceFile)}`);
+  },
+
+  // items[0] → items[1], items[i] → items[i + 1]
+  "wrong-index": (node, sourceFile) => {
+    if (!ts.isElementAccessExpression(node) || isAssignmentTarget(node)) return null;
+    const argument = node.argumentExpression;
+    if (ts.isNumericLiteral(argument) && argument.text === "0") {
+      return replaceToken(argument, node, sourceFile, "1");
+    }
+    if (ts.isIdentifier(argument)) {
+      return replaceToken(argument, node, sourceFile, `${argument.text} + 1`);
+    }
+    return null;
+  },
+
+  // return items.filter(...) → return []
+  "array-return-empty": (node, sourceFile) => {
+    if (!ts.isReturnStatement(node) || !node.expression || !ts.isCallExpression(node.expression)) return null;
+    const method = getMethodName(node.expression);
+    if (!method || !["map", "filter", "slice", "sort", "concat"].includes(method)) return null;
+    return replaceNode(node.expression, sourceFile, "[]");
+  },
+};
+
+/**
+ * Checks whether the mutation engine can parse a file.
+ *
+ * @param filename - File path
+ * @returns True for TS/TSX/JS/JSX files
+ */
+export function canMutateFile(filename: string): boolean {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+  return ext in SCRIPT_KINDS;
+}
+
+/**
+ * Returns the bug types the mutation engine implements directly.
+ *
+ * @returns Bug types with a mutator
+ */
+export function getMutationBugTypes(): BugType[] {
+  return BUG_TYPES.filter((bugType) => bugType.id in MUTATORS);
+}
+
+/**
+ * Walks a file's AST and collects every site where an implemented bug type applies.
+ *
+ * @param sourceFile - Parsed source file
+ * @param bugTypeIds - Bug type ids to look for
+ * @returns Sites grouped by bug type id, in source order
+ */
+function collectSites(sourceFile: ts.SourceFile, bugTypeIds: string[]): Map<string, MutationSite[]> {
+  const sites = new Map<string, MutationSite[]>();
+
+  const visit = (node: ts.Node) => {
+    for (const bugTypeId of bugTypeIds) {
+      const site = MUTATORS[bugTypeId](node, sourceFile);
+      if (site) {
+        sites.set(bugTypeId, [...(sites.get(bugTypeId) || []), { bugTypeId, ...site }]);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return sites;
+}
+
+/**
+ * Checks whether two sites touch the same code. Snippet ranges are compared, not just the
+ * replaced ranges: a site's before/after must still appear verbatim once every site is applied.
+ *
+ * @param a - First site
+ * @param b - Second site
+ * @returns True if the snippet ranges overlap
+ */
+function sitesOverlap(a: MutationSite, b: MutationSite): boolean {
+  return a.snippetStart < b.snippetEnd && b.snippetStart < a.snippetEnd;
+}
+
+/**
+ * Introduces bugs into a JS/TS file by mutating its AST - no AI involved.
+ *
+ * Bug types are picked from those with at least one applicable site, then one site is
+ * picked per bug type, never overlapping an earlier pick. Given the same content and
+ * random source, the result is always identical. Without an explicit random source,
+ * one seeded from the filename and content is used.
+ *
+ * @param content - Original file content
+ * @param filename - File path (selects TS vs JSX parsing)
+ * @param options - Bug count, random source and allowed bug types
+ * @returns Mutated content with change descriptions and the bug types applied
+ * @throws MutationError if the file type is unsupported or no bug type applies
+ */
+export function introduceMutations(content: string, filename: string, options: MutationOptions): MutationResult {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+  const scriptKind = SCRIPT_KINDS[ext];
+  if (scriptKind === undefined) {
+    throw new MutationError(`Mutation engine does not support .${ext} files`);
+  }
+
+  const random = options.random ?? createSeededRandom(`${filename}\n${content}`);
+  const bugTypeIds = (options.bugTypeIds ?? Object.keys(MUTATORS)).filter((id) => id in MUTATORS);
+
+  const sourceFile = ts.createSourceFile(filename, content, ts.ScriptTarget.Latest, true, scriptKind);
+  const sitesByBugType = collectSites(sourceFile, bugTypeIds);
+
+  const candidateIds = shuffleWith(bugTypeIds.filter((id) => sitesByBugType.has(id)), random);
+  const chosen: MutationSite[] = [];
+
+  for (const bugTypeId of candidateIds) {
+    if (chosen.length >= options.count) break;
+    const site = shuffleWith(sitesByBugType.get(bugTypeId)!, random).find(
+      (candidate) => !chosen.some((existing) => sitesOverlap(existing, candidate))
+    );
+    if (site) chosen.push(site);
+  }
+
+  if (chosen.length === 0) {
+    throw new MutationError(`No applicable mutation sites found in ${filename}`);
+  }
+
+  // Apply from the end so earlier offsets stay valid
+  let mutated = content;
+  for (const site of [...chosen].sort((a, b) => b.start - a.start)) {
+    mutated = mutated.slice(0, site.start) + site.replacement + mutated.slice(site.end);
+  }
+
+  const syntaxProblem = verifyModifiedSyntax(filename, content, mutated);
+  if (syntaxProblem) {
+    throw new MutationError(`Mutations produced unparseable code in ${filename}: ${syntaxProblem}`);
+  }
+
+  // Lines are counted in the mutated content: a replacement can add or remove lines
+  // (e.g. a multi-line ternary printed on one), shifting every site after it
+  const countNewlines = (text: string) => text.split("\n").length - 1;
+  const mutatedLines = new Map<MutationSite, number>();
+  let lineDelta = 0;
+  for (const site of [...chosen].sort((a, b) => a.start - b.start)) {
+    mutatedLines.set(site, sourceFile.getLineAndCharacterOfPosition(site.snippetStart).line + 1 + lineDelta);
+    lineDelta += countNewlines(site.replacement) - countNewlines(content.slice(site.start, site.end));
+  }
+
+  const bugTypes = chosen.map((site) => BUG_TYPES.find((bugType) => bugType.id === site.bugTypeId)!);
+  const mutations: AppliedMutation[] = chosen.map((site) => ({
+    bugTypeId: site.bugTypeId,
+    line: mutatedLines.get(site)!,
+    before: site.before,
+    after: site.after,
+  }));
+
+  return {
+    content: mutated,
+    changes: mutations.map(
+      (mutation, index) =>
+        `${bugTypes[index].name} (line ${mutation.line}): \`${snippet(mutation.before)}\` → \`${snippet(mutation.after)}\``
+    ),
+    bugTypes,
+    mutations,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * File extensions that can be buggered.
+ * Shared between client (path match preview) and server (file filtering).
+ */
+export const STRESSABLE_EXTENSIONS = [
+  // JavaScript/TypeScript
+  "ts", "tsx", "js", "jsx", "mjs", "cjs",
+  // Web
+  "html", "htm", "css", "scss", "sass", "less",
+  // Frameworks
+  "vue", "svelte", "astro",
+  // Backend
+  "py", "java", "go", "rs", "c", "cpp", "h", "cs", "rb", "php",
+  // Config/Data (can have bugs too)
+  "json", "yaml", "yml",
+];
+
+/** Maximum number of candidate files considered for one challenge (path matches beyond this are dropped at random) */
+export const MAX_CANDIDATE_FILES = 25;
+
+/**
+ * Checks whether a file can be buggered, based on its extension.
+ *
+ * @param filePath - File path
+ * @returns True if the file type is supported
+ */
+export function isStressableFile(filePath: string): boolean {
+  const ext = filePath.split(".").pop()?.toLowerCase();
+  return STRESSABLE_EXTENSIONS.includes(ext || "");
+}
+
+/**
+ * Normalizes a user-entered path or glob ("./src/app/" -> "src/app").
+ *
+ * @param pattern - Path or glob
+ * @returns Normalized pattern (empty if nothing is left)
+ */
+export function normalizePathPattern(pattern: string): string {
+  return pattern.trim().replace(/\\/g, "/").replace(/^(\.\/|\/)+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Checks whether a pattern uses glob syntax.
+ *
+ * @param pattern - Normalized path or glob
+ * @returns True if the pattern contains *, ? or {a,b}
+ */
+export function isGlobPattern(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Converts a glob to a regex matching whole repository paths.
+ * Supports `**` (any number of directories), `*` and `?` (within one path segment) and `{a,b}`.
+ *
+ * @param pattern - Normalized glob, e.g. "src/features/billing/**" or "src/**\/*.{ts,tsx}"
+ * @returns Anchored regex
+ */
+function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      const atSegmentStart = i === 0 || pattern[i - 1] === "/";
+      if (atSegmentStart && pattern[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "{") {
+      source += "(?:";
+      braceDepth++;
+    } else if (char === "}" && braceDepth > 0) {
+      source += ")";
+      braceDepth--;
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Checks whether a file path matches a pattern. Plain paths match the file itself
+ * or, for directories, every file beneath it.
+ *
+ * @param filePath - Repository file path
+ * @param pattern - Normalized path or glob
+ * @returns True if the file is selected by the pattern
+ */
+export function matchesPathPattern(filePath: string, pattern: string): boolean {
+  if (!pattern) return false;
+  if (isGlobPattern(pattern)) return globToRegExp(pattern).test(filePath);
+  return filePath === pattern || filePath.startsWith(`${pattern}/`);
+}
+
+/**
+ * Resolves paths and globs against the files in a repository tree.
+ *
+ * @param filePaths - Every file path in the tree
+ * @param patterns - Normalized paths and globs
+ * @returns Stressable files matched by any pattern, in tree order
+ */
+export function resolvePathPatterns(filePaths: string[], patterns: string[]): string[] {
+  return filePaths.filter(
+    (filePath) => isStressableFile(filePath) && patterns.some((pattern) => matchesPathPattern(filePath, pattern))
+  );
+}
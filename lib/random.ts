@@ -0,0 +1,78 @@
+/** A function returning a pseudo-random number in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+/** Maximum length of a user-provided seed */
+const MAX_SEED_LENGTH = 64;
+
+/**
+ * Hashes a string into a 32-bit unsigned integer (FNV-1a).
+ * Used to turn arbitrary seed strings into PRNG state.
+ *
+ * @param value - String to hash
+ * @returns 32-bit unsigned hash
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a deterministic pseudo-random source (mulberry32).
+ * The same seed always produces the same sequence.
+ *
+ * @param seed - Numeric or string seed
+ * @returns Random source returning numbers in [0, 1)
+ */
+export function createSeededRandom(seed: number | string): RandomSource {
+  let state = typeof seed === "string" ? hashString(seed) : seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Returns a shuffled copy of an array using an unbiased Fisher-Yates shuffle.
+ *
+ * @param items - Items to shuffle
+ * @param random - Random source (defaults to Math.random)
+ * @returns New shuffled array
+ */
+export function shuffleWith<T>(items: readonly T[], random: RandomSource = Math.random): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Normalizes a user-provided seed (string or number) from a request body.
+ *
+ * @param value - Raw seed value
+ * @returns Trimmed seed string, or null if no usable seed was provided
+ */
+export function normalizeSeed(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().slice(0, MAX_SEED_LENGTH);
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Generates a fresh random seed so that unseeded challenges can still be reproduced later.
+ *
+ * @returns An 8-character hex seed
+ */
+export function generateSeed(): string {
+  return Math.floor(Math.random() * 0x100000000).toString(16).padStart(8, "0");
+}
@@ -40,6 +40,27 @@ export const TIME_THRESHOLDS: Record<
   high: { maxA: 10, maxB: 15, maxC: 20 },
 };
 
+/**
+ * Minutes added to the completion time for each hint level used
+ * (1 = file, 2 = function, 3 = category, 4 = line).
+ */
+export const HINT_TIME_PENALTY_MINUTES: Record<number, number> = {
+  1: 1,
+  2: 2,
+  3: 2,
+  4: 4,
+};
+
+/**
+ * Calculates the total time penalty for the hints a user revealed.
+ *
+ * @param hintLevels - Level of every hint revealed
+ * @returns Penalty in minutes
+ */
+export function calculateHintPenaltyMinutes(hintLevels: number[]): number {
+  return hintLevels.reduce((total, level) => total + (HINT_TIME_PENALTY_MINUTES[level] ?? 0), 0);
+}
+
 /** Score ratings from best to worst */
 export const SCORE_RATINGS: Record<string, ScoreRating> = {
   A: {
@@ -96,16 +117,19 @@ export const DIFFICULTY_CONFIG: Record<
 
 /**
  * Calculates a score rating based on difficulty and time taken.
+ * Hints count as extra time (see HINT_TIME_PENALTY_MINUTES).
  *
  * @param difficultyLevel - The stress level (low, medium, high)
  * @param timeMs - Time taken in milliseconds
+ * @param hintPenaltyMinutes - Minutes added for hints used (see calculateHintPenaltyMinutes)
  * @returns Score rating object
  */
 export function calculateScoreRating(
   difficultyLevel: DifficultyLevel | undefined,
-  timeMs: number
+  timeMs: number,
+  hintPenaltyMinutes = 0
 ): ScoreRating {
-  const timeMinutes = timeMs / (1000 * 60);
+  const timeMinutes = timeMs / (1000 * 60) + hintPenaltyMinutes;
   const difficulty = difficultyLevel || "medium";
   const thresholds = TIME_THRESHOLDS[difficulty];
 
@@ -10,3 +10,29 @@ export const STRESS_LEVEL_COSTS = {
 } as const;
 
 export type StressLevel = keyof typeof STRESS_LEVEL_COSTS;
+
+/**
+ * Prices a challenge on what was delivered: when only some of the planned bugs made it
+ * in (e.g. one of three files couldn't be buggered), the cost shrinks in proportion.
+ * Rounded up, so a delivered challenge always costs at least a coin.
+ *
+ * @param fullCost - Cost of the stress level
+ * @param deliveredBugs - Bugs planned for the files that were buggered
+ * @param plannedBugs - Bugs planned overall
+ * @returns Coins to charge
+ */
+export function priceDeliveredChallenge(fullCost: number, deliveredBugs: number, plannedBugs: number): number {
+  if (plannedBugs <= 0 || deliveredBugs >= plannedBugs) return fullCost;
+  return Math.max(1, Math.ceil((fullCost * deliveredBugs) / plannedBugs));
+}
+
+/**
+ * Coin costs for each hint level (1 = file, 2 = function, 3 = category, 4 = line).
+ * Later hints give more away, so they cost more.
+ */
+export const HINT_COSTS: Record<number, number> = {
+  1: 1,
+  2: 2,
+  3: 2,
+  4: 4,
+};
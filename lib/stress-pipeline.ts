@@ -0,0 +1,1000 @@
+import { Prisma } from "@prisma/client";
+import {
+  commitFiles,
+  deleteBranch,
+  fetchFileContent,
+  fetchFileCommitCount,
+  fetchRepoTree,
+  stressMetadataFile,
+  CommitFileChange,
+  StressMetadata,
+  REASONING_FILE_PATH,
+  STRESS_METADATA_PATH,
+} from "./github";
+import { introduceAIStress, introduceCrossFileStress, countAvailableBugTypes, AIStressResult, InjectedBug } from "./ai-stress";
+import { BUG_CATEGORIES, CROSS_FILE_CATEGORY, isCategoryAllowed, parseCategoryFilter, validateCategoryFilter } from "./bug-categories";
+import { loadCustomBugTypes } from "./custom-bug-types";
+import { scanForLeaks, NEUTRAL_COMMIT_MESSAGE } from "./leak-scanner";
+import { findExclusionReason, parseFileSelectionStrategy, selectFiles, PinnedFile } from "./file-selection";
+import { isStressableFile, normalizePathPattern, resolvePathPatterns, MAX_CANDIDATE_FILES } from "./path-selection";
+import { buildCallGraph, CrossFileLink } from "./code-graph";
+import { prisma } from "./prisma";
+import { logTokenUsage, TokenUsageData } from "./token-usage";
+import { STRESS_LEVEL_COSTS, priceDeliveredChallenge } from "./stress-costs";
+import { applyCoinChange, InsufficientCoinsError } from "./coin-ledger";
+import { sendBugReportEmail, APP_URL } from "./email";
+import { createSeededRandom, shuffleWith } from "./random";
+import type { StressProgressReporter } from "./stress-progress";
+
+/**
+ * Body accepted by POST /api/github/stress. Stored as a generation job's input.
+ */
+export interface StressRequest {
+  owner: string;
+  repo: string;
+  branch: string;
+  /** Commit files to consider */
+  files?: string[];
+  /** Paths and globs selecting files anywhere in the repository */
+  paths?: string[];
+  /** Focus area (truncated to 200 characters) */
+  context?: string;
+  difficulty?: string;
+  originalCommitSha?: string;
+  customFilesCount?: number;
+  customBugCount?: number;
+  /** Seed driving every random choice */
+  seed: string;
+  /** Bug category include/exclude lists */
+  categories?: unknown;
+  /** File selection strategy id */
+  fileStrategy?: string;
+}
+
+/** Stress levels a challenge can be created at */
+export type StressLevel = "low" | "medium" | "high" | "custom";
+
+/**
+ * Status and body the stress endpoint responds with.
+ */
+export interface StressOutcome {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Outcome for one candidate file.
+ */
+export interface StressFileResult {
+  file: string;
+  success: boolean;
+  changes?: string[];
+  symptoms?: string[];
+  crossFileWith?: string;
+  /** Why the file selector picked this file */
+  selectionReasons?: string[];
+  error?: string;
+}
+
+/**
+ * Work completed so far. Saved after every step, so a resumed run skips what's done:
+ * selection is never redone and finished files are never buggered twice. Buggered
+ * content is held here until the single commit at the end, so the branch is untouched
+ * until then.
+ */
+export interface StressCheckpoint {
+  /** When the first attempt started (epoch ms) */
+  startedAt: number;
+  /** Number of candidate files considered */
+  candidateCount: number;
+  /** Picked files in order, with their share of the bugs */
+  selection: { path: string; reasons: string[]; bugCount: number }[];
+  /** Caller/callee pair buggered together (the first two selected files) */
+  crossFileLink: CrossFileLink | null;
+  /** Whether the cross-file step has run */
+  crossFileDone: boolean;
+  /** Selected files that are finished, buggered or failed */
+  completedFiles: string[];
+  /** Buggered content of the finished files, committed together at the end */
+  changes: CommitFileChange[];
+  results: StressFileResult[];
+  symptoms: string[];
+  /** Ground-truth bug map, persisted as BugInstance rows */
+  bugs: InjectedBug[];
+  /** Token usage from every AI call, logged once the Bugger exists */
+  usage: { usage: TokenUsageData; provider: string; model: string }[];
+  /** When the first AI call started (epoch ms) */
+  aiStartedAt: number | null;
+  /** Bugger created for this run (null until persisted) */
+  buggerId: string | null;
+  /** Commit the buggered files were written in (null until committed) */
+  commitSha: string | null;
+}
+
+/**
+ * What a pipeline run needs besides the request.
+ */
+export interface StressRunContext {
+  /** GitHub token of the user the challenge is for */
+  accessToken: string;
+  userId: string;
+  report: StressProgressReporter;
+  /** Work completed by an earlier run of the same request */
+  checkpoint: StressCheckpoint | null;
+  /** Persists work as it completes */
+  saveCheckpoint: (checkpoint: StressCheckpoint) => Promise<void>;
+  /** Runs inside the transaction that creates the Bugger (e.g. to link it to its job) */
+  onBuggerCreated?: (tx: Prisma.TransactionClient, buggerId: string) => Promise<void>;
+}
+
+/**
+ * Resolves the requested difficulty and what it costs.
+ *
+ * @param difficulty - Difficulty from the request body
+ * @returns Stress level (medium if unknown), the level used for calculations (custom maps to high) and the coin cost
+ */
+export function resolveStressLevel(difficulty: unknown): {
+  stressLevel: StressLevel;
+  effectiveStressLevel: "low" | "medium" | "high";
+  coinCost: number;
+} {
+  const validLevels: StressLevel[] = ["low", "medium", "high", "custom"];
+  const stressLevel = validLevels.includes(difficulty as StressLevel) ? (difficulty as StressLevel) : "medium";
+  const effectiveStressLevel = stressLevel === "custom" ? "high" : stressLevel;
+  return { stressLevel, effectiveStressLevel, coinCost: STRESS_LEVEL_COSTS[effectiveStressLevel] };
+}
+
+/** A candidate file with its current content */
+interface ProcessableFile {
+  filePath: string;
+  content: string;
+}
+
+/**
+ * Picks the files to bugger: fetches the candidates, skips what can't be buggered and
+ * scores the rest (see lib/file-selection.ts).
+ *
+ * @returns The new checkpoint and the picked files' content, or the outcome to respond with if nothing can be buggered
+ */
+async function planStress(
+  request: StressRequest,
+  context: StressRunContext,
+  options: {
+    startedAt: number;
+    stressLevel: StressLevel;
+    filesToProcess: (candidateCount: number) => number;
+    totalBugCount: number;
+    bugSelection: Parameters<typeof countAvailableBugTypes>[2];
+    categories: ReturnType<typeof parseCategoryFilter>;
+  }
+): Promise<{ checkpoint: StressCheckpoint; files: ProcessableFile[] } | { outcome: StressOutcome }> {
+  const { accessToken, report } = context;
+  const { owner, repo, branch, seed } = request;
+  const { stressLevel, totalBugCount, bugSelection, categories } = options;
+
+  const pathPatterns: string[] = Array.isArray(request.paths)
+    ? [...new Set(request.paths.filter((p): p is string => typeof p === "string").map(normalizePathPattern).filter(Boolean))]
+    : [];
+
+  // Commit files plus whatever the paths/globs match in the branch's tree
+  const files: string[] = Array.isArray(request.files) ? [...request.files] : [];
+  if (pathPatterns.length > 0) {
+    report("fetching", `Resolving ${pathPatterns.join(", ")} in the repository`);
+    const tree = await fetchRepoTree(accessToken, owner, repo, branch);
+    if (tree.truncated) {
+      console.warn(`[Stress] Tree of ${owner}/${repo}@${branch} is truncated, some paths may not resolve`);
+    }
+    const matched = resolvePathPatterns(
+      tree.tree.filter((entry) => entry.type === "blob").map((entry) => entry.path),
+      pathPatterns
+    ).filter((filePath) => filePath !== STRESS_METADATA_PATH && !files.includes(filePath));
+
+    if (matched.length === 0 && files.length === 0) {
+      return { outcome: { status: 400, body: { error: `No supported files match: ${pathPatterns.join(", ")}` } } };
+    }
+
+    const candidates = shuffleWith(matched, createSeededRandom(`${seed}:paths`)).slice(0, MAX_CANDIDATE_FILES);
+    console.log(`[Stress] Paths ${pathPatterns.join(", ")} matched ${matched.length} file(s), considering ${candidates.length}`);
+    files.push(...candidates);
+  }
+
+  const filesToProcess = options.filesToProcess(files.length);
+  const fileStrategy = parseFileSelectionStrategy(request.fileStrategy);
+  console.log(`[Stress] File selection strategy: ${fileStrategy.id}`);
+
+  const results: StressFileResult[] = [];
+
+  // First, collect all valid files that we can process (fetch content)
+  const processableFiles: ProcessableFile[] = [];
+
+  for (const filePath of files) {
+    try {
+      // Skip non-code files
+      if (!isStressableFile(filePath)) {
+        results.push({ file: filePath, success: false, error: "Skipped non-code file" });
+        report("skipped", `Skipped ${filePath} (not a code file)`, filePath);
+        continue;
+      }
+
+      // Fetch the current file content
+      report("fetching", `Fetching ${filePath}`, filePath);
+      const fileContent = await fetchFileContent(accessToken, owner, repo, filePath, branch);
+
+      // GitHub doesn't inline the content of files over 1 MB
+      if (fileContent.encoding === "none" || (!fileContent.content && fileContent.size > 0)) {
+        results.push({ file: filePath, success: false, error: "Skipped: File too large" });
+        report("skipped", `Skipped ${filePath} (too large)`, filePath);
+        continue;
+      }
+
+      // Decode the content (it's base64 encoded)
+      const decodedContent = Buffer.from(fileContent.content, "base64").toString("utf-8");
+
+      const exclusionReason = findExclusionReason(filePath, decodedContent);
+      if (exclusionReason) {
+        results.push({ file: filePath, success: false, error: `Skipped: ${exclusionReason}` });
+        report("skipped", `Skipped ${filePath} (${exclusionReason.toLowerCase()})`, filePath);
+        continue;
+      }
+
+      processableFiles.push({
+        filePath,
+        content: decodedContent,
+      });
+    } catch (error) {
+      results.push({
+        file: filePath,
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      report("skipped", `Skipped ${filePath} (couldn't be fetched)`, filePath);
+    }
+  }
+
+  // Select files to stress
+  if (processableFiles.length === 0) {
+    return {
+      outcome: {
+        status: 200,
+        body: {
+          message: "No processable files found",
+          results,
+          symptoms: [],
+        },
+      },
+    };
+  }
+
+  // High level: look for a caller/callee pair to plant cross-file bugs in
+  let crossFileLink: CrossFileLink | null = null;
+  if (stressLevel === "high" && filesToProcess >= 2 && isCategoryAllowed(categories, CROSS_FILE_CATEGORY)) {
+    const links = buildCallGraph(processableFiles.map((f) => ({ path: f.filePath, content: f.content })));
+    if (links.length > 0) {
+      crossFileLink = links[Math.floor(createSeededRandom(`${seed}:cross-file`)() * links.length)];
+      console.log(`[Stress] Cross-file link: ${crossFileLink.caller} -> ${crossFileLink.callee} (${crossFileLink.symbols.join(", ")})`);
+    } else {
+      console.log("[Stress] No cross-file call relationships found, buggering files independently");
+    }
+  }
+
+  // Churn (recent commits per file) only matters to strategies that weigh it
+  const churnByPath = new Map<string, number | null>();
+  if (fileStrategy.weights.churn) {
+    report("selecting", "Checking recent commit history");
+    await Promise.all(
+      processableFiles.map(async (file) => {
+        const churn = await fetchFileCommitCount(accessToken, owner, repo, file.filePath, branch).catch(() => null);
+        churnByPath.set(file.filePath, churn);
+      })
+    );
+  }
+
+  // Select files to process (up to filesToProcess), linked files first
+  const pinnedFiles: PinnedFile[] = crossFileLink
+    ? [
+        { path: crossFileLink.caller, reason: `Calls into ${crossFileLink.callee} (cross-file bugs)` },
+        { path: crossFileLink.callee, reason: `Called from ${crossFileLink.caller} (cross-file bugs)` },
+      ]
+    : [];
+  const fileSelection = selectFiles(
+    processableFiles.map((f) => ({ path: f.filePath, content: f.content, churn: churnByPath.get(f.filePath) })),
+    filesToProcess,
+    fileStrategy,
+    createSeededRandom(`${seed}:files`),
+    pinnedFiles
+  );
+  const selectedFiles: ProcessableFile[] = fileSelection.map(
+    (selection) => processableFiles.find((f) => f.filePath === selection.path)!
+  );
+  for (const selection of fileSelection) {
+    console.log(`[Stress] Selected ${selection.path}: ${selection.reasons.join("; ")}`);
+  }
+  report("selecting", `Picked ${fileSelection.map((selection) => selection.path).join(", ")}`);
+
+  // Mark unselected files as skipped
+  for (const file of processableFiles) {
+    if (!selectedFiles.includes(file)) {
+      results.push({
+        file: file.filePath,
+        success: false,
+        error: "Not selected for buggering"
+      });
+    }
+  }
+
+  // Distribute bugs across selected files
+  // For simplicity, distribute bugs evenly (or as evenly as possible)
+  const bugsPerFile = Math.floor(totalBugCount / selectedFiles.length);
+  const remainingBugs = totalBugCount % selectedFiles.length;
+  const bugDistribution: number[] = selectedFiles.map((_, index) =>
+    bugsPerFile + (index < remainingBugs ? 1 : 0)
+  );
+
+  // Reject category selections that can't fill every file before spending any AI calls
+  if (categories) {
+    const unsatisfiable = selectedFiles
+      .map((file, index) => ({
+        file: file.filePath,
+        needed: bugDistribution[index],
+        available: countAvailableBugTypes(file.content, file.filePath, bugSelection),
+      }))
+      .filter(({ needed, available }) => available < needed);
+
+    if (unsatisfiable.length > 0) {
+      return {
+        outcome: {
+          status: 400,
+          body: {
+            error: `The selected bug categories can't be satisfied: ${unsatisfiable
+              .map(({ file, needed, available }) => `${file} needs ${needed} bug type(s), ${available} available`)
+              .join("; ")}`,
+          },
+        },
+      };
+    }
+  }
+
+  return {
+    checkpoint: {
+      startedAt: options.startedAt,
+      candidateCount: files.length,
+      selection: fileSelection.map((selection, index) => ({
+        path: selection.path,
+        reasons: selection.reasons,
+        bugCount: bugDistribution[index],
+      })),
+      crossFileLink,
+      crossFileDone: false,
+      completedFiles: [],
+      changes: [],
+      results,
+      symptoms: [],
+      bugs: [],
+      usage: [],
+      aiStartedAt: null,
+      buggerId: null,
+      commitSha: null,
+    },
+    files: selectedFiles,
+  };
+}
+
+/**
+ * Re-fetches the selected files a resumed run still has to bugger. The branch isn't
+ * written until the end, so this is still the original content.
+ * A file that can't be fetched any more fails.
+ *
+ * @returns Current content of the unfinished selected files
+ */
+async function refetchUnfinishedFiles(
+  request: StressRequest,
+  context: StressRunContext,
+  checkpoint: StressCheckpoint
+): Promise<ProcessableFile[]> {
+  const { accessToken, report } = context;
+  const files: ProcessableFile[] = [];
+
+  for (const { path: filePath } of checkpoint.selection) {
+    if (checkpoint.completedFiles.includes(filePath)) continue;
+    try {
+      report("fetching", `Fetching ${filePath}`, filePath);
+      const fileContent = await fetchFileContent(accessToken, request.owner, request.repo, filePath, request.branch);
+      files.push({
+        filePath,
+        content: Buffer.from(fileContent.content, "base64").toString("utf-8"),
+      });
+    } catch (error) {
+      checkpoint.results.push({
+        file: filePath,
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      checkpoint.completedFiles.push(filePath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Compensates for a challenge that couldn't be persisted by deleting its branch, so no
+ * buggered branch outlives a missing Bugger. If the delete fails too, the branch is left
+ * for the orphan reconciler (see lib/branch-reconciler.ts).
+ *
+ * @param accessToken - GitHub OAuth access token
+ * @param request - Stress request whose branch is discarded
+ * @returns True if the branch was deleted
+ */
+async function discardChallengeBranch(accessToken: string, request: StressRequest): Promise<boolean> {
+  const { owner, repo, branch } = request;
+  try {
+    await deleteBranch(accessToken, owner, repo, branch);
+    console.log(`[Stress] Deleted ${owner}/${repo}@${branch} after the challenge failed to save`);
+    return true;
+  } catch (error) {
+    console.error(`[Stress] Could not delete ${owner}/${repo}@${branch}, leaving it to the reconciler:`, error);
+    return false;
+  }
+}
+
+/**
+ * Uses AI to bugger up files with subtle breaking changes, then persists the challenge
+ * (Bugger row, .buggr.json, reasoning notes file) and emails the bug report.
+ * See POST /api/github/stress for how files are picked and buggered.
+ *
+ * Progress is checkpointed after file selection and after every committed file, so a run
+ * given a checkpoint picks up where the previous one stopped.
+ *
+ * If the challenge can't be saved or committed, it's compensated: the branch is deleted,
+ * and a Bugger that was already saved is removed with its coins refunded.
+ *
+ * @param request - Stress request
+ * @param context - Token, user, progress reporter and checkpoint persistence
+ * @returns The status and body to respond with
+ */
+export async function runStressPipeline(request: StressRequest, context: StressRunContext): Promise<StressOutcome> {
+  const { accessToken, report } = context;
+  let aiEndMs: number | null = null;
+
+  try {
+    const { owner, repo, branch, context: focus, difficulty, originalCommitSha, customFilesCount, customBugCount, seed, categories: requestedCategories } = request;
+
+    // Validate context length if provided
+    const stressContext = typeof focus === "string" ? focus.slice(0, 200) : undefined;
+
+    console.log(`[Stress] Using seed: ${seed}`);
+
+    // Look up user for token usage tracking and coin validation
+    const user = await prisma.user.findUnique({ where: { id: context.userId } });
+
+    if (!user) {
+      return { status: 404, body: { error: "User not found" } };
+    }
+
+    const { stressLevel, effectiveStressLevel, coinCost } = resolveStressLevel(difficulty);
+
+    // Check if user has enough coins
+    console.log(`[Coin Check] stressLevel: ${stressLevel}, effectiveStressLevel: ${effectiveStressLevel}, coinCost: ${coinCost}, STRESS_LEVEL_COSTS:`, STRESS_LEVEL_COSTS);
+
+    if (!coinCost) {
+      return { status: 500, body: { error: `Invalid coin cost calculation for stress level: ${effectiveStressLevel}` } };
+    }
+    // A resumed run whose Bugger is already saved has paid: it only has the commit left
+    const alreadyCharged = Boolean(context.checkpoint?.buggerId);
+    if (!alreadyCharged && user.coins < coinCost) {
+      return { status: 400, body: { error: `Not enough coins. Need ${coinCost} coins, have ${user.coins}` } };
+    }
+
+    // Calculate total bug count based on stress level (TOTAL across all files, not per file)
+    let totalBugCount: number;
+    if (stressLevel === "custom") {
+      // Use custom bug count if provided, otherwise default to 1
+      totalBugCount = typeof customBugCount === "number" && customBugCount > 0 ? customBugCount : 1;
+    } else {
+      // Fixed bug counts: Low: 2, Medium: 4, High: 6
+      const STRESS_CONFIGS = {
+        low: 2,
+        medium: 4,
+        high: 6,
+      };
+      totalBugCount = STRESS_CONFIGS[stressLevel];
+    }
+
+    // Determine how many files to process based on stress level
+    const filesToProcess = (candidateCount: number): number => {
+      if (stressLevel === "custom") {
+        return typeof customFilesCount === "number" && customFilesCount > 0
+          ? Math.min(customFilesCount, candidateCount)
+          : 1;
+      }
+      // Low: 1 file, Medium: 2 files, High: 3 files
+      const filesByLevel = {
+        low: 1,
+        medium: 2,
+        high: 3,
+      };
+      return Math.min(filesByLevel[stressLevel], candidateCount);
+    };
+
+    // The user's own bug types plus those shared with the repo's organization
+    const customBugTypes = await loadCustomBugTypes(user.id, owner);
+    if (customBugTypes.length > 0) {
+      console.log(`[Stress] Mixing in ${customBugTypes.length} custom bug type(s)`);
+    }
+
+    // Optional category include/exclude lists
+    const categories = parseCategoryFilter(requestedCategories);
+    if (categories && !alreadyCharged) {
+      const knownCategories = [...new Set([...BUG_CATEGORIES, ...customBugTypes.map((bugType) => bugType.category)])];
+      const categoryError = validateCategoryFilter(categories, knownCategories);
+      if (categoryError) {
+        return { status: 400, body: { error: categoryError } };
+      }
+      console.log(`[Stress] Categories - include: ${categories.include.join(", ") || "any"}, exclude: ${categories.exclude.join(", ") || "none"}`);
+    }
+    const bugSelection = { customBugTypes, categories };
+
+    // Pick the files, or pick up where an earlier run stopped
+    let state: StressCheckpoint;
+    let remainingFiles: ProcessableFile[];
+    if (context.checkpoint) {
+      state = context.checkpoint;
+      if (alreadyCharged) {
+        report("fetching", "Resuming: the challenge is saved, committing it");
+        remainingFiles = [];
+      } else {
+        report("fetching", `Resuming: ${state.completedFiles.length} of ${state.selection.length} file(s) already done`);
+        remainingFiles = await refetchUnfinishedFiles(request, context, state);
+      }
+    } else {
+      const plan = await planStress(request, context, {
+        startedAt: Date.now(),
+        stressLevel,
+        filesToProcess,
+        totalBugCount,
+        bugSelection,
+        categories,
+      });
+      if ("outcome" in plan) {
+        return plan.outcome;
+      }
+      state = plan.checkpoint;
+      remainingFiles = plan.files;
+    }
+    await context.saveCheckpoint(state);
+
+    const selectionReasons = new Map(state.selection.map((selection) => [selection.path, selection.reasons]));
+    const bugCounts = new Map(state.selection.map((selection) => [selection.path, selection.bugCount]));
+    const findRemaining = (filePath: string) => remainingFiles.find((file) => file.filePath === filePath);
+
+    /** Records a finished file and checkpoints it */
+    const completeFile = async (result: StressFileResult) => {
+      state.results.push(result);
+      state.completedFiles.push(result.file);
+      await context.saveCheckpoint(state);
+    };
+
+    state.aiStartedAt ??= Date.now();
+
+    // Plant cross-file bugs in the linked pair (the first two selected files) using their share of the bugs.
+    // If that fails, the pair falls back to being buggered independently below.
+    const crossFileLink = state.crossFileLink;
+    const callerFile = crossFileLink && findRemaining(crossFileLink.caller);
+    const calleeFile = crossFileLink && findRemaining(crossFileLink.callee);
+    if (crossFileLink && !state.crossFileDone && callerFile && calleeFile) {
+      try {
+        report("injecting", `Injecting cross-file bugs into ${callerFile.filePath} and ${calleeFile.filePath}`);
+        const crossResult = await introduceCrossFileStress(
+          crossFileLink,
+          { path: callerFile.filePath, content: callerFile.content },
+          { path: calleeFile.filePath, content: calleeFile.content },
+          stressContext,
+          "high",
+          (bugCounts.get(callerFile.filePath) ?? 0) + (bugCounts.get(calleeFile.filePath) ?? 0),
+          createSeededRandom(`${seed}:cross-file:bugs`)
+        );
+
+        if (crossResult.usage) {
+          state.usage.push({ usage: crossResult.usage, provider: crossResult.provider, model: crossResult.model });
+        }
+
+        // Blocked leaks throw, so the pair falls back to independent buggering
+        report("verifying", `Verifying ${callerFile.filePath} and ${calleeFile.filePath}`);
+        const scan = scanForLeaks({
+          files: crossResult.files.map((modifiedFile) => ({
+            path: modifiedFile.path,
+            originalContent: (modifiedFile.path === callerFile.filePath ? callerFile : calleeFile).content,
+            modifiedContent: modifiedFile.content,
+          })),
+          commitMessage: NEUTRAL_COMMIT_MESSAGE,
+          symptoms: crossResult.symptoms,
+          bugs: crossResult.bugs,
+        });
+
+        // A linked file the AI didn't need to edit is buggered independently below
+        if (scan.files.length > 0) {
+          state.symptoms.push(...scan.symptoms);
+        }
+        for (const [index, modifiedFile] of scan.files.entries()) {
+          const original = modifiedFile.path === callerFile.filePath ? callerFile : calleeFile;
+          const otherPath = original === callerFile ? calleeFile.filePath : callerFile.filePath;
+          // The bugs span both files: each file lists them, symptoms are only counted once
+          state.changes.push({ path: original.filePath, content: modifiedFile.content });
+          state.bugs.push(...scan.bugs.filter((bug) => bug.file === original.filePath));
+          await completeFile({
+            file: original.filePath,
+            success: true,
+            changes: crossResult.changes,
+            symptoms: index === 0 ? scan.symptoms : [],
+            crossFileWith: otherPath,
+            selectionReasons: selectionReasons.get(original.filePath),
+          });
+        }
+      } catch (error) {
+        console.error("[Stress] Cross-file injection failed, buggering linked files independently:", error instanceof Error ? error.message : error);
+      }
+    }
+    if (crossFileLink && !state.crossFileDone) {
+      state.crossFileDone = true;
+      await context.saveCheckpoint(state);
+    }
+
+    // Apply stress to each remaining selected file
+    for (const selectedFile of remainingFiles) {
+      if (state.completedFiles.includes(selectedFile.filePath)) {
+        continue;
+      }
+
+      const { filePath, content: decodedContent } = selectedFile;
+      const bugsForThisFile = bugCounts.get(filePath) ?? 1;
+
+      try {
+        // Use AI to introduce subtle stress with bugs for this file
+        report("injecting", `Injecting ${bugsForThisFile} bug${bugsForThisFile === 1 ? "" : "s"} into ${filePath}`, filePath);
+        const stressResult: AIStressResult = await introduceAIStress(
+          decodedContent,
+          filePath,
+          stressContext,
+          stressLevel === "custom" ? "high" : stressLevel, // Use high subtlety for custom mode
+          bugsForThisFile,
+          // Per-file stream so each file's bugs don't depend on the order files are processed
+          createSeededRandom(`${seed}:${filePath}`),
+          bugSelection
+        );
+
+        const { content: modifiedContent, changes, symptoms, bugs, usage, provider, model } = stressResult;
+
+        // Collect usage data for later logging (after Bugger is created)
+        if (usage) {
+          state.usage.push({ usage, provider, model });
+        }
+
+        // Only update if changes were made
+        if (changes.length > 0 && modifiedContent !== decodedContent) {
+          // Throws if a leak can't be rewritten, failing just this file
+          report("verifying", `Verifying ${filePath}`, filePath);
+          const scan = scanForLeaks({
+            files: [{ path: filePath, originalContent: decodedContent, modifiedContent }],
+            commitMessage: NEUTRAL_COMMIT_MESSAGE,
+            symptoms,
+            bugs,
+          });
+
+          state.changes.push({ path: filePath, content: scan.files[0].content });
+          state.symptoms.push(...scan.symptoms);
+          state.bugs.push(...scan.bugs);
+          await completeFile({
+            file: filePath,
+            success: true,
+            changes,
+            symptoms: scan.symptoms,
+            selectionReasons: selectionReasons.get(filePath),
+          });
+        } else {
+          // Provide detailed error message for debugging
+          const errorDetails: string[] = [];
+          if (changes.length === 0) {
+            errorDetails.push("AI returned 0 changes");
+          }
+          if (modifiedContent === decodedContent) {
+            errorDetails.push("AI returned unchanged content");
+          }
+          console.error(`Stress failed for ${filePath}: ${errorDetails.join(", ")}`);
+          await completeFile({
+            file: filePath,
+            success: false,
+            error: `No changes made (${errorDetails.join(", ")}). This may indicate an AI configuration issue.`
+          });
+        }
+      } catch (error) {
+        await completeFile({
+          file: filePath,
+          success: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+    aiEndMs = Date.now();
+
+    const results = state.results;
+    const successCount = results.filter((r) => r.success).length;
+    const failedResults = results.filter((r) => !r.success && r.error);
+    const attemptedFilesCount = state.selection.length;
+    // Files picked for buggering that failed (not the candidates left out or skipped)
+    const failedSelectedCount = failedResults.filter((r) => bugCounts.has(r.file)).length;
+
+    // Log failures for debugging
+    if (failedResults.length > 0) {
+      console.error("Failed stress results:", failedResults.map(r => ({ file: r.file, error: r.error })));
+    }
+
+    // Deduplicate symptoms
+    const uniqueSymptoms = [...new Set(state.symptoms)];
+
+    // Require at least one successful file to proceed
+    // If all attempted files fail, don't create bugger or deduct coins
+    let buggerId: string | null = state.buggerId;
+
+    if (successCount === 0 && attemptedFilesCount > 0) {
+      // All files failed - return error without deducting coins
+      return {
+        status: 500,
+        body: {
+          error: "Failed to bugger any files. AI returned unchanged content for all attempted files. This may indicate an issue with the file types or AI configuration.",
+          message: "No files were successfully buggered",
+          results,
+          symptoms: [],
+        },
+      };
+    }
+
+    // Charge for what was delivered: the bugs planned for the files that were buggered
+    const plannedBugCount = state.selection.reduce((total, selection) => total + selection.bugCount, 0);
+    const deliveredBugCount = results
+      .filter((r) => r.success)
+      .reduce((total, r) => total + (bugCounts.get(r.file) ?? 0), 0);
+    const coinsCharged = successCount > 0 ? priceDeliveredChallenge(coinCost, deliveredBugCount, plannedBugCount) : 0;
+    const partialDelivery = deliveredBugCount < plannedBugCount;
+
+    if (successCount > 0) {
+      const requestStartMs = state.startedAt;
+      const aiStartMs = state.aiStartedAt;
+      const executionCompletedAt = new Date();
+      const aiDurationMs = aiStartMs && aiEndMs ? aiEndMs - aiStartMs : null;
+      const successfulResults = results.filter((r) => r.success);
+      // Cross-file bugs are listed under both files they span
+      const allChanges = [...new Set(successfulResults.flatMap((r) => r.changes || []))];
+      const filesBuggered = successfulResults.map((r) => r.file);
+
+      // Save Bugger to database first (so we have the ID for metadata).
+      // A resumed run that already saved it goes straight to the metadata.
+      if (!buggerId) {
+        report("metadata", "Saving the challenge");
+        let bugger;
+        try {
+          // Format file changes for the UI (includes per-file change details)
+          const fileChanges = successfulResults.map((r) => ({
+            file: r.file,
+            success: true,
+            changes: r.changes || [],
+            selectionReasons: r.selectionReasons || [],
+          }));
+
+          // Use a transaction to ensure both bugger creation and coin deduction happen atomically
+          bugger = await prisma.$transaction(async (tx) => {
+            // Create the bugger
+            const newBugger = await tx.bugger.create({
+              data: {
+                userId: user.id,
+                owner,
+                repo,
+                branchName: branch,
+                stressLevel: effectiveStressLevel,
+                bugCount: deliveredBugCount,
+                seed,
+                fileSelectionStrategy: parseFileSelectionStrategy(request.fileStrategy).id,
+                originalCommitSha: originalCommitSha || "",
+                symptoms: uniqueSymptoms,
+                changes: allChanges,
+                filesBuggered,
+                fileChanges: fileChanges as unknown as Prisma.InputJsonValue, // Detailed per-file changes for notifications UI
+                noteRead: false,
+                changesRead: false,
+                createdAt: new Date(requestStartMs),
+                executedAt: executionCompletedAt,
+                aiStartedAt: aiStartMs ? new Date(aiStartMs) : null,
+                aiCompletedAt: aiEndMs ? new Date(aiEndMs) : null,
+                aiDurationMs: aiDurationMs ?? null,
+                bugs: {
+                  create: state.bugs.map(({ symptomCheck, ...bug }, order) => ({
+                    ...bug,
+                    order,
+                    // Cast to Prisma.InputJsonValue for JSON field compatibility
+                    ...(symptomCheck && { symptomCheck: symptomCheck as unknown as Prisma.InputJsonValue }),
+                  })),
+                },
+              },
+            });
+
+            // Deduct coins from the user. The balance was checked before generating, but another
+            // job may have spent it since: if so, nothing is saved.
+            const balance = await applyCoinChange(
+              tx,
+              {
+                userId: user.id,
+                amount: -coinsCharged,
+                reason: "challenge",
+                description: `${effectiveStressLevel} challenge on ${owner}/${repo}${
+                  partialDelivery ? ` (${deliveredBugCount} of ${plannedBugCount} bugs delivered, full price ${coinCost})` : ""
+                }`,
+                buggerId: newBugger.id,
+              },
+              { requireFunds: true }
+            );
+            if (balance === null) {
+              throw new InsufficientCoinsError(`Not enough coins. Need ${coinsCharged} coins to save the challenge`);
+            }
+
+            await context.onBuggerCreated?.(tx, newBugger.id);
+
+            return newBugger;
+          });
+        } catch (dbError) {
+          // Nothing is committed yet and no coins were taken: drop the branch rather than
+          // leave a challenge nobody can score
+          const branchRemoved = await discardChallengeBranch(accessToken, request);
+          if (dbError instanceof InsufficientCoinsError) {
+            console.warn(`[Stress] Coins ran out before ${branch} could be saved`);
+            return { status: 402, body: { error: dbError.message, branchRemoved, results, symptoms: [] } };
+          }
+          console.error("[Stress] Failed to save bugger to database:", dbError);
+          return {
+            status: 500,
+            body: {
+              error: `Failed to save the challenge: ${dbError instanceof Error ? dbError.message : "Unknown error"}`,
+              branchRemoved,
+              results,
+              symptoms: [],
+            },
+          };
+        }
+
+        buggerId = bugger.id;
+        state.buggerId = bugger.id;
+        await context.saveCheckpoint(state);
+
+        // Now log token usage with buggerId and full context
+        for (const { usage, provider, model } of state.usage) {
+          await logTokenUsage({
+            userId: user.id,
+            provider,
+            model,
+            usage,
+            operation: "stress",
+            buggerId: bugger.id,
+            stressLevel: effectiveStressLevel,
+            repoOwner: owner,
+            repoName: repo,
+          });
+        }
+      }
+
+      // Create metadata with buggerId included
+      const metadata: StressMetadata = {
+        buggerId: buggerId || undefined,
+        stressLevel: effectiveStressLevel,
+        bugCount: deliveredBugCount,
+        seed,
+        createdAt: new Date(requestStartMs).toISOString(),
+        executedAt: executionCompletedAt.toISOString(),
+        aiStartedAt: aiStartMs ? new Date(aiStartMs).toISOString() : undefined,
+        aiCompletedAt: aiEndMs ? new Date(aiEndMs).toISOString() : undefined,
+        aiDurationMs: aiDurationMs ?? undefined,
+        symptoms: uniqueSymptoms,
+        originalCommitSha: originalCommitSha || "",
+        owner,
+        repo,
+        branch,
+      };
+
+      // One commit with every buggered file, .buggr.json and an empty reasoning notes file for
+      // user annotations (unless the repo already has one). The branch only moves once it's all written.
+      if (!state.commitSha) {
+        report("metadata", `Writing ${STRESS_METADATA_PATH}`);
+        const hasReasoningFile = await fetchFileContent(accessToken, owner, repo, REASONING_FILE_PATH, branch).then(
+          () => true,
+          () => false
+        );
+        const commitChanges = [
+          ...state.changes,
+          stressMetadataFile(metadata),
+          ...(hasReasoningFile ? [] : [{ path: REASONING_FILE_PATH, content: "" }]),
+        ];
+
+        report("committing", `Committing ${state.changes.length} buggered file${state.changes.length === 1 ? "" : "s"}`);
+        try {
+          const commit = await commitFiles(accessToken, owner, repo, branch, commitChanges, NEUTRAL_COMMIT_MESSAGE);
+          state.commitSha = commit.sha;
+          await context.saveCheckpoint(state);
+        } catch (commitError) {
+          // The ref update may have landed even though the call failed, so the branch goes too.
+          // Then undo the Bugger and give the coins back.
+          console.error("[Stress] Failed to commit buggered files:", commitError);
+          const branchRemoved = await discardChallengeBranch(accessToken, request);
+          if (buggerId) {
+            const refundedBuggerId = buggerId;
+            await prisma.$transaction(async (tx) => {
+              await tx.bugger.delete({ where: { id: refundedBuggerId } });
+              await applyCoinChange(tx, {
+                userId: user.id,
+                amount: coinsCharged,
+                reason: "challenge_refund",
+                description: `${branch} could not be committed`,
+                buggerId: refundedBuggerId,
+              });
+            });
+            state.buggerId = null;
+            await context.saveCheckpoint(state);
+          }
+          return {
+            status: 500,
+            body: {
+              error: `Failed to commit the buggered files: ${commitError instanceof Error ? commitError.message : "Unknown error"}`,
+              branchRemoved,
+              results,
+              symptoms: [],
+            },
+          };
+        }
+      }
+
+      // Send bug report email to the user (don't block response)
+      if (user.email && uniqueSymptoms.length > 0) {
+        const dashboardUrl = `${APP_URL}/dashboard?repo=${owner}/${repo}&branch=${branch}`;
+        report("emailing", `Emailing the bug report to ${user.email}`);
+
+        sendBugReportEmail({
+          to: user.email,
+          repoName: `${owner}/${repo}`,
+          branchName: branch,
+          symptoms: uniqueSymptoms,
+          stressLevel: effectiveStressLevel,
+          dashboardUrl,
+        }).then((result) => {
+          if (result.success) {
+            console.log(`[Stress] Bug report email sent to ${user.email}`);
+          } else {
+            console.warn(`[Stress] Failed to send bug report email: ${result.error}`);
+          }
+        }).catch((err) => {
+          console.error("[Stress] Error sending bug report email:", err);
+        });
+      }
+    }
+
+    // Build response message with warning if some files failed
+    let message = `${successCount} of ${state.candidateCount} files have been buggered up`;
+    if (failedResults.length > 0 && successCount > 0) {
+      message += `. Warning: ${failedResults.length} file(s) could not be buggered (AI returned unchanged content)`;
+    }
+
+    return {
+      status: 200,
+      body: {
+        message,
+        results,
+        symptoms: uniqueSymptoms,
+        buggerId, // Return the buggerId so the client can use it later
+        seed, // Re-run with this seed and the same commit to reproduce the challenge
+        coinsCharged,
+        fullCost: coinCost,
+        warning: partialDelivery
+          ? `${failedSelectedCount} file(s) failed to be buggered, so you were charged ${coinsCharged} of ${coinCost} coins`
+          : undefined,
+      },
+    };
+  } catch (error) {
+    console.error("Error buggering up code:", error);
+    return { status: 500, body: { error: error instanceof Error ? error.message : "Failed to bugger up code" } };
+  }
+}
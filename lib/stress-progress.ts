@@ -0,0 +1,15 @@
+/**
+ * Stages the stress pipeline reports as it runs.
+ */
+export type StressProgressStage =
+  | "fetching"
+  | "skipped"
+  | "selecting"
+  | "injecting"
+  | "verifying"
+  | "committing"
+  | "metadata"
+  | "emailing";
+
+/** Reports what the stress pipeline is doing (recorded on its generation job) */
+export type StressProgressReporter = (stage: StressProgressStage, message: string, file?: string) => void;
@@ -0,0 +1,383 @@
+import path from "path";
+import { z } from "zod";
+import { generateAIObject } from "./ai-provider";
+import { TokenUsageData } from "./token-usage";
+
+/**
+ * Instructions for writing QA-style symptoms, shared by the AI and hybrid engines
+ * and by symptom regeneration.
+ */
+export const SYMPTOM_GUIDELINES = `IMPORTANT about "symptoms": Write these like bug reports from a QA tester who sees the UI, not the code:
+- Format: "[Specific Location]: [What went wrong]. Expected [X] but got [Y]."
+- EVERY symptom MUST start with a specific location (page name, component, section of the UI)
+- Location examples: "Home page:", "Filter bar on the Products page:", "User profile sidebar:", "Shopping cart modal:", "Search results in the header:"
+- For backend code with no UI, use the endpoint, command, or job as the location: "GET /api/orders response:", "Nightly export job:", "CLI import command:"
+- Do NOT mention variable names, function names, or line numbers
+- Describe what the user SEES, not what the code does
+- Symptoms MUST describe CLEAR, VISIBLE failures that happen 100% of the time
+- Good examples with locations:
+  - "Home page product grid: All prices show $0.00 instead of actual values"
+  - "Filter dropdown in the sidebar: Last 2 filter options are missing from the list"
+  - "User dashboard stats panel: App crashes with white screen when loading"
+  - "Navigation breadcrumbs: Names appear in reverse order"
+- DO NOT write symptoms like "app is slower" or "sometimes fails" - these are not clear enough
+- DO NOT write generic locations like "On the page" or "In the app" - be SPECIFIC about WHERE in the UI`;
+
+/**
+ * Recorded result of verifying one symptom.
+ */
+export interface SymptomCheck {
+  /** Whether the final symptom passed every check */
+  passed: boolean;
+  /** Problems with the final symptom (empty when it passed) */
+  issues: string[];
+  /** Whether the symptom was rewritten after failing */
+  regenerated: boolean;
+  /** The symptom that was rejected (only when regenerated) */
+  rejectedSymptom?: string;
+  /** Problems that got the rejected symptom rewritten (only when regenerated) */
+  rejectedIssues?: string[];
+  /** Whether the AI confirmed the symptom against the change (false when that check couldn't run) */
+  mappingChecked: boolean;
+}
+
+/**
+ * A symptom to verify, with the code change it is supposed to describe.
+ */
+export interface SymptomSubject {
+  symptom: string;
+  /** Technical description of the change (null if unknown) */
+  change: string | null;
+  /** Files the change touches */
+  files: string[];
+  /** Code before the change */
+  originalSnippets: string[];
+  /** Code after the change */
+  buggySnippets: string[];
+}
+
+/**
+ * Result of verifying a set of symptoms.
+ */
+export interface SymptomVerificationResult {
+  /** Final symptoms, in the same order as the subjects */
+  symptoms: string[];
+  /** Check results, in the same order as the subjects */
+  checks: SymptomCheck[];
+  /** Token usage of the verification calls (one entry per AI call) */
+  usage: { usage: TokenUsageData; provider: string; model: string }[];
+}
+
+/** Locations too vague to help anyone find the bug */
+const GENERIC_LOCATIONS = new Set([
+  "page", "the page", "app", "the app", "application", "the application", "ui", "the ui",
+  "screen", "the screen", "website", "the website", "site", "frontend", "backend", "bug",
+  "issue", "error", "problem", "symptom", "bug report",
+]);
+
+/** Line references like "line 12", "lines 3-5", "L12" */
+export const LINE_REFERENCE_PATTERN = /\blines?\s*#?\d+|\bL\d+\b/i;
+
+/** Code-style function calls like "getTotal()" */
+const CALL_SYNTAX_PATTERN = /\b[A-Za-z_$][\w$]*\(\)/;
+
+/**
+ * Finds a problem with a symptom's location prefix.
+ *
+ * @param symptom - Symptom to check
+ * @returns Issue description, or null if the symptom starts with a concrete location
+ */
+function findLocationIssue(symptom: string): string | null {
+  const match = symptom.match(/^\s*([^:.!?]{3,80}):\s*\S/);
+  if (!match) {
+    return 'Does not start with a concrete location ("Location: what went wrong")';
+  }
+
+  const location = match[1].trim().toLowerCase().replace(/^(on|in|at)\s+/, "");
+  if (GENERIC_LOCATIONS.has(location)) {
+    return `Location "${match[1].trim()}" is too generic - name the page, component or endpoint`;
+  }
+  return null;
+}
+
+/**
+ * Collects the code-like identifiers in snippets (camelCase, snake_case, $-prefixed).
+ * Plain words are skipped since they may legitimately appear in a bug report ("total", "items").
+ *
+ * @param snippets - Code snippets
+ * @returns Identifiers a symptom must not mention
+ */
+export function collectIdentifiers(snippets: string[]): Set<string> {
+  const identifiers = new Set<string>();
+  for (const snippet of snippets) {
+    // String literal contents are user-visible text, not identifiers
+    const code = snippet.replace(/(["'`])(?:\\.|(?!\1)[^\\\n])*\1/g, "");
+    for (const token of code.match(/[A-Za-z_$][\w$]*/g) ?? []) {
+      if (token.length >= 4 && (/[a-z][A-Z]/.test(token) || /\w_\w/.test(token) || token.startsWith("$"))) {
+        identifiers.add(token);
+      }
+    }
+  }
+  return identifiers;
+}
+
+/**
+ * Finds leaks of code details in a symptom: identifiers, file names and line numbers.
+ *
+ * @param subject - Symptom and the change it describes
+ * @returns Issue descriptions (empty if nothing leaks)
+ */
+export function findLeakIssues(subject: SymptomSubject): string[] {
+  const { symptom } = subject;
+  const issues: string[] = [];
+  const lowerSymptom = symptom.toLowerCase();
+
+  const leakedFiles = subject.files.filter(
+    (file) => lowerSymptom.includes(file.toLowerCase()) || lowerSymptom.includes(path.posix.basename(file).toLowerCase())
+  );
+  if (leakedFiles.length > 0) {
+    issues.push(`Mentions the file name (${leakedFiles.map((file) => path.posix.basename(file)).join(", ")})`);
+  }
+
+  if (LINE_REFERENCE_PATTERN.test(symptom)) {
+    issues.push("Mentions a line number");
+  }
+
+  const leakedIdentifiers = [...collectIdentifiers([...subject.originalSnippets, ...subject.buggySnippets])].filter(
+    (identifier) => new RegExp(`(^|[^\\w$])${identifier.replace(/\$/g, "\\$")}($|[^\\w$])`).test(symptom)
+  );
+  if (leakedIdentifiers.length > 0) {
+    issues.push(`Mentions code identifiers (${leakedIdentifiers.join(", ")})`);
+  } else if (CALL_SYNTAX_PATTERN.test(symptom) || symptom.includes("`")) {
+    issues.push("Contains code");
+  }
+
+  return issues;
+}
+
+/**
+ * Runs the deterministic checks on a symptom: concrete location and no leaked code details.
+ *
+ * @param subject - Symptom and the change it describes
+ * @returns Issue descriptions (empty if the symptom passed)
+ */
+export function checkSymptom(subject: SymptomSubject): string[] {
+  const locationIssue = findLocationIssue(subject.symptom);
+  return [...(locationIssue ? [locationIssue] : []), ...findLeakIssues(subject)];
+}
+
+/**
+ * Formats a subject for a verification or regeneration prompt.
+ *
+ * @param subject - Symptom and the change it describes
+ * @param index - 0-based subject index
+ * @returns Prompt section for the subject
+ */
+function formatSubject(subject: SymptomSubject, index: number): string {
+  return `BUG ${index + 1}:
+Change: ${subject.change ?? "(no description)"}
+Original code:
+\`\`\`
+${subject.originalSnippets.join("\n...\n")}
+\`\`\`
+Buggy code:
+\`\`\`
+${subject.buggySnippets.join("\n...\n")}
+\`\`\`
+Symptom: "${subject.symptom}"`;
+}
+
+/**
+ * Schema for the AI's check that each symptom describes its change.
+ */
+const mappingCheckSchema = z.object({
+  checks: z
+    .array(
+      z.object({
+        bug: z.number().int().min(1).describe("Number of the BUG being checked"),
+        mapsToChange: z.boolean().describe("True if the change would really cause the described symptom"),
+        reason: z.string().describe("Short explanation when it doesn't"),
+      })
+    )
+    .describe("One check per bug"),
+});
+
+/**
+ * Schema for regenerated symptoms.
+ */
+const regeneratedSymptomsSchema = z.object({
+  symptoms: z
+    .array(
+      z.object({
+        bug: z.number().int().min(1).describe("Number of the BUG the symptom is for"),
+        symptom: z.string().min(1).describe("Rewritten QA-style bug report"),
+      })
+    )
+    .describe("One rewritten symptom per listed bug"),
+});
+
+/**
+ * Asks the AI whether each symptom describes a failure its change really causes.
+ *
+ * @param subjects - Symptoms with their changes
+ * @returns Per-subject mapping issue (null when it maps), with the call's usage
+ */
+async function checkSymptomMapping(subjects: SymptomSubject[]) {
+  const prompt = `You are reviewing bug reports for a debugging training game. Each BUG below is a code change
+that was deliberately introduced, with the QA-style symptom written for it.
+
+For each BUG, decide whether the change would really cause the described symptom: the symptom must describe
+this specific change's effect (not a different bug, not a vague or unrelated failure).
+
+${subjects.map(formatSubject).join("\n\n")}
+
+Respond with ONLY a JSON object in this exact format (no markdown, no explanation):
+{
+  "checks": [{ "bug": 1, "mapsToChange": true, "reason": "" }]
+}`;
+
+  const { object, usage, provider, model } = await generateAIObject({
+    operation: "stress",
+    prompt,
+    schema: mappingCheckSchema,
+    schemaName: "symptom_checks",
+    logPrefix: "[SymptomCheck]",
+    validate: (response) => {
+      const checked = new Set(response.checks.map((check) => check.bug));
+      const missing = subjects.map((_, index) => index + 1).filter((bug) => !checked.has(bug));
+      return missing.length === 0 ? null : `Missing checks for BUG ${missing.join(", ")}`;
+    },
+  });
+
+  const issues = subjects.map((_, index) => {
+    const check = object.checks.find((c) => c.bug === index + 1)!;
+    return check.mapsToChange ? null : `Does not match the injected change${check.reason ? `: ${check.reason}` : ""}`;
+  });
+  return { issues, usage, provider, model };
+}
+
+/**
+ * Asks the AI to rewrite failing symptoms. The deterministic checks run inside the
+ * repair loop, so rewrites that still leak code or lack a location are sent back.
+ *
+ * @param subjects - All subjects
+ * @param failing - Indexes of the subjects to rewrite, with their issues
+ * @returns New symptom per failing index, with the call's usage
+ */
+async function regenerateSymptoms(subjects: SymptomSubject[], failing: { index: number; issues: string[] }[]) {
+  const prompt = `You are a QA tester rewriting bug reports for a debugging training game.
+The symptoms below were rejected. Rewrite each one so it describes what a user sees because of that exact change.
+
+${failing
+  .map(({ index, issues }) => `${formatSubject(subjects[index], index)}
+Rejected because:
+${issues.map((issue) => `- ${issue}`).join("\n")}`)
+  .join("\n\n")}
+
+Respond with ONLY a JSON object in this exact format (no markdown, no explanation):
+{
+  "symptoms": [{ "bug": ${failing[0].index + 1}, "symptom": "Rewritten bug report" }]
+}
+
+${SYMPTOM_GUIDELINES}`;
+
+  const { object, usage, provider, model } = await generateAIObject({
+    operation: "stress",
+    prompt,
+    schema: regeneratedSymptomsSchema,
+    schemaName: "symptoms",
+    logPrefix: "[SymptomCheck]",
+    validate: (response) => {
+      const problems: string[] = [];
+      for (const { index } of failing) {
+        const rewritten = response.symptoms.find((s) => s.bug === index + 1);
+        if (!rewritten) {
+          problems.push(`Missing symptom for BUG ${index + 1}`);
+          continue;
+        }
+        const issues = checkSymptom({ ...subjects[index], symptom: rewritten.symptom });
+        if (issues.length > 0) {
+          problems.push(`BUG ${index + 1}: ${issues.join("; ")}`);
+        }
+      }
+      return problems.length === 0 ? null : problems.join("\n");
+    },
+  });
+
+  const symptoms = new Map(
+    failing.map(({ index }) => [index, object.symptoms.find((s) => s.bug === index + 1)!.symptom])
+  );
+  return { symptoms, usage, provider, model };
+}
+
+/**
+ * Verifies symptoms before they're shown to the player: each must describe its injected
+ * change, start with a concrete location, and not leak identifiers, file names or line numbers.
+ * Failing symptoms are rewritten once. AI failures never fail the challenge - the
+ * symptoms are kept and the check records what couldn't be verified.
+ *
+ * @param subjects - Symptoms with the changes they describe
+ * @returns Final symptoms with the recorded checks
+ */
+export async function verifySymptoms(subjects: SymptomSubject[]): Promise<SymptomVerificationResult> {
+  const usage: SymptomVerificationResult["usage"] = [];
+  if (subjects.length === 0) {
+    return { symptoms: [], checks: [], usage };
+  }
+
+  const issues = subjects.map(checkSymptom);
+
+  let mappingChecked = false;
+  try {
+    const mapping = await checkSymptomMapping(subjects);
+    if (mapping.usage) usage.push({ usage: mapping.usage, provider: mapping.provider, model: mapping.model });
+    mapping.issues.forEach((issue, index) => {
+      if (issue) issues[index].push(issue);
+    });
+    mappingChecked = true;
+  } catch (error) {
+    console.warn("[SymptomCheck] Mapping check failed:", error instanceof Error ? error.message : error);
+  }
+
+  const failing = issues
+    .map((subjectIssues, index) => ({ index, issues: subjectIssues }))
+    .filter(({ issues: subjectIssues }) => subjectIssues.length > 0);
+
+  let rewritten = new Map<number, string>();
+  if (failing.length > 0) {
+    try {
+      const regenerated = await regenerateSymptoms(subjects, failing);
+      if (regenerated.usage) usage.push({ usage: regenerated.usage, provider: regenerated.provider, model: regenerated.model });
+      rewritten = regenerated.symptoms;
+    } catch (error) {
+      console.warn("[SymptomCheck] Regeneration failed, keeping original symptoms:", error instanceof Error ? error.message : error);
+    }
+  }
+
+  const checks = subjects.map((subject, index): SymptomCheck => {
+    const newSymptom = rewritten.get(index);
+    if (newSymptom === undefined) {
+      return { passed: issues[index].length === 0, issues: issues[index], regenerated: false, mappingChecked };
+    }
+    return {
+      // Rewrites already passed the deterministic checks in the repair loop
+      passed: true,
+      issues: [],
+      regenerated: true,
+      rejectedSymptom: subject.symptom,
+      rejectedIssues: issues[index],
+      mappingChecked,
+    };
+  });
+
+  console.log(
+    `[SymptomCheck] ${checks.filter((check) => check.passed && !check.regenerated).length}/${subjects.length} passed, ` +
+      `${checks.filter((check) => check.regenerated).length} regenerated`
+  );
+
+  return {
+    symptoms: subjects.map((subject, index) => rewritten.get(index) ?? subject.symptom),
+    checks,
+    usage,
+  };
+}
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The TypeScript compiler is used at runtime to verify buggered files parse;
+  // load it from node_modules instead of bundling it into server chunks
+  serverExternalPackages: ["typescript"],
 };
 
 export default nextConfig;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Bugger" ADD COLUMN     "seed" TEXT;
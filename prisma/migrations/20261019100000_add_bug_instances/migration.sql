@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "BugInstance" (
+    "id" TEXT NOT NULL,
+    "buggerId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "file" TEXT NOT NULL,
+    "lineStart" INTEGER NOT NULL,
+    "lineEnd" INTEGER NOT NULL,
+    "originalSnippet" TEXT NOT NULL,
+    "buggySnippet" TEXT NOT NULL,
+    "bugTypeId" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT,
+    "symptom" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BugInstance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BugInstance_buggerId_idx" ON "BugInstance"("buggerId");
+
+-- CreateIndex
+CREATE INDEX "BugInstance_bugTypeId_idx" ON "BugInstance"("bugTypeId");
+
+-- AddForeignKey
+ALTER TABLE "BugInstance" ADD CONSTRAINT "BugInstance_buggerId_fkey" FOREIGN KEY ("buggerId") REFERENCES "Bugger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
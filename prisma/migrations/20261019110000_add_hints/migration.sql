@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "BugInstance" ADD COLUMN     "functionName" TEXT;
+
+-- AlterTable
+ALTER TABLE "Result" ADD COLUMN     "hintCoinsSpent" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "hintPenaltyMinutes" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "hintsUsed" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "Hint" (
+    "id" TEXT NOT NULL,
+    "buggerId" TEXT NOT NULL,
+    "bugInstanceId" TEXT NOT NULL,
+    "level" INTEGER NOT NULL,
+    "cost" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Hint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Hint_buggerId_idx" ON "Hint"("buggerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Hint_bugInstanceId_level_key" ON "Hint"("bugInstanceId", "level");
+
+-- AddForeignKey
+ALTER TABLE "Hint" ADD CONSTRAINT "Hint_buggerId_fkey" FOREIGN KEY ("buggerId") REFERENCES "Bugger"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Hint" ADD CONSTRAINT "Hint_bugInstanceId_fkey" FOREIGN KEY ("bugInstanceId") REFERENCES "BugInstance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "CustomBugType" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "orgLogin" TEXT,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "examples" TEXT[],
+    "sampleSymptom" TEXT NOT NULL,
+    "framework" TEXT,
+    "language" TEXT,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CustomBugType_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CustomBugType_userId_idx" ON "CustomBugType"("userId");
+
+-- CreateIndex
+CREATE INDEX "CustomBugType_orgLogin_idx" ON "CustomBugType"("orgLogin");
+
+-- AddForeignKey
+ALTER TABLE "CustomBugType" ADD CONSTRAINT "CustomBugType_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BugInstance" ADD COLUMN     "symptomCheck" JSONB;
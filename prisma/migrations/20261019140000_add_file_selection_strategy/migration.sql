@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Bugger" ADD COLUMN     "fileSelectionStrategy" TEXT;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "GenerationJob" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "input" JSONB NOT NULL,
+    "progress" JSONB NOT NULL DEFAULT '[]',
+    "checkpoint" JSONB,
+    "resultStatus" INTEGER,
+    "result" JSONB,
+    "buggerId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "heartbeatAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GenerationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GenerationJob_buggerId_key" ON "GenerationJob"("buggerId");
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_userId_idx" ON "GenerationJob"("userId");
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_status_idx" ON "GenerationJob"("status");
+
+-- AddForeignKey
+ALTER TABLE "GenerationJob" ADD CONSTRAINT "GenerationJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GenerationJob" ADD CONSTRAINT "GenerationJob_buggerId_fkey" FOREIGN KEY ("buggerId") REFERENCES "Bugger"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "GenerationJob" ADD COLUMN     "idempotencyKey" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GenerationJob_userId_idempotencyKey_key" ON "GenerationJob"("userId", "idempotencyKey");
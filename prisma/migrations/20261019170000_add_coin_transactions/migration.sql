@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "CoinTransaction" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "description" TEXT,
+    "balanceAfter" INTEGER NOT NULL,
+    "buggerId" TEXT,
+    "invitationId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CoinTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CoinTransaction_userId_createdAt_idx" ON "CoinTransaction"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CoinTransaction_buggerId_idx" ON "CoinTransaction"("buggerId");
+
+-- AddForeignKey
+ALTER TABLE "CoinTransaction" ADD CONSTRAINT "CoinTransaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: start every existing ledger from the current balance
+INSERT INTO "CoinTransaction" ("id", "userId", "amount", "reason", "description", "balanceAfter")
+SELECT gen_random_uuid()::text, "id", "coins", 'opening_balance', 'Balance when the coin history started', "coins"
+FROM "User";
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Bugger" ADD COLUMN     "brokenAt" TIMESTAMP(3),
+ADD COLUMN     "brokenReason" TEXT;